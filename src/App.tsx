@@ -11,6 +11,7 @@ import AuthPage from "./pages/AuthPage";
 import JoinPage from "./pages/JoinPage";
 import DashboardPage from "./pages/DashboardPage";
 import AgentPodcastPage from "./pages/AgentPodcastPage";
+import PodcastPlaybackPage from "./pages/PodcastPlaybackPage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -30,6 +31,7 @@ const App = () => (
             <Route path="/join" element={<JoinPage />} />
             <Route path="/dashboard" element={<DashboardPage />} />
             <Route path="/podcast" element={<AgentPodcastPage />} />
+            <Route path="/podcasts/:id/play" element={<PodcastPlaybackPage />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -1,87 +1,33 @@
-import { useState, useEffect } from 'react';
-import { Sparkles, MessageSquare, Lightbulb, HelpCircle, Quote } from 'lucide-react';
-import { HostConfig } from '@/types/podcast';
+import { useState } from 'react';
+import { Sparkles, Mic, Lightbulb, ListChecks, Flag, ArrowUp, ArrowDown, Trash2, Plus, X, Radio } from 'lucide-react';
+import { EpisodeOutline, HostConfig, OutlineSegment } from '@/types/podcast';
+import { allocateBudgets, createSegmentId } from '@/lib/outlineGenerator';
+import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 
-interface Viewpoint {
-  id: string;
-  text: string;
-  hostId: string;
-  type: 'insight' | 'question' | 'counterpoint' | 'example';
-}
-
 interface BuildingOutlineCardProps {
   hosts: HostConfig[];
   isActive: boolean;
-  topic: string;
-  onComplete?: () => void;
+  outline: EpisodeOutline | null;
+  onChange?: (outline: EpisodeOutline) => void;
+  onGoLive?: () => void;
+  onCancel?: () => void;
 }
 
-const VIEWPOINT_ICONS = {
-  insight: Lightbulb,
-  question: HelpCircle,
-  counterpoint: MessageSquare,
-  example: Quote,
+const SEGMENT_ICONS = {
+  intro: Mic,
+  topic: Lightbulb,
+  recap: ListChecks,
+  outro: Flag,
 };
 
-// Generate mock viewpoints based on topic
-function generateViewpoints(topic: string, hosts: HostConfig[]): Viewpoint[] {
-  const templates = [
-    { text: `Explain the fundamentals of ${topic}`, type: 'insight' as const },
-    { text: `But what about the limitations?`, type: 'counterpoint' as const },
-    { text: `How does this apply in practice?`, type: 'question' as const },
-    { text: `Real-world case study of ${topic}`, type: 'example' as const },
-    { text: `Common misconceptions about ${topic}`, type: 'insight' as const },
-    { text: `Why do some experts disagree?`, type: 'counterpoint' as const },
-  ];
-
-  return templates.map((t, idx) => ({
-    id: `vp-${idx}`,
-    text: t.text,
-    hostId: hosts[idx % hosts.length]?.id || 'host-a',
-    type: t.type,
-  }));
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
 }
 
-export function BuildingOutlineCard({ hosts, isActive, topic, onComplete }: BuildingOutlineCardProps) {
-  const [viewpoints, setViewpoints] = useState<Viewpoint[]>([]);
-  const [visibleViewpoints, setVisibleViewpoints] = useState<Set<string>>(new Set());
-  const [assignedViewpoints, setAssignedViewpoints] = useState<Set<string>>(new Set());
-
-  useEffect(() => {
-    if (!isActive) {
-      setViewpoints([]);
-      setVisibleViewpoints(new Set());
-      setAssignedViewpoints(new Set());
-      return;
-    }
-
-    const vps = generateViewpoints(topic || 'this topic', hosts);
-    setViewpoints(vps);
-
-    // Reveal viewpoints one by one
-    vps.forEach((vp, idx) => {
-      setTimeout(() => {
-        setVisibleViewpoints((prev) => new Set([...prev, vp.id]));
-      }, idx * 400);
-    });
-
-    // Then assign to hosts
-    const assignDelay = vps.length * 400 + 500;
-    vps.forEach((vp, idx) => {
-      setTimeout(() => {
-        setAssignedViewpoints((prev) => new Set([...prev, vp.id]));
-      }, assignDelay + idx * 300);
-    });
-
-    // Complete after all assignments
-    const completeDelay = assignDelay + vps.length * 300 + 500;
-    const timeout = setTimeout(() => {
-      onComplete?.();
-    }, completeDelay);
-
-    return () => clearTimeout(timeout);
-  }, [isActive, topic, hosts, onComplete]);
+export function BuildingOutlineCard({ hosts, isActive, outline, onChange, onGoLive, onCancel }: BuildingOutlineCardProps) {
+  const [pointDrafts, setPointDrafts] = useState<Record<string, string>>({});
 
   if (!isActive) return null;
 
@@ -94,24 +40,84 @@ export function BuildingOutlineCard({ hosts, isActive, topic, onComplete }: Buil
 
   const getHost = (hostId: string) => hosts.find((h) => h.id === hostId);
 
+  const setSegments = (segments: OutlineSegment[], rebalance = false) => {
+    if (!outline) return;
+    onChange?.({ ...outline, segments: rebalance ? allocateBudgets(segments, outline.length) : segments });
+  };
+
+  const updateSegment = (id: string, updates: Partial<OutlineSegment>) => {
+    if (!outline) return;
+    setSegments(outline.segments.map((s) => (s.id === id ? { ...s, ...updates } : s)));
+  };
+
+  const cycleLeadHost = (segment: OutlineSegment) => {
+    const idx = hosts.findIndex((h) => h.id === segment.leadHostId);
+    updateSegment(segment.id, { leadHostId: hosts[(idx + 1) % hosts.length].id });
+  };
+
+  // Topic segments move between the intro and the recap; framing segments stay put
+  const moveSegment = (index: number, direction: -1 | 1) => {
+    if (!outline) return;
+    const target = outline.segments[index + direction];
+    if (!target || target.kind !== 'topic') return;
+    const segments = [...outline.segments];
+    [segments[index], segments[index + direction]] = [segments[index + direction], segments[index]];
+    setSegments(segments);
+  };
+
+  const removeSegment = (id: string) => {
+    if (!outline) return;
+    setSegments(outline.segments.filter((s) => s.id !== id), true);
+  };
+
+  const addSegment = () => {
+    if (!outline) return;
+    const topicCount = outline.segments.filter((s) => s.kind === 'topic').length;
+    const segment: OutlineSegment = {
+      id: createSegmentId(),
+      kind: 'topic',
+      title: 'New segment',
+      goal: '',
+      talkingPoints: [],
+      leadHostId: hosts[topicCount % hosts.length]?.id || 'host-a',
+      durationSeconds: 0,
+      turns: 0,
+    };
+    const recapIndex = outline.segments.findIndex((s) => s.kind === 'recap' || s.kind === 'outro');
+    const segments = [...outline.segments];
+    segments.splice(recapIndex >= 0 ? recapIndex : segments.length, 0, segment);
+    setSegments(segments, true);
+  };
+
+  const addTalkingPoint = (segment: OutlineSegment) => {
+    const point = (pointDrafts[segment.id] || '').trim();
+    if (!point) return;
+    updateSegment(segment.id, { talkingPoints: [...segment.talkingPoints, point] });
+    setPointDrafts((prev) => ({ ...prev, [segment.id]: '' }));
+  };
+
+  const totalSeconds = outline?.segments.reduce((sum, s) => sum + s.durationSeconds, 0) || 0;
+
   return (
     <div className="rounded-lg border border-border bg-card/50 p-4 animate-fade-in">
       {/* Header */}
       <div className="flex items-center gap-2 mb-4">
         <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center">
-          <Sparkles className="w-4 h-4 text-primary animate-pulse" />
+          <Sparkles className={cn('w-4 h-4 text-primary', !outline && 'animate-pulse')} />
         </div>
         <div>
-          <h3 className="text-sm font-medium">Building Episode Outline</h3>
+          <h3 className="text-sm font-medium">{outline ? 'Episode Outline' : 'Building Episode Outline'}</h3>
           <p className="text-xs text-muted-foreground">
-            Detecting viewpoints and assigning to hosts
+            {outline
+              ? `${outline.segments.length} segments · ${formatDuration(totalSeconds)} · edit anything before going live`
+              : 'Planning segments and assigning them to hosts'}
           </p>
         </div>
       </div>
 
       {/* Host legend */}
       <div className="flex gap-4 mb-4">
-        {hosts.slice(0, 3).map((host, idx) => {
+        {hosts.slice(0, 3).map((host) => {
           const colors = getHostColor(host.id);
           return (
             <div key={host.id} className="flex items-center gap-2">
@@ -130,47 +136,149 @@ export function BuildingOutlineCard({ hosts, isActive, topic, onComplete }: Buil
         })}
       </div>
 
-      {/* Viewpoints */}
-      <div className="space-y-2">
-        {viewpoints.map((vp) => {
-          const isVisible = visibleViewpoints.has(vp.id);
-          const isAssigned = assignedViewpoints.has(vp.id);
-          const colors = getHostColor(vp.hostId);
-          const host = getHost(vp.hostId);
-          const Icon = VIEWPOINT_ICONS[vp.type];
+      {/* Placeholder rows while the outline is generated */}
+      {!outline && (
+        <div className="space-y-2">
+          {[0, 1, 2, 3].map((i) => (
+            <div
+              key={i}
+              className="h-10 rounded-md bg-muted/30 animate-pulse"
+              style={{ animationDelay: `${i * 150}ms` }}
+            />
+          ))}
+        </div>
+      )}
 
-          if (!isVisible) return null;
+      {/* Segments */}
+      {outline && (
+        <div className="space-y-2">
+          {outline.segments.map((segment, index) => {
+            const colors = getHostColor(segment.leadHostId);
+            const host = getHost(segment.leadHostId);
+            const Icon = SEGMENT_ICONS[segment.kind];
+            const isTopic = segment.kind === 'topic';
 
-          return (
-            <div
-              key={vp.id}
-              className={cn(
-                'flex items-center gap-3 p-2 rounded-md border transition-all duration-500 animate-outline-appear',
-                isAssigned ? colors.bg : 'bg-muted/30',
-                isAssigned ? colors.border : 'border-transparent'
-              )}
-            >
-              <Icon className={cn('w-4 h-4', isAssigned ? colors.text : 'text-muted-foreground')} />
-              <span className="text-xs flex-1">{vp.text}</span>
-              
-              {isAssigned && host && (
-                <div className={cn('flex items-center gap-1.5 animate-scale-in')}>
-                  <div className="w-4 h-4 rounded-full border overflow-hidden">
-                    {host.avatarUrl ? (
-                      <img src={host.avatarUrl} alt={host.name} className="w-full h-full object-cover" />
-                    ) : (
-                      <div className="w-full h-full bg-muted text-[6px] flex items-center justify-center">
-                        {host.name[0]}
-                      </div>
-                    )}
-                  </div>
-                  <span className={cn('text-[10px] font-medium', colors.text)}>{host.name}</span>
+            return (
+              <div
+                key={segment.id}
+                className={cn('p-2 rounded-md border transition-all duration-500 animate-outline-appear', colors.bg, colors.border)}
+                style={{ animationDelay: `${index * 80}ms` }}
+              >
+                <div className="flex items-center gap-3">
+                  <Icon className={cn('w-4 h-4 shrink-0', colors.text)} />
+                  <input
+                    value={segment.title}
+                    onChange={(e) => updateSegment(segment.id, { title: e.target.value })}
+                    className="text-xs font-medium flex-1 min-w-0 bg-transparent focus:outline-none"
+                    aria-label="Segment title"
+                  />
+                  <span className="text-[10px] text-muted-foreground font-mono">
+                    {formatDuration(segment.durationSeconds)}
+                  </span>
+
+                  <button
+                    type="button"
+                    onClick={() => cycleLeadHost(segment)}
+                    className="flex items-center gap-1.5"
+                    title="Change lead host"
+                  >
+                    <div className="w-4 h-4 rounded-full border overflow-hidden">
+                      {host?.avatarUrl ? (
+                        <img src={host.avatarUrl} alt={host.name} className="w-full h-full object-cover" />
+                      ) : (
+                        <div className="w-full h-full bg-muted text-[6px] flex items-center justify-center">
+                          {host?.name[0]}
+                        </div>
+                      )}
+                    </div>
+                    <span className={cn('text-[10px] font-medium', colors.text)}>{host?.name}</span>
+                  </button>
+
+                  {isTopic && (
+                    <div className="flex items-center gap-0.5 text-muted-foreground">
+                      <button type="button" onClick={() => moveSegment(index, -1)} className="p-0.5 hover:text-foreground" aria-label="Move up">
+                        <ArrowUp className="w-3 h-3" />
+                      </button>
+                      <button type="button" onClick={() => moveSegment(index, 1)} className="p-0.5 hover:text-foreground" aria-label="Move down">
+                        <ArrowDown className="w-3 h-3" />
+                      </button>
+                      <button type="button" onClick={() => removeSegment(segment.id)} className="p-0.5 hover:text-destructive" aria-label="Remove segment">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
-          );
-        })}
-      </div>
+
+                <input
+                  value={segment.goal}
+                  onChange={(e) => updateSegment(segment.id, { goal: e.target.value })}
+                  placeholder="Goal of this segment"
+                  className="mt-1 ml-7 w-[calc(100%-1.75rem)] text-[11px] text-muted-foreground bg-transparent focus:outline-none"
+                  aria-label="Segment goal"
+                />
+
+                <div className="flex flex-wrap items-center gap-1 mt-1.5 ml-7">
+                  {segment.talkingPoints.map((point, pointIdx) => (
+                    <span
+                      key={`${point}-${pointIdx}`}
+                      className="inline-flex items-center gap-1 px-2 py-0.5 text-[10px] rounded-full bg-background/50 border border-border"
+                    >
+                      {point}
+                      <button
+                        type="button"
+                        onClick={() => updateSegment(segment.id, {
+                          talkingPoints: segment.talkingPoints.filter((_, i) => i !== pointIdx),
+                        })}
+                        className="text-muted-foreground hover:text-foreground"
+                        aria-label={`Remove ${point}`}
+                      >
+                        <X className="w-2.5 h-2.5" />
+                      </button>
+                    </span>
+                  ))}
+                  <input
+                    value={pointDrafts[segment.id] || ''}
+                    onChange={(e) => setPointDrafts((prev) => ({ ...prev, [segment.id]: e.target.value }))}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        addTalkingPoint(segment);
+                      }
+                    }}
+                    onBlur={() => addTalkingPoint(segment)}
+                    placeholder="+ talking point"
+                    className="w-28 text-[10px] bg-transparent focus:outline-none placeholder:text-muted-foreground/60"
+                    aria-label="Add talking point"
+                  />
+                </div>
+              </div>
+            );
+          })}
+
+          <button
+            type="button"
+            onClick={addSegment}
+            className="w-full flex items-center justify-center gap-1.5 p-2 rounded-md border border-dashed border-border text-xs text-muted-foreground hover:text-foreground hover:border-muted-foreground/50 transition-colors"
+          >
+            <Plus className="w-3 h-3" />
+            Add segment
+          </button>
+
+          <div className="flex justify-end gap-2 pt-2">
+            {onCancel && (
+              <Button variant="ghost" size="sm" onClick={onCancel}>
+                Cancel
+              </Button>
+            )}
+            {onGoLive && (
+              <Button size="sm" onClick={onGoLive} className="gap-2">
+                <Radio className="w-4 h-4" />
+                Go live
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
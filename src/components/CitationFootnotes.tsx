@@ -0,0 +1,47 @@
+import { Citation } from '@/types/podcast';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { formatCitationLocation } from '@/lib/citations';
+import { cn } from '@/lib/utils';
+import { FileText } from 'lucide-react';
+
+interface CitationFootnotesProps {
+  citations?: Citation[];
+  /** Number of the first footnote (for continuous numbering across turns) */
+  startIndex?: number;
+  className?: string;
+}
+
+/**
+ * Superscript footnote markers for a transcript turn. Clicking one shows the
+ * source document, page/slide and an excerpt of the cited chunk.
+ */
+export function CitationFootnotes({ citations, startIndex = 1, className }: CitationFootnotesProps) {
+  if (!citations || citations.length === 0) return null;
+
+  return (
+    <span className={cn("inline-flex gap-0.5 align-super ml-0.5", className)}>
+      {citations.map((citation, index) => (
+        <Popover key={citation.chunkId}>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              className="text-[0.65em] font-mono text-primary hover:underline focus:outline-none focus-visible:ring-1 focus-visible:ring-primary rounded"
+              aria-label={`Source: ${formatCitationLocation(citation)}`}
+            >
+              [{startIndex + index}]
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80 text-left" align="start">
+            <div className="flex items-center gap-2 text-xs font-medium text-foreground mb-2">
+              <FileText className="w-3.5 h-3.5 text-primary shrink-0" />
+              <span className="truncate">{formatCitationLocation(citation)}</span>
+            </div>
+            <p className="text-xs text-muted-foreground leading-relaxed">
+              "{citation.excerpt}"
+            </p>
+          </PopoverContent>
+        </Popover>
+      ))}
+    </span>
+  );
+}
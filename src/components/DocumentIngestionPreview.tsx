@@ -1,74 +1,20 @@
-import { useState, useEffect } from 'react';
-import { FileText, Scan, Sparkles, CheckCircle } from 'lucide-react';
+import { FileText, Scan, Sparkles, CheckCircle, AlertCircle } from 'lucide-react';
+import { DocumentIngestionStatus } from '@/types/podcast';
 import { cn } from '@/lib/utils';
 
-interface Document {
-  name: string;
-  content?: string;
-}
-
 interface DocumentIngestionPreviewProps {
-  documents: Document[];
+  documents: DocumentIngestionStatus[];
   isActive: boolean;
-  onComplete?: () => void;
 }
 
-export function DocumentIngestionPreview({ documents, isActive, onComplete }: DocumentIngestionPreviewProps) {
-  const [processingIndex, setProcessingIndex] = useState(-1);
-  const [completedDocs, setCompletedDocs] = useState<Set<number>>(new Set());
-  const [extractedConcepts, setExtractedConcepts] = useState<string[]>([]);
-
-  // Mock concepts to extract
-  const CONCEPTS_PER_DOC = [
-    ['Machine Learning', 'Neural Networks', 'Data Preprocessing'],
-    ['APIs', 'REST Architecture', 'Authentication'],
-    ['Design Patterns', 'SOLID Principles', 'Clean Code'],
-    ['Database Schema', 'SQL Queries', 'Indexing'],
-  ];
-
-  useEffect(() => {
-    if (!isActive) {
-      setProcessingIndex(-1);
-      setCompletedDocs(new Set());
-      setExtractedConcepts([]);
-      return;
-    }
-
-    // Start processing documents
-    let currentIdx = 0;
-    
-    const processNext = () => {
-      if (currentIdx >= documents.length) {
-        onComplete?.();
-        return;
-      }
-
-      setProcessingIndex(currentIdx);
-
-      // Extract concepts after a delay
-      setTimeout(() => {
-        const concepts = CONCEPTS_PER_DOC[currentIdx % CONCEPTS_PER_DOC.length];
-        concepts.forEach((concept, i) => {
-          setTimeout(() => {
-            setExtractedConcepts((prev) => [...prev, concept]);
-          }, i * 200);
-        });
-      }, 500);
-
-      // Mark as complete and move to next
-      setTimeout(() => {
-        setCompletedDocs((prev) => new Set([...prev, currentIdx]));
-        currentIdx++;
-        setTimeout(processNext, 300);
-      }, 1500);
-    };
-
-    const timeout = setTimeout(processNext, 500);
-    return () => clearTimeout(timeout);
-  }, [isActive, documents.length, onComplete]);
-
+export function DocumentIngestionPreview({ documents, isActive }: DocumentIngestionPreviewProps) {
   if (!isActive || documents.length === 0) return null;
 
+  const processedCount = documents.filter(doc => doc.status === 'done' || doc.status === 'error').length;
+  const chunkCount = documents.reduce((sum, doc) => sum + doc.chunks, 0);
+  const extractedConcepts = documents.flatMap(doc => doc.concepts);
+  const isBusy = (doc: DocumentIngestionStatus) => doc.status === 'indexing' || doc.status === 'extracting';
+
   return (
     <div className="rounded-lg border border-border bg-card/50 p-4 animate-fade-in">
       {/* Header */}
@@ -79,41 +25,53 @@ export function DocumentIngestionPreview({ documents, isActive, onComplete }: Do
         <div>
           <h3 className="text-sm font-medium">Reading Course Materials</h3>
           <p className="text-xs text-muted-foreground">
-            Analyzing {documents.length} document{documents.length !== 1 ? 's' : ''}
+            {processedCount}/{documents.length} document{documents.length !== 1 ? 's' : ''} analyzed
+            {chunkCount > 0 && ` · ${chunkCount} chunks indexed`}
+            {extractedConcepts.length > 0 && ` · ${extractedConcepts.length} concepts found`}
           </p>
         </div>
       </div>
 
       {/* Documents being processed */}
       <div className="space-y-2 mb-4">
-        {documents.map((doc, idx) => (
+        {documents.map((doc) => (
           <div
-            key={doc.name}
+            key={doc.fileId}
             className={cn(
               'flex items-center gap-3 p-2 rounded-md transition-all duration-300',
-              processingIndex === idx && 'bg-primary/5 border border-primary/20',
-              completedDocs.has(idx) && 'bg-muted/30'
+              isBusy(doc) && 'bg-primary/5 border border-primary/20',
+              doc.status === 'done' && 'bg-muted/30'
             )}
           >
             <div className="relative">
               <FileText className={cn(
                 'w-4 h-4 transition-colors',
-                processingIndex === idx ? 'text-primary' : 'text-muted-foreground'
+                isBusy(doc) ? 'text-primary' : 'text-muted-foreground'
               )} />
-              {processingIndex === idx && (
+              {isBusy(doc) && (
                 <div className="absolute inset-0 animate-ping">
                   <FileText className="w-4 h-4 text-primary opacity-50" />
                 </div>
               )}
             </div>
             
-            <span className="text-xs flex-1 truncate">{doc.name}</span>
+            <span className="text-xs flex-1 truncate">{doc.fileName}</span>
+
+            {doc.chunks > 0 && (
+              <span className="text-[10px] text-muted-foreground font-mono">{doc.chunks} chunks</span>
+            )}
             
-            {completedDocs.has(idx) && (
+            {doc.status === 'done' && (
               <CheckCircle className="w-4 h-4 text-green-500 animate-scale-in" />
             )}
+
+            {doc.status === 'error' && (
+              <span title={doc.error} aria-label={doc.error || 'Failed'}>
+                <AlertCircle className="w-4 h-4 text-destructive" />
+              </span>
+            )}
             
-            {processingIndex === idx && (
+            {isBusy(doc) && (
               <div className="flex gap-1">
                 {[0, 1, 2].map((i) => (
                   <div
@@ -0,0 +1,63 @@
+import { GroundingReport } from '@/types/podcast';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { formatCitationLocation } from '@/lib/citations';
+import { cn } from '@/lib/utils';
+import { AlertTriangle } from 'lucide-react';
+
+interface GroundingBadgeProps {
+  report?: GroundingReport;
+  className?: string;
+}
+
+const STATUS_LABELS: Record<GroundingReport['status'], string> = {
+  grounded: 'Supported by sources',
+  partial: 'Partly unsupported',
+  ungrounded: 'Not supported by sources',
+  contradicted: 'Contradicts sources',
+  skipped: '',
+};
+
+/**
+ * Warning badge for transcript turns whose claims aren't backed by the
+ * uploaded documents. Clicking it lists the flagged claims and why.
+ */
+export function GroundingBadge({ report, className }: GroundingBadgeProps) {
+  if (!report || report.flagged.length === 0) return null;
+
+  const isContradiction = report.status === 'contradicted';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            "inline-flex items-center gap-1 ml-1.5 px-1.5 py-0.5 rounded text-[10px] font-medium align-middle border transition-colors",
+            isContradiction
+              ? "text-red-400 border-red-500/40 bg-red-500/10 hover:bg-red-500/20"
+              : "text-amber-400 border-amber-500/40 bg-amber-500/10 hover:bg-amber-500/20",
+            className
+          )}
+          title={STATUS_LABELS[report.status]}
+        >
+          <AlertTriangle className="w-3 h-3" />
+          {isContradiction ? 'Check' : 'Unverified'}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 text-left space-y-3" align="start">
+        <p className="text-xs font-medium text-foreground">{STATUS_LABELS[report.status]}</p>
+        {report.flagged.map((check, index) => (
+          <div key={index} className="text-xs space-y-1">
+            <p className="text-foreground/90">"{check.claim}"</p>
+            <p className={check.status === 'contradicted' ? 'text-red-400' : 'text-amber-400'}>
+              {check.reason || check.status}
+            </p>
+            {check.citation && (
+              <p className="text-muted-foreground">Closest source: {formatCitationLocation(check.citation)}</p>
+            )}
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
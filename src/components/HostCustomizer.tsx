@@ -1,5 +1,5 @@
 import { useState, useRef } from 'react';
-import { Mic, Sparkles, ChevronDown, ChevronLeft, ChevronRight, User } from 'lucide-react';
+import { Mic, Sparkles, ChevronDown, ChevronLeft, ChevronRight, User, Library } from 'lucide-react';
 import { 
   HostConfig, 
   VOICE_OPTIONS, 
@@ -8,6 +8,8 @@ import {
   PERSONALITY_TRAITS,
   AvatarCategory 
 } from '@/types/podcast';
+import { describeHostVoice, hostVoiceLabel } from '@/lib/voices';
+import { VoiceLibraryBrowser } from '@/components/VoiceLibraryBrowser';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -46,6 +48,7 @@ function HostCard({
 }) {
   const [avatarCategory, setAvatarCategory] = useState<AvatarCategory>('professional');
   const [hoveredAvatar, setHoveredAvatar] = useState<string | null>(null);
+  const [voiceLibraryOpen, setVoiceLibraryOpen] = useState(false);
   const carouselRef = useRef<HTMLDivElement>(null);
 
   const avatars = AVATAR_PRESETS_BY_CATEGORY[avatarCategory];
@@ -98,7 +101,7 @@ function HostCard({
           <p className="text-sm text-muted-foreground truncate">{host.role}</p>
           <div className="flex items-center gap-1.5 mt-1">
             <Mic className="w-3 h-3 text-muted-foreground/60" />
-            <span className="text-xs text-muted-foreground/60">{host.voiceLabel}</span>
+            <span className="text-xs text-muted-foreground/60">{hostVoiceLabel(host)}</span>
           </div>
         </div>
 
@@ -221,17 +224,18 @@ function HostCard({
             <div className="space-y-1.5">
               <Label className="text-xs text-muted-foreground uppercase tracking-wider">Voice</Label>
               <Select
-                value={host.voiceId}
+                value={host.elevenlabs_voice_id ? '' : host.voiceId}
                 onValueChange={(value) => {
                   const voice = VOICE_OPTIONS.find(v => v.id === value);
                   onUpdateHost(host.id, { 
                     voiceId: value,
-                    voiceLabel: voice?.label || value
+                    voiceLabel: voice?.label || value,
+                    elevenlabs_voice_id: undefined,
                   });
                 }}
               >
                 <SelectTrigger className="h-10 bg-muted/20 border-border/30">
-                  <SelectValue placeholder="Select voice" />
+                  <SelectValue placeholder={host.elevenlabs_voice_id ? host.voiceLabel : 'Select voice'} />
                 </SelectTrigger>
                 <SelectContent className="bg-popover border-border">
                   {VOICE_OPTIONS.map((voice) => (
@@ -241,6 +245,26 @@ function HostCard({
                   ))}
                 </SelectContent>
               </Select>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-muted-foreground truncate">{describeHostVoice(host)}</p>
+                <button
+                  type="button"
+                  onClick={() => setVoiceLibraryOpen(true)}
+                  className="flex items-center gap-1 text-xs text-primary hover:underline shrink-0"
+                >
+                  <Library className="w-3 h-3" />
+                  Browse library
+                </button>
+              </div>
+              <VoiceLibraryBrowser
+                open={voiceLibraryOpen}
+                onOpenChange={setVoiceLibraryOpen}
+                selectedVoiceId={host.elevenlabs_voice_id}
+                onSelect={(voice) => onUpdateHost(host.id, {
+                  elevenlabs_voice_id: voice.voiceId,
+                  voiceLabel: voice.name,
+                })}
+              />
             </div>
 
             {/* Role */}
@@ -8,11 +8,12 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { AlertCircle, Play, Square, Radio, Terminal } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { resolveVoiceId } from '@/lib/voices';
 
 // Map placeholders to Real ElevenLabs Voice IDs
 const HOST_VOICE_MAP: Record<string, string> = {
-    '{{HOST_1_VOICE_ID}}': 'nPczCjzI2devNBz1zQrb', // Host 1 (Omar-ish)
-    '{{HOST_2_VOICE_ID}}': 'JBFqnCBsd6RMkjVDRZzb', // Host 2 (Seb-ish)
+    '{{HOST_1_VOICE_ID}}': resolveVoiceId('male-deep'), // Host 1 (Omar-ish)
+    '{{HOST_2_VOICE_ID}}': resolveVoiceId('british-crisp'), // Host 2 (Seb-ish)
     '{{HOST_1_NAME}}': 'Omar',
     '{{HOST_2_NAME}}': 'Seb',
 };
@@ -20,7 +21,6 @@ const HOST_VOICE_MAP: Record<string, string> = {
 const DEFAULT_SIMULATION_TEXT = ``; // Start empty as requested
 
 export function MultiVoiceTTSDemo() {
-    const [apiKey, setApiKey] = useState('');
     const [agentId, setAgentId] = useState('');
     const [simulationText, setSimulationText] = useState(DEFAULT_SIMULATION_TEXT);
     const [chatInput, setChatInput] = useState('');
@@ -28,7 +28,7 @@ export function MultiVoiceTTSDemo() {
 
     // TTS Hook
     // TTS Hook
-    const { handleStreamChunk, clearQueue, isPlaying, currentVoiceId, queue } = useMultiVoiceTTS({ apiKey });
+    const { handleStreamChunk, clearQueue, isPlaying, currentVoiceId, queue } = useMultiVoiceTTS();
 
     // Helper to replace placeholders
     const processIncomingText = (text: string): string => {
@@ -117,20 +117,6 @@ export function MultiVoiceTTSDemo() {
                     <CardDescription>Test the JSON-formatted multi-agent audio stream.</CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-6">
-                    {/* Configuration */}
-                    <div className="grid gap-4 p-4 border rounded-lg bg-muted/50">
-                        <div className="space-y-2">
-                            <Label>ElevenLabs API Key (Required for TTS)</Label>
-                            <Input
-                                type="password"
-                                value={apiKey}
-                                onChange={e => setApiKey(e.target.value)}
-                                placeholder="sk_..."
-                            />
-                            <p className="text-xs text-muted-foreground">This is client-side only for this demo.</p>
-                        </div>
-                    </div>
-
                     {/* Status Display Removed as requested */}
                     <div className="flex justify-end">
                         <Button variant="destructive" size="sm" onClick={clearQueue}>
@@ -208,7 +194,7 @@ export function MultiVoiceTTSDemo() {
                             variant="outline"
                             size="sm"
                             onClick={handleSimulate}
-                            disabled={!apiKey || isPlaying}
+                            disabled={isPlaying}
                             className="w-full mt-2"
                         >
                             <Play className="w-4 h-4 mr-2" /> Simulate Stream (Replay Received)
@@ -1,6 +1,8 @@
 import { TranscriptTurn, HostConfig, GeneratedPodcast, GenerationStep } from '@/types/podcast';
 import { cn } from '@/lib/utils';
 import { Loader2 } from 'lucide-react';
+import { CitationFootnotes } from '@/components/CitationFootnotes';
+import { GroundingBadge } from '@/components/GroundingBadge';
 
 interface OutputCardProps {
   podcast: GeneratedPodcast | null;
@@ -56,6 +58,9 @@ export function OutputCard({ podcast, hosts, generationStep = 'idle' }: OutputCa
     return null;
   }
 
+  // Footnotes are numbered continuously across the transcript
+  let footnoteNumber = 1;
+
   const getHostColor = (speakerId: string) => {
     const index = hosts.findIndex(h => h.id === speakerId);
     if (index === 0) return 'text-cyan-400';
@@ -77,20 +82,27 @@ export function OutputCard({ podcast, hosts, generationStep = 'idle' }: OutputCa
       </div>
       
       <div className="max-h-[400px] overflow-y-auto space-y-4 pr-2">
-        {transcript.map((turn, index) => (
-          <div
-            key={turn.id}
-            className="animate-fade-in"
-            style={{ animationDelay: `${index * 30}ms` }}
-          >
-            <span className={cn("text-xs font-medium", getHostColor(turn.speakerId))}>
-              {turn.speakerName}:
-            </span>
-            <p className="text-sm text-muted-foreground mt-1 leading-relaxed">
-              {turn.text}
-            </p>
-          </div>
-        ))}
+        {transcript.map((turn, index) => {
+          const startIndex = footnoteNumber;
+          footnoteNumber += turn.citations?.length || 0;
+
+          return (
+            <div
+              key={turn.id}
+              className="animate-fade-in"
+              style={{ animationDelay: `${index * 30}ms` }}
+            >
+              <span className={cn("text-xs font-medium", getHostColor(turn.speakerId))}>
+                {turn.speakerName}:
+              </span>
+              <p className="text-sm text-muted-foreground mt-1 leading-relaxed">
+                {turn.text}
+                <CitationFootnotes citations={turn.citations} startIndex={startIndex} />
+                <GroundingBadge report={turn.grounding} />
+              </p>
+            </div>
+          );
+        })}
       </div>
     </div>
   );
@@ -5,6 +5,7 @@ import { X, Play, Pause, SkipBack, SkipForward, Send, Sparkles, Volume2, VolumeX
 import { cn } from '@/lib/utils';
 import { ProducerControlPanel, ProducerAction, ProducerState } from './ProducerControlPanel';
 import { useTTS } from '@/hooks/useTTS';
+import { DEFAULT_VOICE_ID, hostVoiceId } from '@/lib/voices';
 
 interface PlaybackViewProps {
   transcript: TranscriptTurn[];
@@ -405,7 +406,7 @@ export function PlaybackView({
   // Helper to get voice ID for a host
   const getVoiceIdForHost = useCallback((speakerId: string): string => {
     const host = hosts.find(h => h.id === speakerId);
-    return host?.voiceId || 'male-calm';
+    return host ? hostVoiceId(host) : DEFAULT_VOICE_ID;
   }, [hosts]);
   
   // Preload audio on mount
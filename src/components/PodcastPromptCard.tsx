@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Loader2, Upload, FileText, X } from 'lucide-react';
 import { GenerationStep, RagFile } from '@/types/podcast';
 import { cn } from '@/lib/utils';
+import { DOCUMENT_ACCEPT } from '@/lib/documentParser';
 
 const STEP_LABELS: Record<GenerationStep, string> = {
   idle: '',
@@ -85,7 +86,7 @@ export function PodcastPromptCard({
           ref={fileInputRef}
           type="file"
           multiple
-          accept=".pdf,.doc,.docx,.txt,.md,.pptx"
+          accept={DOCUMENT_ACCEPT}
           onChange={handleFileSelect}
           className="hidden"
           disabled={isGenerating}
@@ -2,22 +2,35 @@
  * RealTimePlaybackView - Visual Podcast Playback Component
  * 
  * Displays podcast hosts with visual feedback during playback.
- * Uses Backboard.io for infinite streaming conversations and ElevenLabs for TTS.
+ * Streams the conversation from the session's dialogue provider (Backboard by
+ * default, see lib/dialogue), paced through the episode outline (see
+ * episodePacer.ts), and uses ElevenLabs for TTS. The next host's turn is
+ * requested while the current one plays its last sentences so there is no
+ * silence between speakers.
  */
 
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { HostConfig, ConversationState, RagFile } from '@/types/podcast';
+import { HostConfig, ConversationState, RagFile, RagChunk, Citation, TranscriptTurn, GroundingReport, EpisodeOutline, PodcastSettings } from '@/types/podcast';
 import { Button } from '@/components/ui/button';
-import { X, Volume2, VolumeX, Play, Pause, SkipForward, Loader2, MessageSquare, Send, Mic, MicOff } from 'lucide-react';
+import { X, Volume2, VolumeX, Play, Pause, SkipForward, Loader2, MessageSquare, Send, Mic, MicOff, ScrollText } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import {
-  initializeSession,
-  handleInterruption,
-  endSession,
-  generateNextTurn, // Fallback if streaming fails
-} from '@/lib/backboard';
-import { startSpeakingChain, speakTurn, SpeakingChainResult } from '@/lib/streamCoordinator';
+import { SavedSeat } from '@/lib/backboard';
+import { DialogueProvider, DialogueProviderId, TranscriptLine, TurnContext, createDialogueProvider, fallbackProviderFor } from '@/lib/dialogue';
+import { TurnRecovery, waitFor } from '@/lib/resilience';
+import { TtsMode } from '@/lib/speechSocket';
+import { startSpeakingChain, speakTurn, prefetchTurn, PrefetchedTurn, SpeakingChainResult } from '@/lib/streamCoordinator';
+import { retrieve, buildTurnQuery } from '@/lib/rag';
+import { attributeSentence, mergeCitations } from '@/lib/citations';
+import { splitIntoSentences } from '@/lib/chunking';
+import { isPersistedSessionId, saveSessionOutline, saveSessionTranscript, saveSessionSeats } from '@/lib/podcastSessions';
+import { verifyTurn } from '@/lib/grounding';
+import { buildLocalOutline, describeSegment } from '@/lib/outlineGenerator';
+import { EpisodePacer, PacingCue, PacingProgress, estimateSpokenSeconds } from '@/lib/episodePacer';
+import { Backchannel, SpokenTurn, chooseNextSpeaker } from '@/lib/turnTaking';
+import { CitationFootnotes } from '@/components/CitationFootnotes';
+import { GroundingBadge } from '@/components/GroundingBadge';
 import { streamAudioToElement } from '@/lib/audioStream';
+import { hostVoiceId } from '@/lib/voices';
 import { useSpeechToText } from '@/hooks/useSpeechToText';
 import Lottie from 'lottie-react';
 import girl1 from '@/components/avatarslottie/girl1.json';
@@ -35,6 +48,22 @@ export interface RealTimePlaybackViewProps {
     content: string;
   }[];
   preGeneratedTranscript?: TranscriptSegment[];
+  /** Transcript of an earlier run of this session, replayed before continuing */
+  savedTranscript?: TranscriptTurn[];
+  /** Backboard threads of that earlier run, continued instead of starting new ones */
+  savedSeats?: SavedSeat[];
+  /** Backend writing the hosts' lines (defaults to VITE_DIALOGUE_PROVIDER, then Backboard) */
+  dialogueProvider?: DialogueProviderId;
+  /** How speech is requested: per sentence (default, VITE_TTS_MODE) or over the ElevenLabs websocket */
+  ttsMode?: TtsMode;
+  /** Episode plan the conversation follows segment by segment */
+  outline?: EpisodeOutline;
+  /** Episode length used to plan a default outline when none is given */
+  length?: PodcastSettings['length'];
+  /** Have the host correct themselves on air when a turn contradicts the documents */
+  autoCorrectContradictions?: boolean;
+  /** Heated debate: favour rebuttals and the skeptical hosts when choosing who speaks */
+  debateIntensity?: boolean;
   onClose: () => void;
 }
 
@@ -43,8 +72,35 @@ interface TranscriptSegment {
   hostName: string;
   text: string;
   timestamp: number;
+  citations?: Citation[];
+  grounding?: GroundingReport;
 }
 
+// Who takes a turn and how
+interface TurnPlan {
+  cue: PacingCue;
+  hostIndex: number;
+  turnNote?: string;
+  backchannel?: Backchannel;
+}
+
+// The next turn, planned (and requested, if the provider can prefetch) while
+// the current one still plays
+interface PreparedTurn {
+  plan: TurnPlan;
+  ragChunks: RagChunk[];
+  provider: DialogueProvider;
+  turn?: PrefetchedTurn;
+}
+
+interface Speculation {
+  cancelled: boolean;
+  ready: Promise<PreparedTurn | null>;
+}
+
+// Chunks injected into each turn's instructions
+const TURN_RETRIEVAL_TOP_K = 4;
+
 const HOST_COLORS = ['hsl(var(--host-a))', 'hsl(var(--host-b))', 'hsl(var(--host-c))'];
 
 // Expression to visual mapping
@@ -59,6 +115,10 @@ const EXPRESSION_STYLES: Record<string, {
   amused: { scale: 1.02, filter: 'brightness(1.05) saturate(1.1)' }
 };
 
+function formatClock(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+}
+
 // Floating dust particles for ambient effect
 function DustParticles() {
   const particles = useMemo(() => Array.from({ length: 40 }, (_, i) => ({
@@ -239,22 +299,81 @@ function StateIndicator({ state, isPausable }: { state: ConversationState; isPau
   );
 }
 
+// Scrollable transcript of what has been said, with clickable source footnotes
+function TranscriptPanel({ transcript }: { transcript: TranscriptSegment[] }) {
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [transcript.length]);
+
+  let footnoteNumber = 1;
+
+  return (
+    <div className="absolute top-20 left-6 bottom-28 w-80 z-50 rounded-2xl bg-black/60 backdrop-blur-xl border border-white/10 shadow-2xl flex flex-col animate-in slide-in-from-left-2">
+      <div className="px-4 py-3 border-b border-white/10 text-xs font-mono uppercase tracking-wider text-white/50">
+        Transcript
+      </div>
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+        {transcript.length === 0 && (
+          <p className="text-sm text-white/40">Nothing said yet.</p>
+        )}
+        {transcript.map((segment, index) => {
+          const startIndex = footnoteNumber;
+          footnoteNumber += segment.citations?.length || 0;
+
+          return (
+            <div key={`${segment.timestamp}-${index}`} className="text-sm leading-relaxed">
+              <span
+                className="text-xs font-medium"
+                style={{ color: segment.hostIndex >= 0 ? HOST_COLORS[segment.hostIndex % HOST_COLORS.length] : undefined }}
+              >
+                {segment.hostName}:
+              </span>
+              <p className="text-white/80 mt-0.5">
+                {segment.text}
+                <CitationFootnotes citations={segment.citations} startIndex={startIndex} />
+                <GroundingBadge report={segment.grounding} />
+              </p>
+            </div>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+    </div>
+  );
+}
+
 export function RealTimePlaybackView({
   hosts,
   topic,
+  podcastId,
   ragFiles,
   preGeneratedTranscript,
+  savedTranscript,
+  savedSeats,
+  dialogueProvider,
+  ttsMode,
+  outline,
+  length = 'medium',
+  autoCorrectContradictions = false,
+  debateIntensity = false,
   onClose
 }: RealTimePlaybackViewProps) {
   // State
   const [state, setState] = useState<ConversationState>('IDLE');
   const [transcript, setTranscript] = useState<TranscriptSegment[]>([]);
   const [currentText, setCurrentText] = useState('');
+  const [currentCitations, setCurrentCitations] = useState<Citation[]>([]);
+  const [showTranscript, setShowTranscript] = useState(false);
+  const [pacing, setPacing] = useState<PacingProgress | null>(null);
   const [activeHostIndex, setActiveHostIndex] = useState(0);
   const [isMuted, setIsMuted] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [cameraOffset, setCameraOffset] = useState({ x: 0, y: 0 });
   const [error, setError] = useState<string | null>(null);
+  // Shown while turns are being retried or served by the fallback provider
+  const [notice, setNotice] = useState<string | null>(null);
 
   // Interruption State
   const [isInterrupting, setIsInterrupting] = useState(false);
@@ -271,12 +390,23 @@ export function RealTimePlaybackView({
   } = useSpeechToText();
 
   // Refs for tracking conversation flow
-  const threadIdRef = useRef<string | null>(null);
+  // The provider taking turns right now - the session's own, or the fallback while its circuit is open
+  const providerRef = useRef<DialogueProvider | null>(null);
+  const primaryRef = useRef<DialogueProvider | null>(null);
+  const fallbackRef = useRef<DialogueProvider | null>(null);
+  const fallbackIdRef = useRef<DialogueProviderId | null>(null);
+  const recoveryRef = useRef<TurnRecovery>(new TurnRecovery());
   const isLoopRunningRef = useRef(false);
+  // Cancels the running loop's waits (retry backoff) when it is stopped
+  const loopAbortControllerRef = useRef<AbortController | null>(null);
   const currentTurnAbortControllerRef = useRef<AbortController | null>(null);
   const spokenHistoryRef = useRef<string>("");
   const currentUnspokenBufferRef = useRef<string>("");
   const shouldInteruptRef = useRef(false);
+  const savedTurnsRef = useRef<TranscriptTurn[]>([]);
+  const pacerRef = useRef<EpisodePacer | null>(null);
+  const turnHistoryRef = useRef<SpokenTurn[]>([]);
+  const speculationRef = useRef<Speculation | null>(null);
 
   // Initialize session on mount
   useEffect(() => {
@@ -287,25 +417,42 @@ export function RealTimePlaybackView({
         setState('IDLE');
         console.log('[Playback] Initializing session...');
 
-        // 1. Initialize Backboard Session
-        const id = await initializeSession({
-          userId: 'user-default', // TODO: Get real user ID
-          systemPrompt: `You are hosting a podcast with ${hosts.map(h => h.name).join(' and ')}.`,
-          initialContext: topic || 'General Discussion',
-          hostName: hosts[0].name,
-          hostRole: hosts[0].role,
-          hostPersonality: hosts[0].personality,
-          coHosts: hosts.slice(1).map(h => ({ name: h.name, role: h.role, personality: h.personality })),
-          ragContext: ragFiles?.map(f => f.rawTextMock).join('\n\n')
+        const previousTurns = savedTranscript || [];
+
+        // 1. Set up the hosts on the dialogue provider, reopening saved threads if it can
+        const provider = createDialogueProvider(dialogueProvider);
+        await provider.init({
+          hosts,
+          topic: topic || 'General Discussion',
+          transcript: previousTurns,
+          savedSeats,
+          // Documents are not dumped here - relevant chunks are retrieved per turn
         });
 
-        if (!mounted) return;
-        threadIdRef.current = id;
-        console.log('[Playback] Session initialized:', id);
+        const newSeats = provider.getSavedSeats?.() || [];
+        if (!savedSeats?.length && newSeats.length > 0 && isPersistedSessionId(podcastId)) {
+          saveSessionSeats(podcastId, newSeats).catch(() => {
+            // Logged by saveSessionSeats; the session just can't be continued later
+          });
+        }
+
+        if (!mounted) {
+          provider.end().catch(console.error);
+          return;
+        }
+        providerRef.current = provider;
+        primaryRef.current = provider;
+        fallbackIdRef.current = fallbackProviderFor(provider.id);
+        recoveryRef.current = new TurnRecovery({ hasFallback: fallbackIdRef.current !== null });
+        console.log('[Playback] Session initialized with', provider.id, 'for', hosts.length, 'hosts');
+
+        if (previousTurns.length > 0) {
+          restoreTranscript(previousTurns);
+        }
 
-        // 2. Start the infinite conversation loop
+        // 2. Start the conversation loop (runs until the outline is finished)
         setIsPlaying(true);
-        runConversationLoop(id);
+        runConversationLoop();
 
       } catch (err) {
         console.error('[Playback] Failed to start:', err);
@@ -318,94 +465,473 @@ export function RealTimePlaybackView({
     return () => {
       mounted = false;
       shouldInteruptRef.current = true; // Signal loop to stop
-      if (threadIdRef.current) {
-        endSession(threadIdRef.current).catch(console.error);
-      }
+      discardSpeculation();
+      primaryRef.current?.end().catch(console.error);
+      fallbackRef.current?.end().catch(console.error);
       currentTurnAbortControllerRef.current?.abort();
+      loopAbortControllerRef.current?.abort();
     };
   }, []);
 
-  // Main Loop: Infinite Podcast Generation
-  const runConversationLoop = async (threadId: string) => {
-    if (isLoopRunningRef.current) return;
+  // Puts a saved run back on screen and in the pacing/turn-taking state so the conversation picks up where it stopped
+  const restoreTranscript = (turns: TranscriptTurn[]) => {
+    savedTurnsRef.current = turns;
+    setTranscript(turns.map(turn => ({
+      hostIndex: hosts.findIndex(h => h.id === turn.speakerId),
+      hostName: turn.speakerName,
+      text: turn.text,
+      timestamp: turn.timestamp,
+      citations: turn.citations,
+      grounding: turn.grounding
+    })));
+
+    for (const turn of turns) {
+      spokenHistoryRef.current += turn.text + " ";
+      const hostIndex = hosts.findIndex(h => h.id === turn.speakerId);
+      if (hostIndex < 0) continue;
+      turnHistoryRef.current.push({ hostIndex, text: turn.text });
+      recordSpokenTurn(turn.text, null);
+    }
+
+    console.log('[Playback] Restored', turns.length, 'saved turns');
+  };
+
+  // Both providers hear every line so either can take the next turn
+  const shareLine = (line: TranscriptLine) => {
+    primaryRef.current?.recordLine(line);
+    fallbackRef.current?.recordLine(line);
+  };
+
+  // Records what was said on air and persists the transcript for saved sessions
+  const commitTurn = (turn: Omit<TranscriptTurn, 'id' | 'timestamp'>) => {
+    shareLine({ speakerId: turn.speakerId, speakerName: turn.speakerName, text: turn.text });
+
+    savedTurnsRef.current = [...savedTurnsRef.current, {
+      ...turn,
+      id: `turn-${savedTurnsRef.current.length + 1}`,
+      timestamp: Date.now(),
+    }];
+
+    if (isPersistedSessionId(podcastId)) {
+      saveSessionTranscript(podcastId, savedTurnsRef.current).catch(() => {
+        // Logged by saveSessionTranscript; the live session keeps going
+      });
+    }
+  };
+
+  // Has the host correct flagged claims on air before the conversation moves on
+  const speakCorrection = async (
+    provider: DialogueProvider,
+    hostIdx: number,
+    turnText: string,
+    grounding: GroundingReport,
+    ragChunks: RagChunk[]
+  ) => {
+    const host = hosts[hostIdx];
+
+    try {
+      const correctionText = await provider.correct(host.id, turnText, grounding.flagged, ragChunks);
+      if (!correctionText || shouldInteruptRef.current) return;
+
+      const citations = mergeCitations(
+        ...splitIntoSentences(correctionText).map(sentence => attributeSentence(sentence, ragChunks))
+      );
+
+      setState('SPEAKING');
+      setCurrentText(correctionText);
+      setCurrentCitations(citations);
+      setTranscript(prev => [...prev, {
+        hostIndex: hostIdx,
+        hostName: host.name,
+        text: correctionText,
+        timestamp: Date.now(),
+        citations
+      }]);
+
+      const abortController = new AbortController();
+      currentTurnAbortControllerRef.current = abortController;
+      const startedAt = Date.now();
+      try {
+        await speakTurn(correctionText, hostVoiceId(host), abortController.signal);
+      } finally {
+        currentTurnAbortControllerRef.current = null;
+      }
+
+      spokenHistoryRef.current += correctionText + " ";
+      recordSpokenTurn(correctionText, startedAt);
+      commitTurn({ speakerId: host.id, speakerName: host.name, text: correctionText, citations });
+    } catch (err) {
+      console.warn('[Playback] Correction failed:', err);
+    }
+  };
+
+  // Retrieves the chunks relevant to what is being discussed right now
+  const retrieveTurnChunks = async (query: string): Promise<RagChunk[]> => {
+    if (!ragFiles || ragFiles.length === 0) return [];
+
+    try {
+      const { chunks } = await retrieve(query, ragFiles, TURN_RETRIEVAL_TOP_K);
+      return chunks;
+    } catch (err) {
+      console.warn('[Playback] Retrieval failed, continuing without documents:', err);
+      return [];
+    }
+  };
+
+  // Paces the episode against the outline (or a default plan for the chosen length)
+  const getPacer = (): EpisodePacer => {
+    if (!pacerRef.current) {
+      const plan = outline || buildLocalOutline({ topic: topic || 'General Discussion', hosts, length });
+      pacerRef.current = new EpisodePacer(plan);
+      setPacing(pacerRef.current.progress);
+
+      // A continued session should follow the same plan
+      if (!outline && isPersistedSessionId(podcastId)) {
+        saveSessionOutline(podcastId, plan).catch(() => {
+          // Logged by saveSessionOutline
+        });
+      }
+    }
+    return pacerRef.current;
+  };
+
+  // Counts a finished turn's spoken time against the plan
+  const recordSpokenTurn = (text: string, startedAt: number | null) => {
+    const pacer = getPacer();
+    const estimated = estimateSpokenSeconds(text);
+    // Playback time when audio played (at least half the estimate, in case it
+    // was cut short); the word-count estimate for turns that weren't timed
+    pacer.recordTurn(startedAt ? Math.max((Date.now() - startedAt) / 1000, estimated * 0.5) : estimated);
+    setPacing(pacer.progress);
+  };
+
+  // Plays a short interjection from a host who isn't taking the turn
+  const speakBackchannel = async (backchannel: Backchannel, signal: AbortSignal) => {
+    const host = hosts[backchannel.hostIndex];
+
+    setActiveHostIndex(backchannel.hostIndex);
+    setState('SPEAKING');
+    setCurrentText(backchannel.text);
+    setCurrentCitations([]);
+    setTranscript(prev => [...prev, {
+      hostIndex: backchannel.hostIndex,
+      hostName: host.name,
+      text: backchannel.text,
+      timestamp: Date.now()
+    }]);
+
+    try {
+      await speakTurn(backchannel.text, hostVoiceId(host), signal);
+    } catch (err) {
+      console.warn('[Playback] Back-channel audio failed:', err);
+    }
+
+    spokenHistoryRef.current += backchannel.text + " ";
+    commitTurn({ speakerId: host.id, speakerName: host.name, text: backchannel.text });
+  };
+
+  // Picks the provider for the next turn, starting the fallback the first time it is needed
+  const getTurnProvider = async (): Promise<DialogueProvider> => {
+    if (recoveryRef.current.useFallback && fallbackIdRef.current) {
+      if (!fallbackRef.current) {
+        const fallback = createDialogueProvider(fallbackIdRef.current);
+        await fallback.init({
+          hosts,
+          topic: topic || 'General Discussion',
+          transcript: savedTurnsRef.current,
+        });
+        fallbackRef.current = fallback;
+        console.log('[Playback] Fallback provider ready:', fallback.id);
+      }
+      providerRef.current = fallbackRef.current;
+    } else {
+      providerRef.current = primaryRef.current;
+    }
+    return providerRef.current!;
+  };
+
+  // Decides who takes the turn - each segment is opened by its lead host,
+  // after that the turn-taking policy picks whoever the conversation calls for
+  const planTurn = (cue: PacingCue, history: SpokenTurn[]): TurnPlan => {
+    const leadIdx = hosts.findIndex(h => h.id === cue.segment.leadHostId);
+    if (cue.isSegmentStart && leadIdx >= 0) {
+      return { cue, hostIndex: leadIdx };
+    }
+
+    const next = chooseNextSpeaker(hosts, history, {
+      debateIntensity,
+      leadHostIndex: leadIdx >= 0 ? leadIdx : undefined,
+    });
+    return { cue, hostIndex: next.hostIndex, turnNote: next.note, backchannel: next.backchannel };
+  };
+
+  // Grounds a turn in the most relevant chunks for its segment and the latest lines
+  const retrieveSegmentChunks = (cue: PacingCue, recentHistory: string): Promise<RagChunk[]> => {
+    return retrieveTurnChunks(buildTurnQuery({
+      topic,
+      subTopic: [cue.segment.title, ...cue.segment.talkingPoints].join(', '),
+      recentHistory,
+    }));
+  };
+
+  const turnContextFor = (plan: TurnPlan, ragChunks: RagChunk[]): TurnContext => ({
+    ragChunks,
+    subTopic: describeSegment(getPacer().outline, plan.cue.segmentIndex, hosts),
+    pacing: plan.cue.instruction,
+    speaker: { name: hosts[plan.hostIndex].name, note: plan.turnNote },
+  });
+
+  // Drops the prefetched next turn (interruption, failure, end of the loop)
+  const discardSpeculation = () => {
+    const speculation = speculationRef.current;
+    if (!speculation) return;
+    speculationRef.current = null;
+    speculation.cancelled = true;
+    speculation.ready
+      .then(prepared => prepared?.turn?.cancel())
+      .catch(() => {
+        // Nothing was requested
+      });
+  };
+
+  // Plans the turn after this one while it is still playing. The request itself
+  // only goes out early when the provider can drop it unheard - otherwise it
+  // would reach the host's thread (and take what they heard) before it airs
+  const speculateNextTurn = (provider: DialogueProvider, hostIdx: number, text: string) => {
+    discardSpeculation();
+
+    const cue = getPacer().peekCue(estimateSpokenSeconds(text));
+    if (cue.phase === 'finished') return;
+
+    const plan = planTurn(cue, [...turnHistoryRef.current, { hostIndex: hostIdx, text }]);
+    const host = hosts[plan.hostIndex];
+    const speculation: Speculation = { cancelled: false, ready: Promise.resolve(null) };
+    speculation.ready = (async () => {
+      try {
+        const ragChunks = await retrieveSegmentChunks(cue, spokenHistoryRef.current + text + " ");
+        if (speculation.cancelled || !provider.canPrefetchTurns) return { plan, ragChunks, provider };
+
+        console.log(`[Playback] Prefetching ${host.name}'s turn...`);
+        // The line still playing isn't recorded yet, so the request carries it
+        const context = { ...turnContextFor(plan, ragChunks), heard: `${hosts[hostIdx].name}: ${text}` };
+        const turn = prefetchTurn(provider, host.id, hostVoiceId(host), context, ttsMode);
+        return { plan, ragChunks, provider, turn };
+      } catch (err) {
+        console.warn('[Playback] Failed to prepare the next turn:', err);
+        return null;
+      }
+    })();
+    speculationRef.current = speculation;
+  };
+
+  // Takes the prefetched turn if it still fits: same provider and the pacing
+  // ended up where it was predicted
+  const claimSpeculation = async (cue: PacingCue, provider: DialogueProvider): Promise<PreparedTurn | null> => {
+    const speculation = speculationRef.current;
+    if (!speculation) return null;
+    speculationRef.current = null;
+
+    const prepared = await speculation.ready;
+    if (!prepared || speculation.cancelled) return null;
+
+    const predicted = prepared.plan.cue;
+    if (
+      prepared.provider === provider &&
+      predicted.segmentIndex === cue.segmentIndex &&
+      predicted.phase === cue.phase &&
+      predicted.isSegmentStart === cue.isSegmentStart
+    ) {
+      return { ...prepared, plan: { ...prepared.plan, cue } };
+    }
+
+    console.log('[Playback] Plan changed, dropping the prefetched turn');
+    prepared.turn?.cancel();
+    return null;
+  };
+
+  // Main Loop: Conversation paced through the episode outline
+  const runConversationLoop = async () => {
+    if (!primaryRef.current || isLoopRunningRef.current) return;
     isLoopRunningRef.current = true;
+    const loopAbortController = new AbortController();
+    loopAbortControllerRef.current = loopAbortController;
 
-    let currentHostIdx = 0;
     shouldInteruptRef.current = false;
 
     try {
       while (!shouldInteruptRef.current) {
-        // A. Determine current host
-        const host = hosts[currentHostIdx];
-        setActiveHostIndex(currentHostIdx);
-        setState('THINKING');
+        // A. Determine current segment
+        const pacer = getPacer();
+        const cue = pacer.nextCue();
+        if (cue.phase === 'finished') {
+          console.log('[Playback] Episode complete');
+          setIsPlaying(false);
+          break;
+        }
 
-        console.log(`[Playback] Getting turn for ${host.name}...`);
+        let turnStartedAt: number | null = null;
+        setState('THINKING');
 
         try {
           // Create abort controller for this turn
           const abortController = new AbortController();
           currentTurnAbortControllerRef.current = abortController;
 
-          // B. Start Speaking Chain (Streaming)
-          // This function streams text from Backboard and plays audio immediately
+          // B. Pick the host - the prefetched turn already decided who speaks
+          const provider = await getTurnProvider();
+          const onFallback = provider !== primaryRef.current;
+          const prepared = await claimSpeculation(cue, provider);
+          const plan = prepared?.plan || planTurn(cue, turnHistoryRef.current);
+          const currentHostIdx = plan.hostIndex;
+
+          const host = hosts[currentHostIdx];
+          setActiveHostIndex(currentHostIdx);
+
+          console.log(`[Playback] Getting turn for ${host.name}${prepared?.turn ? ' (prefetched)' : ''}...`);
+
+          if (plan.backchannel) {
+            await speakBackchannel(plan.backchannel, abortController.signal);
+            if (shouldInteruptRef.current) {
+              prepared?.turn?.cancel();
+              break;
+            }
+            setActiveHostIndex(currentHostIdx);
+            setState('THINKING');
+          }
+
+          // C. Ground this turn in the most relevant document chunks
+          const ragChunks = prepared?.ragChunks || await retrieveSegmentChunks(cue, spokenHistoryRef.current);
+
+          // D. Start Speaking Chain (Streaming) for this host
+          // This function streams text from the provider and plays audio immediately
           // It returns when the FULL turn is complete
           const result: SpeakingChainResult = await startSpeakingChain(
-            threadId,
-            host.voiceId || 'male-calm',
-            (sentence) => {
+            provider,
+            host.id,
+            hostVoiceId(host),
+            (sentence, citations) => {
               // On every sentence start:
               if (shouldInteruptRef.current) return; // Stop if interrupted
+              turnStartedAt = turnStartedAt ?? Date.now();
 
               // 1. Update UI
               setState('SPEAKING');
               setCurrentText(sentence);
+              setCurrentCitations(citations);
 
               // 2. Append to Transcript
               setTranscript(prev => [...prev, {
                 hostIndex: currentHostIdx,
                 hostName: host.name,
                 text: sentence,
-                timestamp: Date.now()
+                timestamp: Date.now(),
+                citations,
+                grounding: verifyTurn(sentence, ragChunks)
               }]);
 
               // 3. Track uncommitted buffer for interruption logic
               currentUnspokenBufferRef.current += sentence + " ";
             },
-            abortController.signal
+            abortController.signal,
+            turnContextFor(plan, ragChunks),
+            {
+              prefetched: prepared?.turn,
+              ttsMode,
+              onTextComplete: text => {
+                if (shouldInteruptRef.current || !text) return;
+                // A contradicted turn is corrected on air first - the next turn waits for that
+                if (autoCorrectContradictions && verifyTurn(text, ragChunks).status === 'contradicted') return;
+
+                // The providers only hear the line once it has played (commitTurn)
+                speculateNextTurn(provider, currentHostIdx, text);
+              },
+            }
           );
 
           currentTurnAbortControllerRef.current = null;
 
-          // C. Turn Complete
+          // The stream broke off - handled like any failed turn below
+          if (result.error) throw result.error;
+
+          // E. Turn Complete
           if (result.completed) {
+            recoveryRef.current.succeeded(onFallback);
+            setNotice(onFallback ? 'Running on the backup AI provider.' : null);
+
             // Commit to history (clears buffer)
             spokenHistoryRef.current += result.spokenText + " ";
             currentUnspokenBufferRef.current = "";
 
-            // Switch host for next turn
-            currentHostIdx = (currentHostIdx + 1) % hosts.length;
+            const grounding = verifyTurn(result.spokenText, ragChunks);
+            commitTurn({
+              speakerId: host.id,
+              speakerName: host.name,
+              text: result.spokenText,
+              citations: result.citations,
+              grounding
+            });
+
+            // Timed before the correction, which is counted as a turn of its own
+            recordSpokenTurn(result.spokenText, turnStartedAt);
+            turnHistoryRef.current.push({ hostIndex: currentHostIdx, text: result.spokenText });
+
+            if (autoCorrectContradictions && grounding.status === 'contradicted' && !shouldInteruptRef.current) {
+              await speakCorrection(provider, currentHostIdx, result.spokenText, grounding, ragChunks);
+            }
           } else {
             // Interrupted mid-turn (via abort signal usually returns completed: false)
             console.log('[Playback] Turn interrupted/incomplete');
+            // Only the sentences that finished playing were said on air
+            if (result.spokenText) {
+              commitTurn({
+                speakerId: host.id,
+                speakerName: host.name,
+                text: result.spokenText,
+                citations: result.citations
+              });
+            }
             break;
           }
 
         } catch (turnError) {
-          if ((turnError as Error).message === 'Aborted') {
+          // Retry with backoff, fail over to the fallback provider or stop (see resilience.ts)
+          discardSpeculation();
+          const decision = recoveryRef.current.failed(turnError, providerRef.current !== primaryRef.current);
+          if (decision.action === 'abort') {
             console.log('[Playback] Turn aborted by interruption');
             break;
           }
-          console.error('[Playback] Error in turn:', turnError);
-          // Wait a bit before retrying to avoid loops
-          await new Promise(r => setTimeout(r, 2000));
+          if (decision.action === 'stop') {
+            console.error('[Playback] Giving up on the turn:', turnError);
+            setNotice(null);
+            setError(decision.message);
+            setIsPlaying(false);
+            break;
+          }
+
+          console.warn(`[Playback] Turn failed (${decision.action}):`, turnError);
+          setNotice(decision.message);
+          setState('THINKING');
+          if (decision.action === 'retry') {
+            try {
+              await waitFor(decision.delayMs, loopAbortController.signal);
+            } catch {
+              console.log('[Playback] Retry cancelled by interruption');
+              break;
+            }
+          }
         }
       }
     } catch (loopError) {
       console.error('[Playback] Loop crashed:', loopError);
       setError('Conversation ended unexpectedly');
     } finally {
-      isLoopRunningRef.current = false;
+      discardSpeculation();
+      // A loop restarted after an interruption owns the state from here on
+      if (loopAbortControllerRef.current === loopAbortController) {
+        loopAbortControllerRef.current = null;
+        isLoopRunningRef.current = false;
+      }
       if (!shouldInteruptRef.current) {
         setState('IDLE');
       }
@@ -414,13 +940,15 @@ export function RealTimePlaybackView({
 
   // Handle User Interruption
   const handleUserInterruption = async (userInput: string) => {
-    if (!threadIdRef.current) return;
+    const provider = providerRef.current;
+    if (!provider) return;
 
     // 1. STOP everything immediately
     shouldInteruptRef.current = true; // Breaks the loop logic
 
-    // Abort current audio/generation
+    // Abort current audio/generation and any retry the loop is waiting on
     currentTurnAbortControllerRef.current?.abort();
+    loopAbortControllerRef.current?.abort();
 
     setState('LISTENING');
     setIsInterrupting(false);
@@ -428,14 +956,21 @@ export function RealTimePlaybackView({
 
     console.log('[Playback] Handling interruption:', userInput);
 
-    // 2. Call Backboard to handle interruption context
+    // 2. Ask the provider to handle interruption context
     try {
-      const result = await handleInterruption(
-        threadIdRef.current,
-        spokenHistoryRef.current,
-        currentUnspokenBufferRef.current, // The "rest" of what wasn't said
-        userInput
-      );
+      const ragChunks = await retrieveTurnChunks(buildTurnQuery({
+        subTopic: userInput,
+        recentHistory: spokenHistoryRef.current,
+        historyChars: 200,
+      }));
+
+      // The host who was speaking answers
+      const responseText = await provider.interrupt(hosts[activeHostIndex].id, {
+        userInput,
+        spokenHistory: spokenHistoryRef.current,
+        unspokenText: currentUnspokenBufferRef.current, // The "rest" of what wasn't said
+        ragChunks,
+      });
 
       // 3. Add User's Input to Transcript
       setTranscript(prev => [...prev, {
@@ -445,10 +980,18 @@ export function RealTimePlaybackView({
         timestamp: Date.now()
       }]);
 
+      commitTurn({ speakerId: 'user', speakerName: 'You', text: userInput });
+
+      const responseCitations = mergeCitations(
+        ...splitIntoSentences(responseText).map(sentence => attributeSentence(sentence, ragChunks))
+      );
+      const responseGrounding = verifyTurn(responseText, ragChunks);
+
       // 4. Speak the AI's response (using speakTurn for single response)
       setActiveHostIndex(activeHostIndex); // Keep same host usually
       setState('SPEAKING');
-      setCurrentText(result.text);
+      setCurrentText(responseText);
+      setCurrentCitations(responseCitations);
 
       // Create a temporary controller for this response
       const responseAbortController = new AbortController();
@@ -456,8 +999,8 @@ export function RealTimePlaybackView({
 
       try {
         await speakTurn(
-          result.text,
-          hosts[activeHostIndex].voiceId || 'male-calm',
+          responseText,
+          hostVoiceId(hosts[activeHostIndex]),
           responseAbortController.signal
         );
       } finally {
@@ -465,16 +1008,27 @@ export function RealTimePlaybackView({
       }
 
       // Update history
-      spokenHistoryRef.current += result.text + " ";
+      spokenHistoryRef.current += responseText + " ";
       currentUnspokenBufferRef.current = "";
+      turnHistoryRef.current.push({ hostIndex: activeHostIndex, text: responseText });
 
       setTranscript(prev => [...prev, {
         hostIndex: activeHostIndex,
         hostName: hosts[activeHostIndex].name,
-        text: result.text,
-        timestamp: Date.now()
+        text: responseText,
+        timestamp: Date.now(),
+        citations: responseCitations,
+        grounding: responseGrounding
       }]);
 
+      commitTurn({
+        speakerId: hosts[activeHostIndex].id,
+        speakerName: hosts[activeHostIndex].name,
+        text: responseText,
+        citations: responseCitations,
+        grounding: responseGrounding
+      });
+
       // 5. Resume the Loop
       // Wait for any previous loop to fully stop, then restart
       console.log('[Playback] Waiting for loop to stop before restarting...');
@@ -493,7 +1047,7 @@ export function RealTimePlaybackView({
       shouldInteruptRef.current = false;
 
       console.log('[Playback] Restarting conversation loop...');
-      runConversationLoop(threadIdRef.current!);
+      runConversationLoop();
 
     } catch (err) {
       console.error('[Playback] Interruption failed:', err);
@@ -501,8 +1055,8 @@ export function RealTimePlaybackView({
 
       // Still try to resume on error
       shouldInteruptRef.current = false;
-      if (!isLoopRunningRef.current && threadIdRef.current) {
-        runConversationLoop(threadIdRef.current);
+      if (!isLoopRunningRef.current && providerRef.current) {
+        runConversationLoop();
       }
     }
   };
@@ -513,6 +1067,7 @@ export function RealTimePlaybackView({
       // Immediately halt the podcast when opening interrupt UI
       shouldInteruptRef.current = true;
       currentTurnAbortControllerRef.current?.abort();
+      loopAbortControllerRef.current?.abort();
       setState('LISTENING');
       setIsInterrupting(true);
     } else {
@@ -522,8 +1077,8 @@ export function RealTimePlaybackView({
         // User cancelled without typing anything - resume playback
         setIsInterrupting(false);
         shouldInteruptRef.current = false;
-        if (threadIdRef.current && !isLoopRunningRef.current) {
-          runConversationLoop(threadIdRef.current);
+        if (providerRef.current && !isLoopRunningRef.current) {
+          runConversationLoop();
         }
       }
     }
@@ -540,8 +1095,8 @@ export function RealTimePlaybackView({
         } else {
           // No text transcribed - resume playback
           shouldInteruptRef.current = false;
-          if (threadIdRef.current && !isLoopRunningRef.current) {
-            runConversationLoop(threadIdRef.current);
+          if (providerRef.current && !isLoopRunningRef.current) {
+            runConversationLoop();
           }
         }
       } catch (err) {
@@ -549,14 +1104,15 @@ export function RealTimePlaybackView({
         setError('Could not transcribe audio. Please try again or use text input.');
         // Resume playback on error
         shouldInteruptRef.current = false;
-        if (threadIdRef.current && !isLoopRunningRef.current) {
-          runConversationLoop(threadIdRef.current);
+        if (providerRef.current && !isLoopRunningRef.current) {
+          runConversationLoop();
         }
       }
     } else {
       // Start recording - immediately halt the podcast
       shouldInteruptRef.current = true;
       currentTurnAbortControllerRef.current?.abort();
+      loopAbortControllerRef.current?.abort();
       setState('LISTENING');
       try {
         resetSTT();
@@ -565,8 +1121,8 @@ export function RealTimePlaybackView({
         console.error('[Playback] Failed to start recording:', err);
         // Resume playback on error
         shouldInteruptRef.current = false;
-        if (threadIdRef.current && !isLoopRunningRef.current) {
-          runConversationLoop(threadIdRef.current);
+        if (providerRef.current && !isLoopRunningRef.current) {
+          runConversationLoop();
         }
       }
     }
@@ -621,11 +1177,38 @@ export function RealTimePlaybackView({
         >
           <X className="w-5 h-5" />
         </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn(
+            "w-10 h-10 ml-2 rounded-full text-white/70 hover:text-white hover:bg-white/10 backdrop-blur-sm transition-all",
+            showTranscript && "text-white bg-white/10"
+          )}
+          onClick={() => setShowTranscript(prev => !prev)}
+          title={showTranscript ? "Hide transcript" : "Show transcript"}
+        >
+          <ScrollText className="w-5 h-5" />
+        </Button>
       </div>
 
+      {/* Transcript panel with source footnotes */}
+      {showTranscript && (
+        <TranscriptPanel transcript={transcript} />
+      )}
+
       {/* State indicator */}
       <div className="absolute top-6 right-6 z-50">
-        <StateIndicator state={state} isPausable={isPlaying} />
+        {pacing?.finished ? (
+          <span className="text-sm text-white/70">Episode complete</span>
+        ) : (
+          <StateIndicator state={state} isPausable={isPlaying} />
+        )}
+        {pacing && pacerRef.current && !pacing.finished && (
+          <p className="mt-1 text-xs text-white/50 text-right">
+            {pacing.segmentIndex + 1}/{pacerRef.current.outline.segments.length} · {pacerRef.current.outline.segments[pacing.segmentIndex].title}
+            <span className="ml-2 font-mono">{formatClock(pacing.elapsedSeconds)} / {formatClock(pacing.totalSeconds)}</span>
+          </p>
+        )}
       </div>
 
       {/* Error display */}
@@ -635,6 +1218,13 @@ export function RealTimePlaybackView({
         </div>
       )}
 
+      {/* Degraded-state notice (retrying, backup provider) */}
+      {notice && !error && !sttError && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-50 px-4 py-2 bg-amber-500/20 border border-amber-500/50 rounded-lg text-amber-300 text-sm backdrop-blur-sm">
+          {notice}
+        </div>
+      )}
+
       {/* Main content */}
       <div
         className="relative z-30 h-full flex flex-col items-center px-8 transition-transform duration-1000 ease-out"
@@ -674,7 +1264,13 @@ export function RealTimePlaybackView({
 
             <div className="relative backdrop-blur-sm bg-black/20 rounded-2xl border border-white/5 shadow-2xl w-full h-full flex items-center justify-center">
               <p className="text-2xl md:text-4xl font-light leading-relaxed text-center text-foreground/95 px-10 py-8 transition-all duration-500">
-                {currentText || (
+                {currentText && (
+                  <>
+                    {currentText}
+                    <CitationFootnotes citations={currentCitations} className="text-base md:text-lg" />
+                  </>
+                )}
+                {!currentText && (
                   <span className="flex items-center justify-center gap-3 text-muted-foreground">
                     {state === 'IDLE' && transcript.length === 0 ? (
                       <>
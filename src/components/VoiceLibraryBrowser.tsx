@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { Check, Loader2, Pause, Play, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useVoiceLibrary, VoiceLibrarySearch } from '@/hooks/useVoiceLibrary';
+import { LibraryVoice } from '@/lib/speechGateway';
+import { cn } from '@/lib/utils';
+
+interface VoiceLibraryBrowserProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** ElevenLabs ID of the host's current library voice, if any */
+  selectedVoiceId?: string;
+  onSelect: (voice: LibraryVoice) => void;
+}
+
+// 'any' stands in for no filter (Select items can't have empty values)
+const GENDER_FILTERS = [
+  { value: 'any', label: 'Any gender' },
+  { value: 'male', label: 'Male' },
+  { value: 'female', label: 'Female' },
+  { value: 'neutral', label: 'Neutral' },
+];
+
+const AGE_FILTERS = [
+  { value: 'any', label: 'Any age' },
+  { value: 'young', label: 'Young' },
+  { value: 'middle_aged', label: 'Middle aged' },
+  { value: 'old', label: 'Old' },
+];
+
+const ACCENT_FILTERS = [
+  { value: 'any', label: 'Any accent' },
+  { value: 'american', label: 'American' },
+  { value: 'british', label: 'British' },
+  { value: 'australian', label: 'Australian' },
+  { value: 'irish', label: 'Irish' },
+  { value: 'scottish', label: 'Scottish' },
+  { value: 'indian', label: 'Indian' },
+  { value: 'african', label: 'African' },
+];
+
+function voiceLabels(voice: LibraryVoice): string {
+  const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+  return [voice.accent, voice.gender, voice.age?.replace('_', ' '), voice.style]
+    .filter(Boolean)
+    .map(capitalize)
+    .join(' · ');
+}
+
+export function VoiceLibraryBrowser({
+  open,
+  onOpenChange,
+  selectedVoiceId,
+  onSelect,
+}: VoiceLibraryBrowserProps) {
+  const [search, setSearch] = useState('');
+  const [gender, setGender] = useState('any');
+  const [age, setAge] = useState('any');
+  const [accent, setAccent] = useState('any');
+
+  const filters: VoiceLibrarySearch = {
+    search,
+    gender: gender === 'any' ? undefined : gender as VoiceLibrarySearch['gender'],
+    age: age === 'any' ? undefined : age as VoiceLibrarySearch['age'],
+    accent: accent === 'any' ? undefined : accent,
+  };
+
+  const {
+    voices,
+    isLoading,
+    error,
+    hasMore,
+    loadMore,
+    previewingId,
+    togglePreview,
+    stopPreview,
+  } = useVoiceLibrary(filters, open);
+
+  const handleSelect = (voice: LibraryVoice) => {
+    stopPreview();
+    onSelect(voice);
+    onOpenChange(false);
+  };
+
+  const filterSelect = (
+    value: string,
+    onChange: (value: string) => void,
+    options: { value: string; label: string }[]
+  ) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-9 bg-muted/20 border-border/40 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-popover border-border">
+        {options.map(option => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] flex flex-col bg-background border-border">
+        <DialogHeader>
+          <DialogTitle>Voice library</DialogTitle>
+          <DialogDescription>
+            Listen to ElevenLabs voices and pick one for this host.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Filters */}
+        <div className="space-y-2">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="Search by name or style..."
+              className="pl-9 h-9 bg-muted/20 border-border/40"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {filterSelect(gender, setGender, GENDER_FILTERS)}
+            {filterSelect(age, setAge, AGE_FILTERS)}
+            {filterSelect(accent, setAccent, ACCENT_FILTERS)}
+          </div>
+        </div>
+
+        {/* Results */}
+        <div className="flex-1 min-h-[240px] overflow-y-auto -mx-2 px-2 space-y-1.5">
+          {error && (
+            <p className="text-sm text-destructive py-4 text-center">{error}</p>
+          )}
+
+          {!error && !isLoading && voices.length === 0 && (
+            <p className="text-sm text-muted-foreground py-8 text-center italic">
+              No voices match these filters
+            </p>
+          )}
+
+          {voices.map(voice => {
+            const isSelected = voice.voiceId === selectedVoiceId;
+            const isPreviewing = voice.voiceId === previewingId;
+
+            return (
+              <div
+                key={voice.voiceId}
+                className={cn(
+                  'flex items-center gap-3 p-2.5 rounded-lg border transition-colors',
+                  isSelected ? 'border-primary/60 bg-primary/5' : 'border-border/40 hover:bg-muted/30'
+                )}
+              >
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9 shrink-0 rounded-full bg-muted/40"
+                  onClick={() => togglePreview(voice)}
+                  disabled={!voice.previewUrl}
+                  aria-label={isPreviewing ? `Stop ${voice.name} preview` : `Play ${voice.name} preview`}
+                >
+                  {isPreviewing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                </Button>
+
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{voice.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {voiceLabels(voice) || voice.description}
+                  </p>
+                </div>
+
+                <Button
+                  variant={isSelected ? 'secondary' : 'outline'}
+                  size="sm"
+                  className="shrink-0"
+                  onClick={() => handleSelect(voice)}
+                >
+                  {isSelected ? <><Check className="w-3.5 h-3.5 mr-1" /> Selected</> : 'Use'}
+                </Button>
+              </div>
+            );
+          })}
+
+          {isLoading && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {hasMore && !isLoading && (
+            <Button variant="ghost" size="sm" className="w-full" onClick={loadMore}>
+              Load more
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
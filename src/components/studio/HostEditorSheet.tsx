@@ -1,5 +1,5 @@
 import { useState, useRef } from 'react';
-import { ChevronLeft, ChevronRight, User, Mic, Sparkles, X } from 'lucide-react';
+import { ChevronLeft, ChevronRight, User, Mic, Sparkles, X, Library } from 'lucide-react';
 import { 
   HostConfig, 
   VOICE_OPTIONS, 
@@ -8,6 +8,8 @@ import {
   PERSONALITY_TRAITS,
   AvatarCategory
 } from '@/types/podcast';
+import { describeHostVoice } from '@/lib/voices';
+import { VoiceLibraryBrowser } from '@/components/VoiceLibraryBrowser';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import {
@@ -46,6 +48,7 @@ export function HostEditorSheet({
 }: HostEditorSheetProps) {
   const [avatarCategory, setAvatarCategory] = useState<AvatarCategory>('professional');
   const [hoveredAvatar, setHoveredAvatar] = useState<string | null>(null);
+  const [voiceLibraryOpen, setVoiceLibraryOpen] = useState(false);
   const carouselRef = useRef<HTMLDivElement>(null);
 
   if (!host) return null;
@@ -219,17 +222,18 @@ export function HostEditorSheet({
                 <div className="space-y-1.5">
                   <Label className="text-sm text-muted-foreground">Voice</Label>
                   <Select
-                    value={host.voiceId}
+                    value={host.elevenlabs_voice_id ? '' : host.voiceId}
                     onValueChange={(value) => {
                       const voice = VOICE_OPTIONS.find(v => v.id === value);
                       onUpdateHost(host.id, {
                         voiceId: value,
-                        voiceLabel: voice?.label || value
+                        voiceLabel: voice?.label || value,
+                        elevenlabs_voice_id: undefined,
                       });
                     }}
                   >
                     <SelectTrigger className="h-10 bg-muted/20 border-border/40">
-                      <SelectValue placeholder="Select voice" />
+                      <SelectValue placeholder={host.elevenlabs_voice_id ? host.voiceLabel : 'Select voice'} />
                     </SelectTrigger>
                     <SelectContent className="bg-popover border-border">
                       {VOICE_OPTIONS.map((voice) => (
@@ -239,6 +243,26 @@ export function HostEditorSheet({
                       ))}
                     </SelectContent>
                   </Select>
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-muted-foreground truncate">{describeHostVoice(host)}</p>
+                    <button
+                      type="button"
+                      onClick={() => setVoiceLibraryOpen(true)}
+                      className="flex items-center gap-1 text-xs text-primary hover:underline shrink-0"
+                    >
+                      <Library className="w-3 h-3" />
+                      Browse library
+                    </button>
+                  </div>
+                  <VoiceLibraryBrowser
+                    open={voiceLibraryOpen}
+                    onOpenChange={setVoiceLibraryOpen}
+                    selectedVoiceId={host.elevenlabs_voice_id}
+                    onSelect={(voice) => onUpdateHost(host.id, {
+                      elevenlabs_voice_id: voice.voiceId,
+                      voiceLabel: voice.name,
+                    })}
+                  />
                 </div>
 
                 <div className="space-y-1.5">
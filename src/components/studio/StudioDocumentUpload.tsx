@@ -3,6 +3,7 @@ import { FileText, Upload, X, FolderOpen } from 'lucide-react';
 import { RagFile } from '@/types/podcast';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { DOCUMENT_ACCEPT } from '@/lib/documentParser';
 
 interface StudioDocumentUploadProps {
   ragFiles: RagFile[];
@@ -52,7 +53,7 @@ export function StudioDocumentUpload({
         ref={fileInputRef}
         type="file"
         multiple
-        accept=".pdf,.doc,.docx,.txt,.md,.pptx"
+        accept={DOCUMENT_ACCEPT}
         onChange={handleFileSelect}
         className="hidden"
         disabled={disabled}
@@ -14,7 +14,7 @@ const STEP_LABELS: Record<GenerationStep, string> = {
   ingesting: 'Analyzing materials…',
   extracting: 'Extracting concepts…',
   assigning: 'Assigning perspectives…',
-  outline: 'Building outline…',
+  outline: 'Reviewing outline…',
   generating: 'Generating episode…',
   finalizing: 'Finalizing…',
   complete: 'Complete',
@@ -1,6 +1,7 @@
 import { Settings2, Mic, User } from 'lucide-react';
 import { HostConfig } from '@/types/podcast';
 import { cn } from '@/lib/utils';
+import { hostVoiceLabel } from '@/lib/voices';
 
 interface StudioHostCardProps {
   host: HostConfig;
@@ -76,7 +77,7 @@ export function StudioHostCard({
         <p className="text-sm text-muted-foreground mb-2">{host.role}</p>
         <div className="flex items-center gap-1.5 text-xs text-muted-foreground/60">
           <Mic className="w-3 h-3" />
-          <span>{host.voiceLabel}</span>
+          <span>{hostVoiceLabel(host)}</span>
         </div>
 
         {/* Edit button */}
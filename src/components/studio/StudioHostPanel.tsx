@@ -26,7 +26,7 @@ export function StudioHostPanel({ hosts, onUpdateHost }: StudioHostPanelProps) {
           name: 'Dr. Chen',
           role: 'Professor',
           voiceId: 'female-professional',
-          voiceLabel: 'Female - Professional',
+          voiceLabel: 'Female - Animated',
           personality: 'analytical',
           avatarUrl: AVATAR_PRESETS[0].url
         },
@@ -52,7 +52,7 @@ export function StudioHostPanel({ hosts, onUpdateHost }: StudioHostPanelProps) {
           name: 'Alex',
           role: 'Tech Lead',
           voiceId: 'male-calm',
-          voiceLabel: 'Male - Calm',
+          voiceLabel: 'Male - Calm (British)',
           personality: 'supportive',
           avatarUrl: AVATAR_PRESETS[3].url
         },
@@ -60,7 +60,7 @@ export function StudioHostPanel({ hosts, onUpdateHost }: StudioHostPanelProps) {
           name: 'Riley',
           role: "Devil's Advocate",
           voiceId: 'british-crisp',
-          voiceLabel: 'British - Crisp',
+          voiceLabel: 'Male - Crisp (British)',
           personality: 'skeptical',
           avatarUrl: AVATAR_PRESETS[4].url
         },
@@ -94,7 +94,7 @@ export function StudioHostPanel({ hosts, onUpdateHost }: StudioHostPanelProps) {
           name: 'Casey',
           role: 'Junior Developer',
           voiceId: 'british-warm',
-          voiceLabel: 'British - Warm',
+          voiceLabel: 'Male - Soft',
           personality: 'supportive',
           avatarUrl: AVATAR_PRESETS[2].url
         },
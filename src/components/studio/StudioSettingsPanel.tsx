@@ -0,0 +1,108 @@
+import { AudioLines, MessagesSquare, ShieldCheck } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DEFAULT_DIALOGUE_PROVIDER, DIALOGUE_PROVIDERS, DialogueProviderId } from '@/lib/dialogue';
+import { DEFAULT_TTS_MODE, TTS_MODES, TtsMode } from '@/lib/speechSocket';
+import { PodcastSettings } from '@/types/podcast';
+
+interface StudioSettingsPanelProps {
+  settings: PodcastSettings;
+  onUpdateSettings: (updates: Partial<PodcastSettings>) => void;
+  /** Fact checking needs documents to check against */
+  hasDocuments: boolean;
+  disabled?: boolean;
+}
+
+export function StudioSettingsPanel({
+  settings,
+  onUpdateSettings,
+  hasDocuments,
+  disabled,
+}: StudioSettingsPanelProps) {
+  const dialogueProvider = settings.dialogueProvider || DEFAULT_DIALOGUE_PROVIDER;
+  const dialogueDescription = DIALOGUE_PROVIDERS.find(p => p.id === dialogueProvider)?.description;
+  const ttsMode = settings.ttsMode || DEFAULT_TTS_MODE;
+  const ttsDescription = TTS_MODES.find(mode => mode.id === ttsMode)?.description;
+
+  return (
+    <div className="rounded-xl border border-border/40 bg-muted/10 divide-y divide-border/40">
+      <div className="flex items-center justify-between gap-4 p-4">
+        <div className="flex items-start gap-3 min-w-0">
+          <MessagesSquare className="w-4 h-4 mt-0.5 text-muted-foreground" />
+          <div className="min-w-0">
+            <p className="text-sm font-medium">Dialogue engine</p>
+            <p className="text-xs text-muted-foreground">{dialogueDescription}</p>
+          </div>
+        </div>
+        <Select
+          value={dialogueProvider}
+          onValueChange={value => onUpdateSettings({ dialogueProvider: value as DialogueProviderId })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-44 h-9 shrink-0 bg-muted/20 border-border/40 text-xs" aria-label="Dialogue engine">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-popover border-border">
+            {DIALOGUE_PROVIDERS.map(provider => (
+              <SelectItem key={provider.id} value={provider.id}>
+                {provider.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 p-4">
+        <div className="flex items-start gap-3 min-w-0">
+          <AudioLines className="w-4 h-4 mt-0.5 text-muted-foreground" />
+          <div className="min-w-0">
+            <p className="text-sm font-medium">Speech</p>
+            <p className="text-xs text-muted-foreground">{ttsDescription}</p>
+          </div>
+        </div>
+        <Select
+          value={ttsMode}
+          onValueChange={value => onUpdateSettings({ ttsMode: value as TtsMode })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-44 h-9 shrink-0 bg-muted/20 border-border/40 text-xs" aria-label="Speech">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-popover border-border">
+            {TTS_MODES.map(mode => (
+              <SelectItem key={mode.id} value={mode.id}>
+                {mode.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 p-4">
+        <div className="flex items-start gap-3">
+          <ShieldCheck className="w-4 h-4 mt-0.5 text-muted-foreground" />
+          <div>
+            <p className="text-sm font-medium">Correct contradictions on air</p>
+            <p className="text-xs text-muted-foreground">
+              {hasDocuments
+                ? 'A host corrects themselves when a line contradicts your documents'
+                : 'Upload documents to fact-check the hosts against them'}
+            </p>
+          </div>
+        </div>
+        <Switch
+          checked={hasDocuments && !!settings.autoCorrectContradictions}
+          onCheckedChange={checked => onUpdateSettings({ autoCorrectContradictions: checked })}
+          disabled={disabled || !hasDocuments}
+          aria-label="Correct contradictions on air"
+        />
+      </div>
+    </div>
+  );
+}
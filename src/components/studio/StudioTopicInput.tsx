@@ -5,6 +5,7 @@ import { Paperclip, FileText, X, ChevronDown } from 'lucide-react';
 import { RagFile } from '@/types/podcast';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { DOCUMENT_ACCEPT } from '@/lib/documentParser';
 import omnicastLogo from '@/assets/omnicast-icon.png';
 
 interface StudioTopicInputProps {
@@ -61,7 +62,7 @@ export function StudioTopicInput({
         ref={fileInputRef}
         type="file"
         multiple
-        accept=".pdf,.doc,.docx,.txt,.md,.pptx"
+        accept={DOCUMENT_ACCEPT}
         onChange={handleFileSelect}
         className="hidden"
         disabled={disabled}
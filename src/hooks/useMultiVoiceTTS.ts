@@ -1,4 +1,5 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
+import { requestSpeechStream } from '@/lib/speechGateway';
 
 interface TTSQueueItem {
     text: string;
@@ -7,11 +8,7 @@ interface TTSQueueItem {
     fetchPromise?: Promise<ArrayBuffer>;
 }
 
-interface UseMultiVoiceTTSProps {
-    apiKey: string;
-}
-
-export function useMultiVoiceTTS({ apiKey }: UseMultiVoiceTTSProps) {
+export function useMultiVoiceTTS() {
     const [isPlaying, setIsPlaying] = useState(false);
     const [currentVoiceId, setCurrentVoiceId] = useState<string | null>(null);
     const [queue, setQueue] = useState<TTSQueueItem[]>([]); // Expose queue for UI
@@ -36,28 +33,9 @@ export function useMultiVoiceTTS({ apiKey }: UseMultiVoiceTTSProps) {
         };
     }, []);
 
-    // Fetch audio from ElevenLabs (POST stream)
+    // Fetch audio from ElevenLabs (streamed through the elevenlabs-tts function)
     const fetchAudioSegment = async (text: string, voiceId: string, signal: AbortSignal): Promise<ArrayBuffer> => {
-        const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}/stream`, {
-            method: 'POST',
-            headers: {
-                'Accept': 'audio/mpeg',
-                'xi-api-key': apiKey,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                text,
-                model_id: 'eleven_turbo_v2_5',
-                latency_optimizations: 4,
-            }),
-            signal,
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`TTS API Error: ${response.status} ${errorText}`);
-        }
-
+        const response = await requestSpeechStream(text, voiceId, 'mp3', signal);
         return response.arrayBuffer();
     };
 
@@ -124,7 +102,7 @@ export function useMultiVoiceTTS({ apiKey }: UseMultiVoiceTTSProps) {
         queueRef.current.push(item);
         updateQueueState();
         processQueue();
-    }, [apiKey, processQueue]);
+    }, [processQueue]);
 
     // Handle incoming stream text
     const handleStreamChunk = useCallback((chunk: string) => {
@@ -1,20 +1,32 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { 
   HostConfig, 
   PodcastSettings, 
   RagFile, 
+  RagChunk,
   GeneratedPodcast,
   GenerationStep,
+  DocumentIngestionStatus,
+  EpisodeOutline,
   AVATAR_PRESETS
 } from '@/types/podcast';
 import { generatePodcast } from '@/lib/podcastGenerator';
+import { parseFile, ingestFile, ensureIngested, deleteFile, retrieve } from '@/lib/rag';
+import { extractConceptsByDocument } from '@/lib/conceptExtraction';
+import { generateOutline } from '@/lib/outlineGenerator';
+import { deleteDocumentText, restoreDocumentTexts, saveDocumentText } from '@/lib/documentCache';
+import { createSession } from '@/lib/podcastSessions';
+import { toast } from 'sonner';
 
 const STORAGE_KEY = 'omnicast-state';
 
+// Document text lives in IndexedDB (see documentCache.ts), not localStorage
+type StoredRagFile = Omit<RagFile, 'text' | 'sections'> & Partial<Pick<RagFile, 'text' | 'sections'>>;
+
 interface StoredState {
   hosts: HostConfig[];
   settings: PodcastSettings;
-  ragFiles: RagFile[];
+  ragFiles: StoredRagFile[];
   lastPodcast: GeneratedPodcast | null;
 }
 
@@ -23,7 +35,7 @@ const DEFAULT_HOSTS: HostConfig[] = [
     id: 'host-a',
     name: 'Alex',
     voiceId: 'male-calm',
-    voiceLabel: 'Male - Calm',
+    voiceLabel: 'Male - Calm (British)',
     role: 'Senior Engineer',
     avatarUrl: AVATAR_PRESETS[0].url,
     personality: 'analytical',
@@ -41,7 +53,7 @@ const DEFAULT_HOSTS: HostConfig[] = [
     id: 'host-c',
     name: 'Jordan',
     voiceId: 'british-crisp',
-    voiceLabel: 'British - Crisp',
+    voiceLabel: 'Male - Crisp (British)',
     role: 'Devil\'s Advocate',
     avatarUrl: AVATAR_PRESETS[2].url,
     personality: 'skeptical',
@@ -67,7 +79,7 @@ function loadFromStorage(): PersistedState | null {
       const parsed = JSON.parse(stored);
       // Restore Date objects
       if (parsed.ragFiles) {
-        parsed.ragFiles = parsed.ragFiles.map((f: RagFile) => ({
+        parsed.ragFiles = parsed.ragFiles.map((f: StoredRagFile) => ({
           ...f,
           uploadedAt: new Date(f.uploadedAt),
         }));
@@ -101,16 +113,18 @@ export function usePodcastStore() {
     const stored = loadFromStorage();
     return stored?.settings || DEFAULT_SETTINGS;
   });
-  const [ragFiles, setRagFiles] = useState<RagFile[]>(() => {
-    const stored = loadFromStorage();
-    return stored?.ragFiles || [];
-  });
+  // Restored files need their text from IndexedDB before they can be used
+  const storedRagFilesRef = useRef<StoredRagFile[]>(loadFromStorage()?.ragFiles || []);
+  const [ragFiles, setRagFiles] = useState<RagFile[]>([]);
+  const [ragFilesRestored, setRagFilesRestored] = useState(storedRagFilesRef.current.length === 0);
   const [prompt, setPrompt] = useState<string>(() => {
     const stored = loadFromStorage();
     return typeof stored?.prompt === 'string' ? stored.prompt : '';
   });
   const [currentPodcast, setCurrentPodcast] = useState<GeneratedPodcast | null>(null);
   const [generationStep, setGenerationStep] = useState<GenerationStep>('idle');
+  const [ingestionStatus, setIngestionStatus] = useState<DocumentIngestionStatus[]>([]);
+  const [outline, setOutline] = useState<EpisodeOutline | null>(null);
   const [speakingHostId, setSpeakingHostId] = useState<string | null>(null);
   const [isPlaybackMode, setIsPlaybackMode] = useState(false);
   const [isViralClipsMode, setIsViralClipsMode] = useState(false);
@@ -123,16 +137,45 @@ export function usePodcastStore() {
     setClassroomContextState(context);
   }, []);
 
+  useEffect(() => {
+    if (ragFilesRestored) return;
+    let cancelled = false;
+
+    const restore = async () => {
+      const stored = storedRagFilesRef.current;
+      // Files saved with their text in localStorage move it to IndexedDB
+      for (const file of stored) {
+        if (typeof file.text === 'string') {
+          await saveDocumentText({ ...file, text: file.text, sections: file.sections || [] })
+            .catch(e => console.warn('Failed to cache document text:', e));
+        }
+      }
+      const restored = await restoreDocumentTexts(stored).catch(e => {
+        console.error('Failed to restore documents:', e);
+        return [] as RagFile[];
+      });
+      if (cancelled) return;
+      setRagFiles(prev => [...restored, ...prev.filter(f => !restored.some(r => r.id === f.id))]);
+      setRagFilesRestored(true);
+    };
+
+    restore();
+    return () => { cancelled = true; };
+  }, [ragFilesRestored]);
+
   // Save to localStorage on changes
   useEffect(() => {
     saveToStorage({
       hosts,
       settings,
-      ragFiles,
+      // Until the documents are restored, keep what was stored
+      ragFiles: ragFilesRestored
+        ? ragFiles.map(({ text, sections, ...metadata }) => metadata)
+        : storedRagFilesRef.current,
       lastPodcast: currentPodcast,
       prompt,
     });
-  }, [hosts, settings, ragFiles, currentPodcast, prompt]);
+  }, [hosts, settings, ragFiles, ragFilesRestored, currentPodcast, prompt]);
 
   const replaceHosts = useCallback((newHosts: HostConfig[]) => {
     setHosts(newHosts);
@@ -152,56 +195,56 @@ export function usePodcastStore() {
     setSettings(prev => ({ ...prev, ...updates }));
   }, []);
 
-  const addRagFile = useCallback((file: File) => {
-    const ragFile: RagFile = {
-      id: `file-${Date.now()}-${Math.random().toString(36).slice(2)}`,
-      name: file.name,
-      size: file.size,
-      uploadedAt: new Date(),
-      rawTextMock: `Mock extracted content from ${file.name}. This would contain the actual parsed text in a real implementation.`,
-    };
-    setRagFiles(prev => [...prev, ragFile]);
-    
-    // Enable RAG when first file is added
-    if (ragFiles.length === 0) {
-      setSettings(prev => ({ ...prev, useRag: true }));
+  const addRagFile = useCallback(async (file: File) => {
+    try {
+      const parsed = await parseFile(file);
+      const ragFile: RagFile = {
+        id: `file-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+        name: file.name,
+        size: file.size,
+        uploadedAt: new Date(),
+        text: parsed.text,
+        sections: parsed.sections,
+      };
+      await ingestFile(ragFile, { source: file });
+      await saveDocumentText(ragFile).catch(e => console.warn('Failed to cache document text:', e));
+      setRagFiles(prev => [...prev, ragFile]);
+
+      // Enable RAG when a file is added
+      setSettings(prev => (prev.useRag ? prev : { ...prev, useRag: true }));
+    } catch (e) {
+      console.error('Failed to parse file:', e);
+      toast.error(e instanceof Error ? e.message : `Could not read ${file.name}`);
     }
-  }, [ragFiles.length]);
+  }, []);
 
   const removeRagFile = useCallback((fileId: string) => {
     setRagFiles(prev => prev.filter(f => f.id !== fileId));
+    deleteFile(fileId);
+    deleteDocumentText(fileId).catch(e => console.warn('Failed to remove cached document text:', e));
   }, []);
 
-  const generate = useCallback(async () => {
-    if (!prompt.trim()) return;
-
-    // New AI thinking stages when documents/RAG are present
-    const hasDocuments = ragFiles.length > 0 || (classroomContext?.documents?.length || 0) > 0;
-    
-    // Quick visual feedback phases
-    if (hasDocuments) {
-      setGenerationStep('ingesting');
-      await new Promise(r => setTimeout(r, 1000));
+  // Creates the episode and hands over to RealTimePlaybackView
+  const startEpisode = useCallback(async (episodeOutline: EpisodeOutline | null) => {
+    setGenerationStep('generating');
 
-      setGenerationStep('extracting');
-      await new Promise(r => setTimeout(r, 1000));
+    // Signed-in users get a saved session, which the live view keeps up to date
+    let sessionId: string | null = null;
+    try {
+      sessionId = await createSession({ prompt, hosts, settings, ragFiles, outline: episodeOutline });
+    } catch (e) {
+      console.warn('Episode will not be saved:', e);
     }
 
-    setGenerationStep('assigning');
-    await new Promise(r => setTimeout(r, 800));
-
-    setGenerationStep('generating');
-    // Short wait to simulate connecting to studio
-    await new Promise(r => setTimeout(r, 1000));
-
     // Create a placeholder podcast object for the store
     // The actual content will be streamed in RealTimePlaybackView
     const podcast: GeneratedPodcast = {
-      id: `podcast-${Date.now()}`,
+      id: sessionId || `podcast-${Date.now()}`,
       title: 'New Podcast Episode',
       prompt: prompt,
       transcript: [], // Will be filled by streaming
       ragChunks: [],
+      outline: episodeOutline || undefined,
       createdAt: new Date(),
     };
 
@@ -211,7 +254,125 @@ export function usePodcastStore() {
     
     // Note: Old simulation loop removed. 
     // RealTimePlaybackView handles streaming and state.
-  }, [prompt, hosts, settings, ragFiles, classroomContext]);
+  }, [prompt, hosts, settings, ragFiles]);
+
+  /**
+   * Runs document analysis and outline generation. With reviewOutline the
+   * flow stops at the 'outline' step so the outline can be edited; goLive()
+   * then starts the episode.
+   */
+  const generate = useCallback(async (options: { reviewOutline?: boolean } = {}) => {
+    if (!prompt.trim()) return;
+    const { reviewOutline = true } = options;
+
+    // New AI thinking stages when documents/RAG are present
+    const hasDocuments = ragFiles.length > 0 || (classroomContext?.documents?.length || 0) > 0;
+    let concepts: string[] = [];
+    
+    setOutline(null);
+
+    try {
+      if (hasDocuments) {
+        const documents = [
+          ...ragFiles.map(file => ({ id: file.id, name: file.name, text: file.text, file })),
+          ...(classroomContext?.documents || []).map((doc, i) => ({
+            id: `classroom-doc-${i}`,
+            name: doc.name,
+            text: doc.content,
+            file: null as RagFile | null,
+          })),
+        ];
+
+        const updateStatus = (fileId: string, updates: Partial<DocumentIngestionStatus>) => {
+          setIngestionStatus(prev => prev.map(status =>
+            status.fileId === fileId && status.status !== 'error' ? { ...status, ...updates } : status
+          ));
+        };
+
+        setIngestionStatus(documents.map(doc => ({
+          fileId: doc.id,
+          fileName: doc.name,
+          status: 'pending',
+          chunks: 0,
+          concepts: [],
+        })));
+
+        // 1. Make sure every document is chunked and indexed
+        setGenerationStep('ingesting');
+        for (const doc of documents) {
+          if (!doc.file) continue;
+          updateStatus(doc.id, { status: 'indexing' });
+          try {
+            const result = await ensureIngested(doc.file);
+            updateStatus(doc.id, result.success
+              ? { status: 'extracting', chunks: result.chunksCreated }
+              : { status: 'error', error: result.error });
+          } catch (e) {
+            // The episode goes on without this document
+            console.warn(`Failed to index ${doc.name}:`, e);
+            updateStatus(doc.id, { status: 'error', error: e instanceof Error ? e.message : 'Indexing failed' });
+          }
+        }
+
+        // 2. Pull out the key concepts of each document
+        setGenerationStep('extracting');
+        documents.forEach(doc => updateStatus(doc.id, { status: 'extracting' }));
+        // Let the step render before the (synchronous) extraction runs
+        await new Promise(r => setTimeout(r, 0));
+
+        const conceptsById = extractConceptsByDocument(documents.map(doc => ({ id: doc.id, text: doc.text })));
+        documents.forEach(doc => updateStatus(doc.id, {
+          status: 'done',
+          concepts: (conceptsById.get(doc.id) || []).map(concept => concept.phrase),
+        }));
+
+        // Interleave by rank so every document's top concepts come first
+        const ranked = documents.map(doc => conceptsById.get(doc.id) || []);
+        const depth = Math.max(0, ...ranked.map(list => list.length));
+        for (let rank = 0; rank < depth; rank++) {
+          ranked.forEach(list => { if (list[rank]) concepts.push(list[rank].phrase); });
+        }
+        concepts = Array.from(new Set(concepts));
+      } else {
+        setIngestionStatus([]);
+      }
+
+      // 3. Plan the episode and assign segments to hosts
+      setGenerationStep('assigning');
+
+      let ragChunks: RagChunk[] = [];
+      if (ragFiles.length > 0) {
+        try {
+          ragChunks = (await retrieve(prompt, ragFiles, 5)).chunks;
+        } catch (e) {
+          console.warn('Outline retrieval failed:', e);
+        }
+      }
+
+      const episodeOutline = await generateOutline({ topic: prompt, hosts, settings, concepts, ragChunks });
+      setOutline(episodeOutline);
+      setGenerationStep('outline');
+
+      if (!reviewOutline) {
+        await startEpisode(episodeOutline);
+      }
+    } catch (e) {
+      // Nothing is left spinning: unfinished documents fail and the studio is usable again
+      console.error('Episode preparation failed:', e);
+      const message = e instanceof Error ? e.message : 'Something went wrong';
+      setIngestionStatus(prev => prev.map(status =>
+        status.status === 'done' || status.status === 'error' ? status : { ...status, status: 'error', error: message }
+      ));
+      setOutline(null);
+      setGenerationStep('idle');
+      toast.error(`Could not prepare the episode: ${message}`);
+    }
+  }, [prompt, hosts, settings, ragFiles, classroomContext, startEpisode]);
+
+  // Starts the episode with the (possibly edited) outline
+  const goLive = useCallback(async () => {
+    await startEpisode(outline);
+  }, [outline, startEpisode]);
 
   const exitPlaybackMode = useCallback(() => {
     setIsPlaybackMode(false);
@@ -234,6 +395,7 @@ export function usePodcastStore() {
 
   const resetGeneration = useCallback(() => {
     setGenerationStep('idle');
+    setOutline(null);
     setSpeakingHostId(null);
   }, []);
 
@@ -244,6 +406,8 @@ export function usePodcastStore() {
     ragFiles,
     currentPodcast,
     generationStep,
+    ingestionStatus,
+    outline,
     prompt,
     speakingHostId,
     isPlaybackMode,
@@ -258,6 +422,8 @@ export function usePodcastStore() {
     addRagFile,
     removeRagFile,
     generate,
+    setOutline,
+    goLive,
     resetGeneration,
     exitPlaybackMode,
     enterViralClipsMode,
@@ -1,14 +1,13 @@
 /**
  * useSpeechToText Hook
  * 
- * Records audio from the user's microphone and transcribes it using
- * ElevenLabs Speech-to-Text API.
+ * Records audio from the user's microphone and transcribes it with
+ * ElevenLabs Speech-to-Text, through the speech-to-text edge function.
  */
 
 import { useState, useRef, useCallback } from 'react';
-
-const ELEVENLABS_API_KEY = import.meta.env.VITE_ELEVENLABS_API_KEY;
-const ELEVENLABS_STT_URL = 'https://api.elevenlabs.io/v1/speech-to-text';
+import { MOCK_MODE, mockTranscribe } from '@/lib/mocks';
+import { transcribeRecording } from '@/lib/speechGateway';
 
 export interface UseSpeechToTextResult {
     /** Whether currently recording audio */
@@ -117,7 +116,7 @@ export function useSpeechToText(): UseSpeechToTextResult {
                         throw new Error('Recording too short. Please speak for longer.');
                     }
 
-                    // Send to ElevenLabs STT API
+                    // Send to the speech-to-text function
                     const transcribedText = await transcribeAudio(audioBlob);
 
                     setTranscript(transcribedText);
@@ -154,15 +153,13 @@ export function useSpeechToText(): UseSpeechToTextResult {
 }
 
 /**
- * Transcribe audio blob using ElevenLabs STT API
+ * Transcribe audio blob using ElevenLabs STT (via the speech-to-text function)
  */
 async function transcribeAudio(audioBlob: Blob): Promise<string> {
-    if (!ELEVENLABS_API_KEY) {
-        throw new Error('ElevenLabs API key not configured');
+    if (MOCK_MODE) {
+        return mockTranscribe(audioBlob);
     }
 
-    const formData = new FormData();
-
     // Determine file extension from mime type
     const mimeType = audioBlob.type;
     let extension = 'webm';
@@ -170,32 +167,5 @@ async function transcribeAudio(audioBlob: Blob): Promise<string> {
     else if (mimeType.includes('wav')) extension = 'wav';
     else if (mimeType.includes('webm')) extension = 'webm';
 
-    formData.append('file', audioBlob, `recording.${extension}`);
-    formData.append('model_id', 'scribe_v2');
-
-    const response = await fetch(ELEVENLABS_STT_URL, {
-        method: 'POST',
-        headers: {
-            'xi-api-key': ELEVENLABS_API_KEY,
-        },
-        body: formData,
-    });
-
-    if (!response.ok) {
-        const errorText = await response.text();
-        console.error('[STT] API error:', response.status, errorText);
-        throw new Error(`Transcription failed: ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    // Handle different response formats
-    if (typeof data.text === 'string') {
-        return data.text.trim();
-    } else if (data.transcription) {
-        return data.transcription.trim();
-    } else {
-        console.warn('[STT] Unexpected response format:', data);
-        return JSON.stringify(data);
-    }
+    return transcribeRecording(audioBlob, `recording.${extension}`);
 }
@@ -1,4 +1,5 @@
 import { useState, useCallback, useRef } from 'react';
+import { speechGatewayHeaders } from '@/lib/speechGateway';
 
 interface TTSCache {
   [key: string]: string; // text hash -> audio data URL
@@ -12,7 +13,6 @@ interface TTSState {
 }
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
-const SUPABASE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
 
 // Max concurrent requests to avoid 429 errors
 const MAX_CONCURRENT_REQUESTS = 2;
@@ -87,9 +87,8 @@ export function useTTS() {
             {
               method: "POST",
               headers: {
+                ...(await speechGatewayHeaders()),
                 "Content-Type": "application/json",
-                apikey: SUPABASE_KEY,
-                Authorization: `Bearer ${SUPABASE_KEY}`,
               },
               body: JSON.stringify({ 
                 text, 
@@ -0,0 +1,136 @@
+/**
+ * useVoiceLibrary Hook
+ *
+ * Searches the ElevenLabs voice library (through the elevenlabs-voices edge
+ * function, or the mock library) as the filters change, pages through the
+ * results and plays one voice's preview clip at a time.
+ */
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { MOCK_MODE, mockVoiceLibrary } from '@/lib/mocks';
+import { LibraryVoice, VoiceLibraryFilters, searchVoiceLibrary } from '@/lib/speechGateway';
+
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+export type VoiceLibrarySearch = Omit<VoiceLibraryFilters, 'page'>;
+
+export interface UseVoiceLibraryResult {
+  voices: LibraryVoice[];
+  isLoading: boolean;
+  error: string | null;
+  hasMore: boolean;
+  /** Fetches the next page onto the end of the list */
+  loadMore: () => void;
+  /** Voice whose preview is playing */
+  previewingId: string | null;
+  /** Plays the voice's preview, or stops it if it is already playing */
+  togglePreview: (voice: LibraryVoice) => void;
+  stopPreview: () => void;
+}
+
+function fetchPage(filters: VoiceLibraryFilters, signal: AbortSignal) {
+  return MOCK_MODE ? mockVoiceLibrary(filters) : searchVoiceLibrary(filters, signal);
+}
+
+export function useVoiceLibrary(search: VoiceLibrarySearch, enabled = true): UseVoiceLibraryResult {
+  const [voices, setVoices] = useState<LibraryVoice[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
+
+  const pageRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const { search: text, gender, age, accent } = search;
+
+  const load = useCallback(async (page: number) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await fetchPage({ search: text, gender, age, accent, page }, controller.signal);
+      if (controller.signal.aborted) return;
+
+      pageRef.current = page;
+      setVoices(prev => page === 0 ? result.voices : [...prev, ...result.voices]);
+      setHasMore(result.hasMore);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('[VoiceLibrary] Search failed:', err);
+      setError((err as Error).message || 'Failed to load voices');
+    } finally {
+      if (!controller.signal.aborted) setIsLoading(false);
+    }
+  }, [text, gender, age, accent]);
+
+  // New filters start again from the first page
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = setTimeout(() => load(0), SEARCH_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      abortRef.current?.abort();
+    };
+  }, [enabled, load]);
+
+  const loadMore = useCallback(() => {
+    if (isLoading || !hasMore) return;
+    load(pageRef.current + 1);
+  }, [isLoading, hasMore, load]);
+
+  const stopPreview = useCallback(() => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    setPreviewingId(null);
+  }, []);
+
+  const togglePreview = useCallback((voice: LibraryVoice) => {
+    const wasPlaying = audioRef.current && previewingId === voice.voiceId;
+    stopPreview();
+    if (wasPlaying || !voice.previewUrl) return;
+
+    const audio = new Audio(voice.previewUrl);
+    audioRef.current = audio;
+    setPreviewingId(voice.voiceId);
+
+    const finish = () => {
+      if (audioRef.current !== audio) return;
+      audioRef.current = null;
+      setPreviewingId(null);
+    };
+    audio.onended = finish;
+    audio.onerror = finish;
+    audio.play().catch(err => {
+      console.warn('[VoiceLibrary] Preview failed:', err);
+      finish();
+    });
+  }, [previewingId, stopPreview]);
+
+  // Closing the browser stops the preview
+  useEffect(() => {
+    if (!enabled) stopPreview();
+  }, [enabled, stopPreview]);
+
+  useEffect(() => () => {
+    audioRef.current?.pause();
+    abortRef.current?.abort();
+  }, []);
+
+  return {
+    voices,
+    isLoading,
+    error,
+    hasMore,
+    loadMore,
+    previewingId,
+    togglePreview,
+    stopPreview,
+  };
+}
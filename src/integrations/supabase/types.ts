@@ -14,14 +14,117 @@ export type Database = {
   }
   public: {
     Tables: {
+      backboard_resources: {
+        Row: {
+          assistant_id: string | null
+          created_at: string
+          id: string
+          kind: string
+          user_id: string
+        }
+        Insert: {
+          assistant_id?: string | null
+          created_at?: string
+          id: string
+          kind: string
+          user_id: string
+        }
+        Update: {
+          assistant_id?: string | null
+          created_at?: string
+          id?: string
+          kind?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      backboard_usage: {
+        Row: {
+          created_at: string
+          endpoint: string
+          id: number
+          tokens: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          endpoint: string
+          id?: never
+          tokens?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          endpoint?: string
+          id?: never
+          tokens?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      document_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          embedding: string
+          file_id: string
+          file_name: string
+          id: string
+          page: number | null
+          section_kind: string
+          session_id: string | null
+          storage_path: string | null
+          user_id: string
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          embedding: string
+          file_id: string
+          file_name: string
+          id?: string
+          page?: number | null
+          section_kind?: string
+          session_id?: string | null
+          storage_path?: string | null
+          user_id: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          embedding?: string
+          file_id?: string
+          file_name?: string
+          id?: string
+          page?: number | null
+          section_kind?: string
+          session_id?: string | null
+          storage_path?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_chunks_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "podcast_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       podcast_sessions: {
         Row: {
           backboard_assistant_id: string | null
+          backboard_seats: Json | null
           backboard_thread_id: string | null
           created_at: string
           documents: Json | null
           hosts: Json
           id: string
+          outline: Json | null
           prompt: string
           settings: Json
           title: string | null
@@ -31,11 +134,13 @@ export type Database = {
         }
         Insert: {
           backboard_assistant_id?: string | null
+          backboard_seats?: Json | null
           backboard_thread_id?: string | null
           created_at?: string
           documents?: Json | null
           hosts?: Json
           id?: string
+          outline?: Json | null
           prompt: string
           settings?: Json
           title?: string | null
@@ -45,11 +150,13 @@ export type Database = {
         }
         Update: {
           backboard_assistant_id?: string | null
+          backboard_seats?: Json | null
           backboard_thread_id?: string | null
           created_at?: string
           documents?: Json | null
           hosts?: Json
           id?: string
+          outline?: Json | null
           prompt?: string
           settings?: Json
           title?: string | null
@@ -157,6 +264,31 @@ export type Database = {
           teacher_name: string
         }[]
       }
+      match_document_chunks: {
+        Args: {
+          filter_file_ids?: string[]
+          filter_session_id?: string
+          match_count?: number
+          query_embedding: string
+        }
+        Returns: {
+          chunk_index: number
+          content: string
+          file_id: string
+          file_name: string
+          id: string
+          page: number
+          section_kind: string
+          similarity: number
+        }[]
+      }
+      replace_document_chunks: {
+        Args: {
+          chunks: Json
+          target_file_id: string
+        }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,22 +1,20 @@
 /**
  * Audio Streaming Service
- * Handles real-time TTS using ElevenLabs streaming API
+ * Handles real-time TTS using ElevenLabs streaming API through the
+ * elevenlabs-tts edge function (synthetic audio in mock mode, see mocks.ts),
+ * played gaplessly on the shared playback engine
  */
 
-const ELEVENLABS_API_KEY = import.meta.env.VITE_ELEVENLABS_API_KEY;
-const ELEVENLABS_BASE_URL = 'https://api.elevenlabs.io/v1';
-
-// Voice ID mapping from internal IDs to ElevenLabs voice IDs
-const VOICE_ID_MAP: Record<string, string> = {
-  'male-deep': 'pNInz6obpgDQGcFmaJgB', // Adam
-  'male-calm': 'VR6AewLTigWG4xSOukaG', // Arnold
-  'male-energetic': 'ErXwobaYiN019PkySvjV', // Antoni
-  'female-warm': 'EXAVITQu4vr4xnSDxMaL', // Bella
-  'female-energetic': 'MF3mGyEYCl7XYWbV9V6O', // Elli
-  'female-professional': 'jBpfuIE2acCO8z3wKNLl', // Gigi
-  'british-crisp': 'onwK4e9ZLuTAKqWW03F9', // Daniel
-  'british-warm': 'g5CIjZEefAph4nQFvHAz', // Ethan
-};
+import { MOCK_MODE, mockSpeechResponse } from './mocks';
+import { getPlaybackEngine, ScheduledClip } from './playbackEngine';
+import { requestSpeechStream } from './speechGateway';
+import { resolveVoiceId } from './voices';
+
+// Streamed speech is requested as raw PCM at this rate so it can be played while downloading
+export const PCM_SAMPLE_RATE = 24000;
+// Smallest piece of streamed audio queued on its own
+const MIN_CHUNK_SECONDS = 0.1;
+const WAV_HEADER_BYTES = 44;
 
 export interface AudioStreamOptions {
   voiceId: string;
@@ -27,131 +25,247 @@ export interface AudioStreamOptions {
 }
 
 export interface AudioStreamController {
+  /** Fetches and decodes the audio without playing it, so play() can start at once */
+  preload: () => Promise<void>;
+  /**
+   * Plays the audio right after whatever is already queued on the playback
+   * engine, starting while it is still downloading. Resolves when it has
+   * finished playing.
+   */
   play: () => Promise<void>;
+  /** Resolves once play() has queued all of the audio - the next clip can be queued behind it */
+  queued: () => Promise<void>;
+  /** Resolves when the first samples start playing */
+  started: () => Promise<void>;
   pause: () => void;
   stop: () => void;
   isPlaying: boolean;
+  /** Seconds of this audio played so far */
+  readonly position: number;
 }
 
 /**
- * Resolves internal voice ID to ElevenLabs voice ID
+ * Requests streamed speech for the text from the TTS gateway: MP3 by default, or
+ * raw 16-bit PCM that can be played chunk by chunk as it arrives
  */
-function resolveVoiceId(voiceId: string): string {
-  // If it's a direct ElevenLabs ID (longer format), use as-is
-  if (voiceId.length > 20) {
-    return voiceId;
+async function requestSpeech(
+  text: string,
+  voiceId: string,
+  signal: AbortSignal,
+  format: 'mp3' | 'pcm' = 'mp3'
+): Promise<Response> {
+  if (MOCK_MODE) {
+    return mockSpeechResponse(text, voiceId);
   }
-  return VOICE_ID_MAP[voiceId] || VOICE_ID_MAP['male-calm'];
+
+  return requestSpeechStream(text, resolveVoiceId(voiceId), format, signal);
 }
 
 /**
- * Creates a streaming audio player from ElevenLabs TTS
- * @param text - Text to synthesize
- * @param voiceId - Voice ID (internal or ElevenLabs)
- * @param onEnd - Callback when audio finishes playing
- * @returns Controller object with play/pause/stop methods
+ * Converts little-endian 16-bit PCM to samples in [-1, 1)
  */
-export function streamAudio(text: string, voiceId: string, onEnd?: () => void): AudioStreamController {
-  let audioContext: AudioContext | null = null;
-  let sourceNode: AudioBufferSourceNode | null = null;
-  let isPlaying = false;
-  let abortController: AbortController | null = null;
+export function decodePcm16(bytes: Uint8Array): Float32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length - (bytes.length % 2));
+  const samples = new Float32Array(view.byteLength / 2);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true) / 0x8000;
+  }
+  return samples;
+}
 
-  const controller: AudioStreamController = {
-    isPlaying: false,
+/**
+ * Reads a PCM speech response as it downloads, in pieces of at least
+ * MIN_CHUNK_SECONDS. WAV responses (mock speech) are read the same way
+ * after their header.
+ */
+async function* readPcmChunks(response: Response): AsyncGenerator<{ samples: Float32Array; sampleRate: number }> {
+  const reader = response.body!.getReader();
+  let sampleRate = PCM_SAMPLE_RATE;
+  let pending = new Uint8Array(0);
+  let headerChecked = false;
+
+  const take = (final: boolean) => {
+    // 16-bit samples: an odd trailing byte waits for the next chunk
+    const usable = pending.length - (pending.length % 2);
+    if (usable === 0 || (!final && usable / 2 < sampleRate * MIN_CHUNK_SECONDS)) return null;
+
+    const samples = decodePcm16(pending.subarray(0, usable));
+    pending = pending.slice(usable);
+    return { samples, sampleRate };
+  };
 
-    play(): Promise<void> {
-      if (!ELEVENLABS_API_KEY) {
-        return Promise.reject(new Error('VITE_ELEVENLABS_API_KEY is not configured'));
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (value) {
+        const joined = new Uint8Array(pending.length + value.length);
+        joined.set(pending);
+        joined.set(value, pending.length);
+        pending = joined;
       }
 
-      return new Promise<void>(async (resolve, reject) => {
-        const elevenLabsVoiceId = resolveVoiceId(voiceId);
-        abortController = new AbortController();
+      // Canonical 44-byte WAV header: sample rate at byte 24
+      if (!headerChecked && (pending.length >= WAV_HEADER_BYTES || done)) {
+        headerChecked = true;
+        const isWav = pending.length >= WAV_HEADER_BYTES && String.fromCharCode(...pending.subarray(0, 4)) === 'RIFF';
+        if (isWav) {
+          sampleRate = new DataView(pending.buffer, pending.byteOffset).getUint32(24, true);
+          pending = pending.slice(WAV_HEADER_BYTES);
+        }
+      }
 
+      const chunk = headerChecked ? take(done) : null;
+      if (chunk) yield chunk;
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Creates a streaming audio player from ElevenLabs TTS, playing on the shared
+ * playback engine (see playbackEngine.ts)
+ * @param text - Text to synthesize
+ * @param voiceId - Voice ID (internal or ElevenLabs)
+ * @param onEnd - Callback when audio finishes playing
+ * @returns Controller object with preload/play/pause/stop methods
+ */
+export function streamAudio(text: string, voiceId: string, onEnd?: () => void): AudioStreamController {
+  const engine = getPlaybackEngine();
+  const abortController = new AbortController();
+  // Decoded audio waiting for play() to queue it
+  const pending: AudioBuffer[] = [];
+  const clips: ScheduledClip[] = [];
+  let loading: Promise<void> | null = null;
+  let playing: Promise<void> | null = null;
+  let downloaded = false;
+  let stopped = false;
+  let wake: (() => void) | null = null;
+
+  let resolveQueued: () => void = () => {};
+  let rejectQueued: (error: unknown) => void = () => {};
+  const queued = new Promise<void>((resolve, reject) => {
+    resolveQueued = resolve;
+    rejectQueued = reject;
+  });
+  queued.catch(() => {
+    // Reported by play()
+  });
+
+  let resolveStarted: () => void = () => {};
+  const started = new Promise<void>(resolve => { resolveStarted = resolve; });
+
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  // Fetches and decodes once, whether preload() or play() asks first
+  const load = (): Promise<void> => {
+    if (!loading) {
+      loading = (async () => {
         try {
-          const response = await fetch(
-            `${ELEVENLABS_BASE_URL}/text-to-speech/${elevenLabsVoiceId}/stream?optimize_streaming_latency=3`,
-            {
-              method: 'POST',
-              headers: {
-                'xi-api-key': ELEVENLABS_API_KEY,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                text,
-                model_id: 'eleven_turbo_v2_5',
-                voice_settings: {
-                  stability: 0.5,
-                  similarity_boost: 0.75,
-                },
-              }),
-              signal: abortController.signal,
-            }
-          );
+          const response = await requestSpeech(text, voiceId, abortController.signal, 'pcm');
 
           if (!response.ok) {
             throw new Error(`ElevenLabs API error: ${response.status}`);
           }
 
-          const arrayBuffer = await response.arrayBuffer();
+          for await (const { samples, sampleRate } of readPcmChunks(response)) {
+            if (stopped) return;
+            pending.push(engine.createBuffer(samples, sampleRate));
+            notify();
+          }
+        } finally {
+          downloaded = true;
+          notify();
+        }
+      })();
+    }
+    return loading;
+  };
+
+  const controller: AudioStreamController = {
+    isPlaying: false,
+
+    get position(): number {
+      return clips.reduce((played, clip) => {
+        const duration = clip.endTime - clip.startTime;
+        return played + Math.min(duration, Math.max(0, engine.currentTime - clip.startTime));
+      }, 0);
+    },
+
+    preload(): Promise<void> {
+      return load();
+    },
 
-          audioContext = new AudioContext();
-          const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+    play(): Promise<void> {
+      if (!playing) {
+        playing = (async () => {
+          const loaded = load();
+          try {
+            // Queue each piece as soon as it is decoded
+            while (!stopped) {
+              const buffer = pending.shift();
+              if (buffer) {
+                const clip = engine.schedule(buffer);
+                if (clips.length === 0) clip.started.then(resolveStarted);
+                clips.push(clip);
+                controller.isPlaying = true;
+                continue;
+              }
+              if (downloaded) break;
+              await new Promise<void>(resolve => { wake = resolve; });
+            }
 
-          sourceNode = audioContext.createBufferSource();
-          sourceNode.buffer = audioBuffer;
-          sourceNode.connect(audioContext.destination);
+            await loaded;
+            resolveQueued();
 
-          sourceNode.onended = () => {
-            isPlaying = false;
+            await clips[clips.length - 1]?.ended;
+            controller.isPlaying = false;
+            if (!stopped) {
+              // Call the onEnd callback when audio finishes
+              onEnd?.();
+            }
+          } catch (error) {
             controller.isPlaying = false;
-            // Call the onEnd callback when audio finishes
-            onEnd?.();
-            resolve(); // Now we resolve the promise!
-          };
-
-          sourceNode.start();
-          isPlaying = true;
-          controller.isPlaying = true;
-        } catch (error) {
-          if ((error as Error).name === 'AbortError') {
-            resolve(); // Treated as success (stop requested)
-            return;
+            if (stopped || (error as Error).name === 'AbortError') {
+              resolveQueued();
+              return; // Treated as success (stop requested)
+            }
+            rejectQueued(error);
+            throw error;
           }
-          reject(error);
-        }
-      });
+        })();
+      }
+      return playing;
     },
 
+    queued: () => queued,
+
+    started: () => started,
+
     pause() {
-      if (audioContext && isPlaying) {
-        audioContext.suspend();
-        isPlaying = false;
+      if (controller.isPlaying) {
+        engine.pause();
         controller.isPlaying = false;
       }
     },
 
     stop() {
+      stopped = true;
+
       // Abort any pending fetch
-      abortController?.abort();
+      abortController.abort();
 
       // Stop audio immediately
-      if (sourceNode) {
-        try {
-          sourceNode.stop();
-        } catch {
-          // Already stopped
-        }
-        sourceNode = null;
-      }
-
-      if (audioContext) {
-        audioContext.close();
-        audioContext = null;
-      }
+      for (const clip of clips) clip.stop();
+      pending.length = 0;
 
-      isPlaying = false;
+      notify();
+      resolveQueued();
+      resolveStarted();
       controller.isPlaying = false;
     },
   };
@@ -160,60 +274,105 @@ export function streamAudio(text: string, voiceId: string, onEnd?: () => void):
 }
 
 /**
- * Creates a MediaSource-based streaming player for low-latency playback
- * This is more suitable for true streaming but requires browser support
+ * Appends one chunk to a SourceBuffer, resolving once it has been taken in
+ */
+function appendChunk(sourceBuffer: SourceBuffer, chunk: Uint8Array): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onUpdateEnd = () => {
+      sourceBuffer.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      sourceBuffer.removeEventListener('updateend', onUpdateEnd);
+      reject(new Error('Could not append audio to the media source'));
+    };
+    sourceBuffer.addEventListener('updateend', onUpdateEnd, { once: true });
+    sourceBuffer.addEventListener('error', onError, { once: true });
+    sourceBuffer.appendBuffer(chunk);
+  });
+}
+
+/**
+ * Creates a MediaSource-based streaming player for low-latency playback:
+ * MP3 chunks are appended as they arrive from the /stream endpoint and the
+ * element starts playing after the first one. Where MediaSource can't play
+ * MP3 (iOS Safari) or the response isn't MP3 (mock speech) the whole
+ * response is played from a blob URL instead.
+ * Resolves once playback has started.
  */
 export async function streamAudioToElement(
   text: string,
   voiceId: string,
   audioElement: HTMLAudioElement
 ): Promise<{ stop: () => void }> {
-  if (!ELEVENLABS_API_KEY) {
-    throw new Error('VITE_ELEVENLABS_API_KEY is not configured');
-  }
-
-  const elevenLabsVoiceId = resolveVoiceId(voiceId);
   const abortController = new AbortController();
 
-  const response = await fetch(
-    `${ELEVENLABS_BASE_URL}/text-to-speech/${elevenLabsVoiceId}/stream?optimize_streaming_latency=3`,
-    {
-      method: 'POST',
-      headers: {
-        'xi-api-key': ELEVENLABS_API_KEY,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        text,
-        model_id: 'eleven_turbo_v2_5',
-        voice_settings: {
-          stability: 0.5,
-          similarity_boost: 0.75,
-        },
-      }),
-      signal: abortController.signal,
-    }
-  );
+  const response = await requestSpeech(text, voiceId, abortController.signal);
 
   if (!response.ok) {
     throw new Error(`ElevenLabs streaming error: ${response.status}`);
   }
 
-  // For streaming, we use blob URL
-  const blob = await response.blob();
-  const url = URL.createObjectURL(blob);
+  const contentType = response.headers.get('Content-Type') || 'audio/mpeg';
+  const canStream = typeof MediaSource !== 'undefined'
+    && MediaSource.isTypeSupported('audio/mpeg')
+    && contentType.startsWith('audio/mpeg')
+    && !!response.body;
+
+  let url: string;
+
+  const stop = () => {
+    abortController.abort();
+    audioElement.pause();
+    audioElement.removeAttribute('src');
+    audioElement.load();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!canStream) {
+    const blob = await response.blob();
+    url = URL.createObjectURL(blob);
+    audioElement.src = url;
+    await audioElement.play();
+    return { stop };
+  }
 
+  const mediaSource = new MediaSource();
+  url = URL.createObjectURL(mediaSource);
   audioElement.src = url;
+
+  await new Promise<void>(resolve => {
+    mediaSource.addEventListener('sourceopen', () => resolve(), { once: true });
+  });
+
+  const sourceBuffer = mediaSource.addSourceBuffer('audio/mpeg');
+  const reader = response.body!.getReader();
+
+  const first = await reader.read();
+  if (first.done || !first.value) {
+    mediaSource.endOfStream();
+    return { stop };
+  }
+  await appendChunk(sourceBuffer, first.value);
   await audioElement.play();
 
-  return {
-    stop: () => {
-      abortController.abort();
-      audioElement.pause();
-      audioElement.src = '';
-      URL.revokeObjectURL(url);
-    },
-  };
+  // The rest is appended while the start is already playing
+  (async () => {
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (value) await appendChunk(sourceBuffer, value);
+      }
+      if (mediaSource.readyState === 'open') mediaSource.endOfStream();
+    } catch (error) {
+      if ((error as Error).name === 'AbortError' || abortController.signal.aborted) return;
+      console.error('[AudioStream] Streaming to element failed:', error);
+      if (mediaSource.readyState === 'open') mediaSource.endOfStream('network');
+    }
+  })();
+
+  return { stop };
 }
 
 /**
@@ -1,17 +1,50 @@
 import { supabase } from '@/integrations/supabase/client';
+import { ClaimCheck, HostConfig, RagChunk } from '@/types/podcast';
+import { TranscriptLine, TurnContext } from './dialogue/types';
+import {
+  buildSystemPrompt,
+  buildTurnInstructions,
+  buildInterruptionWithContext,
+  buildCorrectionPrompt,
+} from './dialogue/prompts';
+
+export type { TranscriptLine, TurnContext } from './dialogue/types';
 
 // Types representing Backboard Resources
+export type SessionHost = Pick<HostConfig, 'id' | 'name' | 'role' | 'personality'>;
+
+/** The signed-in user is taken from the request's JWT by backboard-proxy */
 export interface SessionConfig {
-  userId: string;
   systemPrompt: string;
   initialContext: string;
-  hostName: string;
-  hostRole: string;
-  hostPersonality: string;
-  coHosts?: Array<{ name: string; role: string; personality: string }>;
+  /** Every host gets their own assistant; the first one opens the show */
+  hosts: SessionHost[];
   ragContext?: string;
 }
 
+/** A host's own assistant (persona + memory) and the thread it speaks on */
+export interface HostSeat {
+  hostId: string;
+  hostName: string;
+  assistantId: string;
+  threadId: string;
+  /** How much of the shared transcript has been relayed to this thread */
+  heardLines: number;
+}
+
+/** What is stored on podcast_sessions.backboard_seats to reopen a session */
+export type SavedSeat = Omit<HostSeat, 'heardLines'>;
+
+/**
+ * A live podcast: one seat per host plus the transcript they share. Each
+ * host's thread only holds their own turns, so whatever the others said since
+ * is relayed with the host's next turn instructions.
+ */
+export interface PodcastSession {
+  seats: Record<string, HostSeat>;
+  transcript: TranscriptLine[];
+}
+
 export interface TurnResult {
   text: string;
   messageId: string;
@@ -37,8 +70,10 @@ export interface Message {
 export class BackboardError extends Error {
   constructor(
     message: string,
-    public code: 'API_ERROR' | 'NETWORK_ERROR' | 'AUTH_ERROR' | 'PROXY_ERROR',
-    public details?: any
+    public code: 'API_ERROR' | 'NETWORK_ERROR' | 'AUTH_ERROR' | 'PROXY_ERROR' | 'RATE_LIMITED',
+    public details?: any,
+    /** Seconds to wait before trying again (RATE_LIMITED) */
+    public retryAfter?: number
   ) {
     super(message);
     this.name = 'BackboardError';
@@ -46,84 +81,22 @@ export class BackboardError extends Error {
 }
 
 // ------------------------------------------------------------------
-// HELPER FUNCTIONS (Prompt Builders)
+// API CLIENT
 // ------------------------------------------------------------------
 
-function buildSystemPrompt(config: {
-  hostName: string;
-  hostRole: string;
-  hostPersonality: string;
-  coHosts?: Array<{ name: string; role: string; personality: string }>;
-  ragContext?: string;
-  basePrompt: string;
-}): string {
-  // Build co-host info string
-  const coHostInfo = config.coHosts && config.coHosts.length > 0
-    ? `\n\nYOUR CO-HOSTS:\n${config.coHosts.map(h => `- ${h.name}: ${h.role} (${h.personality})`).join('\n')}`
-    : '';
-
-  let prompt = `You are a podcast host named ${config.hostName}.
-Role: ${config.hostRole}
-Personality: ${config.hostPersonality}
-${coHostInfo}
-
-CORE GUIDELINES:
-- Speak naturally, like a human podcaster.
-- Use ahs, ums, and pauses occasionally to sound authentic.
-- Be engaging, energetic, and inquisitive.
-- Never mention you are an AI.
-- Keep responses relatively short (2-4 sentences) to allow for back-and-forth, unless explaining a complex topic.
-- Do NOT address your co-hosts by name. Just continue the conversation naturally without saying their names.
-- DO NOT prefix your dialogue with your name or any speaker label (e.g., don't write "Alex: Hello", just write "Hello").
-- Output ONLY your spoken dialogue, nothing else.
-
-${config.ragContext ? `\nCONTEXT DOCUMENTS:\n${config.ragContext}\n` : ''}
-
-${config.basePrompt}`;
-
-  return prompt;
-}
-
-function buildTurnInstructions(): string {
-  return `Generate the next segment of the podcast dialogue.
-  
-CRITICAL REQUIREMENTS:
-- Output ONLY 2-3 sentences (approximately 50 words maximum)
-- Write as natural spoken dialogue
-- End at a natural pause point
-- Do NOT include speaker names or labels (e.g., "Alex:" or "Host 1:") - output only the spoken words
-- Do NOT include any meta-commentary or stage directions`;
-}
-
-function buildInterruptionWithContext(
-  userInput: string,
-  spokenHistory: string,
-  unspokenTranscript: string
-): string {
-  return `[INTERRUPTION SENT BY USER]
-  
-The user just interrupted the podcast.
-
-CONTEXT SO FAR (Spoken):
-"...${spokenHistory.slice(-500)}"
-
-CONTEXT THAT WAS CUT OFF (Do NOT repeat this verbatim, but summarize if needed):
-"${unspokenTranscript}"
-
-USER SAID:
-"${userInput}"
-
-INSTRUCTIONS:
-1. Acknowledge the user's input/question naturally.
-2. Answer it briefly or weave it into the discussion.
-3. Transition back to the main topic if appropriate.
-4. Keep the response conversational and spoken-style.`;
+/**
+ * Maps a backboard-proxy rejection (sign-in, allow-list, quota) to a BackboardError.
+ */
+function proxyError(status: number | undefined, message: string, details?: unknown, retryAfter?: number): BackboardError {
+  if (status === 401 || status === 403) {
+    return new BackboardError(`Not allowed to use the podcast service: ${message}`, 'AUTH_ERROR', details);
+  }
+  if (status === 429) {
+    return new BackboardError(`Usage limit reached: ${message}`, 'RATE_LIMITED', details, retryAfter);
+  }
+  return new BackboardError(`Proxy request failed: ${message}`, 'PROXY_ERROR', details);
 }
 
-// ------------------------------------------------------------------
-// API CLIENT
-// ------------------------------------------------------------------
-
 const BACKBOARD_API_KEY = import.meta.env.VITE_BACKBOARD_API_KEY;
 
 /**
@@ -197,25 +170,22 @@ async function backboardFetch<T>(endpoint: string, options: RequestInit = {}): P
     // -----------------------------------------------------------------------
     // PRODUCTION STRATEGY (Edge Function)
     // -----------------------------------------------------------------------
-    // TODO: The Edge Function currently only expects JSON bodies. 
-    // If Backboard REQUIRES multipart/form-data for messages, we will need to 
-    // update the Edge Function to handle that before going to production.
-    // For now, this path might fail for /messages calls if JSON isn't accepted.
-
-    // Convert FormData to JSON for the proxy if possible, or warn
-    let body = options.body;
+    // Message bodies go to the proxy as multipart (endpoint/method as extra
+    // fields), everything else as JSON
+    const body = options.body;
+    let payload: FormData | { endpoint: string; method: string; body?: unknown };
     if (body instanceof FormData) {
-      const obj: any = {};
-      body.forEach((value, key) => obj[key] = value);
-      body = JSON.stringify(obj);
+      body.append('endpoint', endpoint);
+      body.append('method', options.method || 'POST');
+      payload = body;
+    } else {
+      payload = {
+        endpoint,
+        method: options.method || 'GET',
+        body: typeof body === 'string' ? JSON.parse(body) : undefined
+      };
     }
 
-    const payload = {
-      endpoint,
-      method: options.method || 'GET',
-      body: body ? (typeof body === 'string' ? JSON.parse(body) : body) : undefined
-    };
-
     try {
       const { data, error } = await supabase.functions.invoke('backboard-proxy', {
         body: payload
@@ -223,11 +193,9 @@ async function backboardFetch<T>(endpoint: string, options: RequestInit = {}): P
 
       if (error) {
         console.error(`[Backboard Prod] Proxy Error:`, error);
-        throw new BackboardError(
-          `Proxy request failed: ${error.message}`,
-          "PROXY_ERROR",
-          error
-        );
+        const response = (error as { context?: Response }).context;
+        const detail = await response?.clone().json().catch(() => null);
+        throw proxyError(response?.status, detail?.error || error.message, error, detail?.retryAfter);
       }
 
       return data as T;
@@ -239,29 +207,30 @@ async function backboardFetch<T>(endpoint: string, options: RequestInit = {}): P
   }
 }
 
-/**
- * Initializes a new podcast session.
- * Flow: Create Assistant -> Create Thread -> Send Initial Context
- */
-export async function initializeSession(config: SessionConfig): Promise<string> {
-  // 1. Build System Prompt
+// The shared transcript relayed with a turn is capped to the most recent lines
+const MAX_HEARD_LINES = 8;
+
+async function createHostSeat(config: SessionConfig, host: SessionHost, index: number): Promise<HostSeat> {
+  // 1. Build this host's System Prompt - the others are their co-hosts
   const enhancedSystemPrompt = buildSystemPrompt({
-    hostName: config.hostName,
-    hostRole: config.hostRole,
-    hostPersonality: config.hostPersonality,
-    coHosts: config.coHosts,
+    hostName: host.name,
+    hostRole: host.role,
+    hostPersonality: host.personality || '',
+    coHosts: config.hosts
+      .filter(h => h.id !== host.id)
+      .map(h => ({ name: h.name, role: h.role, personality: h.personality || '' })),
     ragContext: config.ragContext,
     basePrompt: config.systemPrompt
   });
 
-  console.log("[Backboard] Creating Assistant...");
+  console.log("[Backboard] Creating Assistant for", host.name);
 
   // 2. Create Assistant (JSON is fine for Assistants)
   const assistant = await backboardFetch<Assistant>('/assistants', {
     method: 'POST',
     body: JSON.stringify({
-      name: `Omnicast Host - ${config.hostName || 'Host'}`,
-      description: config.hostRole,
+      name: `Omnicast Host - ${host.name || 'Host'}`,
+      description: host.role,
       system_prompt: enhancedSystemPrompt,
       embedding_provider: "openai",
       embedding_model_name: "text-embedding-3-large",
@@ -269,19 +238,20 @@ export async function initializeSession(config: SessionConfig): Promise<string>
     })
   });
 
-  console.log("[Backboard] Assistant Created:", assistant.assistant_id);
-
   // 3. Create Thread (JSON is fine for Threads)
   const thread = await backboardFetch<Thread>(`/assistants/${assistant.assistant_id}/threads`, {
     method: 'POST',
     body: JSON.stringify({})
   });
 
-  console.log("[Backboard] Thread Created:", thread.thread_id);
+  console.log("[Backboard] Seat ready:", host.name, assistant.assistant_id, thread.thread_id);
 
   // 4. Send Initial Context (MUST USE FORM DATA for Messages)
+  const opening = index === 0
+    ? 'Start by introducing yourself and the topic. Keep it brief and engaging.'
+    : 'Your co-host opens the show. When it is your turn, introduce yourself briefly and join the conversation.';
   const messageData = toFormData({
-    content: `CONTEXT: The user wants to listen to a podcast about: "${config.initialContext}". \n\nStart by introducing yourself and the topic. Keep it brief and engaging.`,
+    content: `CONTEXT: The user wants to listen to a podcast about: "${config.initialContext}". \n\n${opening}`,
     role: 'user',
     send_to_llm: false // Don't generate yet
   });
@@ -291,14 +261,94 @@ export async function initializeSession(config: SessionConfig): Promise<string>
     body: messageData
   });
 
-  return thread.thread_id;
+  return {
+    hostId: host.id,
+    hostName: host.name,
+    assistantId: assistant.assistant_id,
+    threadId: thread.thread_id,
+    heardLines: 0,
+  };
+}
+
+/**
+ * Initializes a new podcast session.
+ * Flow (per host): Create Assistant -> Create Thread -> Send Initial Context
+ */
+export async function initializeSession(config: SessionConfig): Promise<PodcastSession> {
+  if (config.hosts.length === 0) {
+    throw new BackboardError("A session needs at least one host", "API_ERROR");
+  }
+
+  const seats = await Promise.all(config.hosts.map((host, index) => createHostSeat(config, host, index)));
+
+  return {
+    seats: Object.fromEntries(seats.map(seat => [seat.hostId, seat])),
+    transcript: [],
+  };
+}
+
+/**
+ * Reopens a saved session on its existing assistants and threads. Each host's
+ * thread already holds everything up to their last turn, so only what was
+ * said after it is relayed on their next turn.
+ */
+export function resumeSession(seats: SavedSeat[], transcript: TranscriptLine[]): PodcastSession {
+  if (seats.length === 0) {
+    throw new BackboardError("No saved threads to resume", "API_ERROR");
+  }
+
+  console.log("[Backboard] Resuming session:", seats.map(seat => seat.threadId));
+
+  return {
+    seats: Object.fromEntries(seats.map(seat => {
+      const lastSpoke = transcript.map(line => line.speakerId).lastIndexOf(seat.hostId);
+      return [seat.hostId, { ...seat, heardLines: lastSpoke + 1 }];
+    })),
+    transcript: [...transcript],
+  };
+}
+
+/**
+ * Adds a line said on air to the transcript every host shares.
+ */
+export function recordTranscriptLine(session: PodcastSession, line: TranscriptLine): void {
+  session.transcript.push(line);
+}
+
+/**
+ * Hands the turn to a host: returns their thread and what was said since they
+ * last spoke (for TurnContext.heard). Call markRelayed once the request
+ * carrying it has reached the thread, so a failed request relays it again.
+ */
+export function takeTurn(
+  session: PodcastSession,
+  hostId: string
+): { threadId: string; heard: string; markRelayed: () => void } {
+  const seat = session.seats[hostId];
+  if (!seat) {
+    throw new BackboardError(`No assistant for host ${hostId}`, "API_ERROR");
+  }
+
+  const heard = session.transcript
+    .slice(seat.heardLines)
+    .filter(line => line.speakerId !== hostId)
+    .slice(-MAX_HEARD_LINES)
+    .map(line => `${line.speakerName}: ${line.text}`)
+    .join('\n');
+  const heardUpTo = session.transcript.length;
+
+  return {
+    threadId: seat.threadId,
+    heard,
+    markRelayed: () => { seat.heardLines = Math.max(seat.heardLines, heardUpTo); },
+  };
 }
 
 /**
  * Generates the next turn by sending specific instructions as a user message.
  */
-export async function generateNextTurn(threadId: string): Promise<TurnResult> {
-  const instructions = buildTurnInstructions();
+export async function generateNextTurn(threadId: string, context?: TurnContext): Promise<TurnResult> {
+  const instructions = buildTurnInstructions(context);
 
   // Trigger generation via message (MUST USE FORM DATA)
   const formData = toFormData({
@@ -322,13 +372,15 @@ export async function generateNextTurn(threadId: string): Promise<TurnResult> {
 
 /**
  * Generates the next turn with STREAMING support.
+ * Both paths return the raw Backboard event stream (see streamCoordinator).
  */
 export async function generateNextTurnStream(
   threadId: string,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  context?: TurnContext
 ): Promise<ReadableStream<Uint8Array>> {
-  console.log("[Backboard] Starting stream...");
-  const instructions = buildTurnInstructions();
+  console.log("[Backboard] Starting stream...", { ragChunks: context?.ragChunks?.length || 0 });
+  const instructions = buildTurnInstructions(context);
   const isDev = import.meta.env.DEV;
 
   let response: Response;
@@ -361,39 +413,40 @@ export async function generateNextTurnStream(
     });
 
   } else {
-    // PROD: Use Edge Function
-    // This part likely needs refactoring for FormData too, but stuck for now.
+    // PROD: Use Edge Function - it forwards the multipart body and passes
+    // the event stream through unbuffered
     const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
     const functionUrl = `${supabaseUrl}/functions/v1/backboard-proxy`;
     const { data: { session } } = await supabase.auth.getSession();
     const token = session?.access_token || import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-    // TODO: Update Proxy to handle FormData / different payload structure check
-    const proxyBody = {
+    const formData = toFormData({
       endpoint: `/threads/${threadId}/messages`,
       method: 'POST',
-      body: {
-        content: instructions,
-        role: 'user',
-        send_to_llm: true,
-        memory: 'Auto',
-        stream: true
-      }
-    };
+      content: instructions,
+      role: 'user',
+      send_to_llm: true,
+      memory: 'Auto',
+      stream: true
+    });
 
     response = await fetch(functionUrl, {
       method: 'POST',
       headers: {
+        // No Content-Type (FormData sets it)
         "Authorization": `Bearer ${token}`,
-        "Content-Type": "application/json",
       },
-      body: JSON.stringify(proxyBody),
+      body: formData,
       signal
     });
   }
 
   if (!response.ok || !response.body) {
     const errText = await response.text();
+    if (!isDev) {
+      const retryAfter = Number(response.headers.get('Retry-After')) || undefined;
+      throw proxyError(response.status, `failed to start stream (${response.status}) - ${errText}`, undefined, retryAfter);
+    }
     throw new Error(`Failed to start stream: ${response.status} - ${errText}`);
   }
 
@@ -409,7 +462,9 @@ export async function handleInterruption(
   threadId: string,
   spokenHistory: string,
   unspokenTranscript: string,
-  userInput: string
+  userInput: string,
+  ragChunks?: RagChunk[],
+  heard?: string
 ): Promise<TurnResult> {
   console.log("[Backboard] Handling interruption...");
 
@@ -417,7 +472,9 @@ export async function handleInterruption(
   const contextualPrompt = buildInterruptionWithContext(
     userInput,
     spokenHistory,
-    unspokenTranscript
+    unspokenTranscript,
+    ragChunks,
+    heard
   );
 
   // Trigger generation (MUST USE FORM DATA)
@@ -440,11 +497,42 @@ export async function handleInterruption(
   };
 }
 
+/**
+ * Asks the host for an on-air correction of claims the grounding checker flagged.
+ */
+export async function requestCorrectedTurn(
+  threadId: string,
+  turnText: string,
+  flaggedClaims: ClaimCheck[],
+  ragChunks: RagChunk[],
+  heard?: string
+): Promise<TurnResult> {
+  console.log("[Backboard] Requesting correction for", flaggedClaims.length, "claims");
+
+  const formData = toFormData({
+    content: buildCorrectionPrompt(turnText, flaggedClaims, ragChunks, heard),
+    role: 'user',
+    send_to_llm: true,
+    memory: 'Auto'
+  });
+
+  const response = await backboardFetch<Message>(`/threads/${threadId}/messages`, {
+    method: 'POST',
+    body: formData
+  });
+
+  return {
+    text: response.content || "",
+    messageId: response.message_id || `msg_${Date.now()}`,
+    runId: 'implicit'
+  };
+}
+
 /**
  * Ends a session (optional cleanup).
  */
-export async function endSession(threadId: string): Promise<void> {
+export async function endSession(session: PodcastSession): Promise<void> {
   // Backboard cleans up automatically, but we could delete logic here if needed
-  console.log('[Backboard] Session ended:', threadId);
+  console.log('[Backboard] Session ended:', Object.values(session.seats).map(seat => seat.threadId));
   return Promise.resolve();
 }
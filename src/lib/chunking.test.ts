@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { RagFile } from '@/types/podcast';
+import { chunkRagFile, chunkText, estimateTokens, splitIntoSentences } from './chunking';
+
+// A 39-character (10-token) sentence
+function sentence(n: number): string {
+  return `Point ${n} ${'word '.repeat(5)}words.`;
+}
+
+describe('splitIntoSentences', () => {
+  it('does not split after abbreviations or initials', () => {
+    expect(splitIntoSentences('Dr. Smith met J. Doe at the lab, e.g. on Monday. Then they left!')).toEqual([
+      'Dr. Smith met J. Doe at the lab, e.g. on Monday.',
+      'Then they left!',
+    ]);
+  });
+
+  it('ends a sentence at a paragraph break', () => {
+    expect(splitIntoSentences('Results\n\nThe model   converged\nquickly.')).toEqual([
+      'Results',
+      'The model converged quickly.',
+    ]);
+  });
+});
+
+describe('chunkText', () => {
+  it('fills chunks up to maxTokens and repeats trailing sentences as overlap', () => {
+    expect(estimateTokens(sentence(1))).toBe(10);
+    const text = [1, 2, 3, 4, 5].map(sentence).join(' ');
+
+    const chunks = chunkText(text, { maxTokens: 25, overlapTokens: 10 });
+
+    expect(chunks).toEqual([
+      `${sentence(1)} ${sentence(2)}`,
+      `${sentence(2)} ${sentence(3)}`,
+      `${sentence(3)} ${sentence(4)}`,
+      `${sentence(4)} ${sentence(5)}`,
+    ]);
+  });
+
+  it('carries no overlap when the last sentence is bigger than overlapTokens', () => {
+    const text = [1, 2, 3].map(sentence).join(' ');
+
+    expect(chunkText(text, { maxTokens: 25, overlapTokens: 5 })).toEqual([
+      `${sentence(1)} ${sentence(2)}`,
+      sentence(3),
+    ]);
+  });
+
+  it('breaks a sentence longer than a chunk on word boundaries', () => {
+    const chunks = chunkText(`${'lengthy '.repeat(30).trim()}.`, { maxTokens: 10, overlapTokens: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(estimateTokens(chunk)).toBeLessThanOrEqual(10);
+      expect(chunk).toMatch(/^lengthy( lengthy)*\.?$/);
+    });
+  });
+
+  it('rejects an overlap as large as the chunk', () => {
+    expect(() => chunkText('Anything.', { maxTokens: 10, overlapTokens: 10 })).toThrow();
+  });
+});
+
+describe('chunkRagFile', () => {
+  it('never lets a chunk span two pages', () => {
+    const file: RagFile = {
+      id: 'file-1',
+      name: 'deck.pdf',
+      size: 0,
+      uploadedAt: new Date(0),
+      text: '',
+      sections: [
+        { kind: 'page', index: 1, text: sentence(1) },
+        { kind: 'page', index: 2, text: sentence(2) },
+      ],
+    };
+
+    const chunks = chunkRagFile(file);
+
+    expect(chunks.map(c => [c.id, c.page, c.text])).toEqual([
+      ['chunk-file-1-0', 1, sentence(1)],
+      ['chunk-file-1-1', 2, sentence(2)],
+    ]);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Document Chunking
+ *
+ * Splits extracted document text into overlapping, sentence-aligned chunks
+ * for retrieval. Chunks never span two sections, so every chunk keeps the
+ * PDF page / PPTX slide it came from.
+ */
+
+import { DocumentSection, RagChunk, RagFile } from '@/types/podcast';
+
+export interface ChunkOptions {
+  /** Target maximum chunk size in (estimated) tokens */
+  maxTokens: number;
+  /** Tokens of trailing context repeated at the start of the next chunk */
+  overlapTokens: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  maxTokens: 500,
+  overlapTokens: 50,
+};
+
+// Common abbreviations that end with a period but don't end a sentence
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'fig', 'eq',
+  'no', 'vol', 'approx', 'dept', 'inc', 'ltd', 'co', 'e.g', 'i.e', 'cf', 'al',
+]);
+
+/**
+ * Rough token estimate (~4 characters per token for English text).
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Splits text into sentences. Paragraph breaks always end a sentence;
+ * periods after common abbreviations and initials do not.
+ */
+export function splitIntoSentences(text: string): string[] {
+  const sentences: string[] = [];
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const fragments = paragraph.replace(/\s+/g, ' ').trim().match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) || [];
+    let pending = '';
+
+    for (const fragment of fragments) {
+      pending += fragment;
+      const lastWord = pending.trim().split(' ').pop()?.replace(/[.!?"')\]]+$/, '').toLowerCase() || '';
+      const isAbbreviation = ABBREVIATIONS.has(lastWord) || /^[a-z]$/i.test(lastWord);
+
+      if (!isAbbreviation && /[.!?]["')\]]*\s*$/.test(pending)) {
+        sentences.push(pending.trim());
+        pending = '';
+      }
+    }
+
+    if (pending.trim()) sentences.push(pending.trim());
+  }
+
+  return sentences.filter(s => s.length > 0);
+}
+
+/**
+ * Breaks a sentence that is longer than a whole chunk on word boundaries.
+ */
+function splitOversizedSentence(sentence: string, maxTokens: number): string[] {
+  const words = sentence.split(' ');
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && estimateTokens(candidate) > maxTokens) {
+      pieces.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Splits text into sentence-aligned chunks with overlap.
+ */
+export function chunkText(text: string, options: Partial<ChunkOptions> = {}): string[] {
+  const { maxTokens, overlapTokens } = { ...DEFAULT_CHUNK_OPTIONS, ...options };
+
+  if (overlapTokens >= maxTokens) {
+    throw new Error('overlapTokens must be smaller than maxTokens');
+  }
+
+  const sentences = splitIntoSentences(text).flatMap(s =>
+    estimateTokens(s) > maxTokens ? splitOversizedSentence(s, maxTokens) : [s]
+  );
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const sentence of sentences) {
+    const sentenceTokens = estimateTokens(sentence);
+
+    if (current.length > 0 && currentTokens + sentenceTokens > maxTokens) {
+      chunks.push(current.join(' '));
+
+      // Carry trailing sentences forward as overlap
+      const overlap: string[] = [];
+      let overlapSize = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const size = estimateTokens(current[i]);
+        if (overlapSize + size > overlapTokens) break;
+        overlap.unshift(current[i]);
+        overlapSize += size;
+      }
+
+      current = overlap;
+      currentTokens = overlapSize;
+    }
+
+    current.push(sentence);
+    currentTokens += sentenceTokens;
+  }
+
+  if (current.length > 0) chunks.push(current.join(' '));
+  return chunks;
+}
+
+/**
+ * Chunks every section of an uploaded file into RagChunks (unscored).
+ */
+export function chunkRagFile(file: RagFile, options: Partial<ChunkOptions> = {}): RagChunk[] {
+  const sections: DocumentSection[] = file.sections.length > 0
+    ? file.sections
+    : [{ kind: 'body', index: 1, text: file.text }];
+
+  const chunks: RagChunk[] = [];
+
+  for (const section of sections) {
+    for (const text of chunkText(section.text, options)) {
+      chunks.push({
+        id: `chunk-${file.id}-${chunks.length}`,
+        fileId: file.id,
+        fileName: file.name,
+        text,
+        relevanceScore: 0,
+        sectionKind: section.kind,
+        page: section.kind === 'body' ? undefined : section.index,
+      });
+    }
+  }
+
+  return chunks;
+}
@@ -0,0 +1,90 @@
+/**
+ * Citations
+ *
+ * Attributes spoken sentences to the document chunks that were retrieved for
+ * the turn. Hosts paraphrase, so attribution is by content-word overlap rather
+ * than exact matching: a chunk is cited when enough of the sentence's
+ * distinctive terms appear in it.
+ */
+
+import { Citation, RagChunk } from '@/types/podcast';
+import { tokenize } from './retrievalIndex';
+
+export interface AttributionOptions {
+  /** Fraction of the sentence's content terms that must appear in the chunk */
+  minCoverage?: number;
+  /** Minimum number of shared content terms */
+  minSharedTerms?: number;
+  /** Maximum citations per sentence */
+  maxCitations?: number;
+}
+
+const EXCERPT_LENGTH = 240;
+
+/**
+ * Converts a retrieved chunk into a citation reference.
+ */
+export function toCitation(chunk: RagChunk): Citation {
+  const excerpt = chunk.text.length > EXCERPT_LENGTH
+    ? chunk.text.slice(0, EXCERPT_LENGTH).replace(/\s+\S*$/, '') + '…'
+    : chunk.text;
+
+  return {
+    chunkId: chunk.id,
+    fileId: chunk.fileId,
+    fileName: chunk.fileName,
+    sectionKind: chunk.sectionKind,
+    page: chunk.page,
+    excerpt,
+  };
+}
+
+/**
+ * Returns the chunks a sentence draws on, best match first.
+ */
+export function attributeSentence(
+  sentence: string,
+  chunks: RagChunk[],
+  options: AttributionOptions = {}
+): Citation[] {
+  const { minCoverage = 0.4, minSharedTerms = 3, maxCitations = 2 } = options;
+  const sentenceTerms = new Set(tokenize(sentence));
+
+  if (sentenceTerms.size === 0 || chunks.length === 0) return [];
+
+  return chunks
+    .map(chunk => {
+      const chunkTerms = new Set(tokenize(chunk.text));
+      let shared = 0;
+      sentenceTerms.forEach(term => { if (chunkTerms.has(term)) shared++; });
+      return { chunk, shared, coverage: shared / sentenceTerms.size };
+    })
+    .filter(match => match.shared >= minSharedTerms && match.coverage >= minCoverage)
+    .sort((a, b) => b.coverage - a.coverage || b.chunk.relevanceScore - a.chunk.relevanceScore)
+    .slice(0, maxCitations)
+    .map(match => toCitation(match.chunk));
+}
+
+/**
+ * Merges citation lists, keeping the first occurrence of each chunk.
+ */
+export function mergeCitations(...lists: Citation[][]): Citation[] {
+  const seen = new Set<string>();
+  const merged: Citation[] = [];
+
+  for (const citation of lists.flat()) {
+    if (seen.has(citation.chunkId)) continue;
+    seen.add(citation.chunkId);
+    merged.push(citation);
+  }
+
+  return merged;
+}
+
+/**
+ * Human-readable location, e.g. "lecture.pdf, p. 4" or "deck.pptx, slide 2".
+ */
+export function formatCitationLocation(citation: Pick<Citation, 'fileName' | 'sectionKind' | 'page'>): string {
+  if (!citation.page) return citation.fileName;
+  return `${citation.fileName}, ${citation.sectionKind === 'slide' ? 'slide' : 'p.'} ${citation.page}`;
+}
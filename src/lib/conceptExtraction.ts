@@ -0,0 +1,164 @@
+/**
+ * Key Concept Extraction
+ *
+ * Pulls the key phrases out of parsed documents so the UI (and the outline
+ * generator) can show what an upload is actually about.
+ *
+ * Candidates are RAKE-style phrases: runs of up to three content words
+ * between stopwords/punctuation. Each phrase is scored by frequency, phrase
+ * length and (when several documents are given) how distinctive it is for
+ * its document.
+ */
+
+import { tokenize } from './retrievalIndex';
+
+export interface KeyConcept {
+  /** Display form, using the most common casing found in the text */
+  phrase: string;
+  score: number;
+  occurrences: number;
+}
+
+export interface ConceptOptions {
+  maxConcepts?: number;
+  /** Longest phrase, in words */
+  maxPhraseWords?: number;
+}
+
+const MAX_PHRASE_WORDS = 3;
+
+// Words that split candidate phrases, in addition to punctuation
+const PHRASE_BREAKERS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'between', 'both', 'but', 'by', 'can', 'could', 'did',
+  'do', 'does', 'doing', 'each', 'either', 'etc', 'even', 'every', 'few', 'for', 'from', 'further',
+  'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how', 'however', 'i',
+  'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'may', 'me', 'might', 'more', 'most',
+  'much', 'must', 'my', 'no', 'nor', 'not', 'now', 'of', 'off', 'often', 'on', 'once', 'one', 'only',
+  'or', 'other', 'our', 'out', 'over', 'own', 'same', 'see', 'she', 'should', 'so', 'some', 'such',
+  'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those',
+  'through', 'thus', 'to', 'too', 'two', 'under', 'until', 'up', 'use', 'used', 'using', 'very',
+  'was', 'we', 'well', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why',
+  'will', 'with', 'within', 'without', 'would', 'you', 'your',
+]);
+
+interface Candidate {
+  key: string;
+  surfaceForms: Map<string, number>;
+  occurrences: number;
+  words: number;
+}
+
+/**
+ * Collects candidate phrases keyed by their normalised (stemmed) form.
+ */
+function collectCandidates(text: string, maxPhraseWords: number): Map<string, Candidate> {
+  const candidates = new Map<string, Candidate>();
+
+  // Punctuation (other than in-word hyphens/apostrophes) ends a phrase
+  const segments = text.split(/[^\p{L}\p{N}\s'-]+|\s-\s|\n/u);
+
+  for (const segment of segments) {
+    let run: string[] = [];
+
+    const flush = () => {
+      // Every sub-phrase up to maxPhraseWords long is a candidate
+      for (let start = 0; start < run.length; start++) {
+        for (let length = 1; length <= maxPhraseWords && start + length <= run.length; length++) {
+          const words = run.slice(start, start + length);
+          const surface = words.join(' ');
+          const terms = tokenize(surface);
+          // Skip phrases where tokenizing dropped a word (too short or a stopword)
+          if (terms.length < length) continue;
+          const key = terms.join(' ');
+
+          const candidate = candidates.get(key) || { key, surfaceForms: new Map(), occurrences: 0, words: length };
+          candidate.occurrences++;
+          candidate.surfaceForms.set(surface, (candidate.surfaceForms.get(surface) || 0) + 1);
+          candidates.set(key, candidate);
+        }
+      }
+      run = [];
+    };
+
+    for (const rawWord of segment.split(/\s+/)) {
+      const word = rawWord.replace(/^['-]+|['-]+$/g, '');
+      const isBreaker = !word || PHRASE_BREAKERS.has(word.toLowerCase()) || /^\d+$/.test(word) || word.length < 3;
+      if (isBreaker) flush();
+      else run.push(word);
+    }
+    flush();
+  }
+
+  return candidates;
+}
+
+function displayForm(candidate: Candidate): string {
+  const [surface] = Array.from(candidate.surfaceForms.entries()).sort((a, b) => b[1] - a[1])[0];
+  // Capitalise lower-case phrases for display; keep acronyms and proper casing
+  return surface === surface.toLowerCase()
+    ? surface.replace(/\b\p{L}/gu, letter => letter.toUpperCase())
+    : surface;
+}
+
+function rankCandidates(
+  candidates: Map<string, Candidate>,
+  documentFrequency: (key: string) => number,
+  documentCount: number,
+  options: Required<ConceptOptions>
+): KeyConcept[] {
+  const ranked = Array.from(candidates.values())
+    // Single words must recur to count; one-off phrases only fill remaining slots
+    .filter(c => c.words > 1 || (c.occurrences >= 2 && c.key.length > 3))
+    .map(c => {
+      const idf = Math.log(1 + documentCount / documentFrequency(c.key));
+      const recurrence = c.occurrences >= 2 ? 1 : 0.3;
+      return {
+        key: c.key,
+        phrase: displayForm(c),
+        occurrences: c.occurrences,
+        score: Math.log(1 + c.occurrences) * (1 + 0.25 * (c.words - 1)) * idf * recurrence,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  // Drop phrases contained in a higher-ranked phrase ("network" under "neural network")
+  const selected: typeof ranked = [];
+  for (const concept of ranked) {
+    if (selected.length >= options.maxConcepts) break;
+    const overlaps = selected.some(s => ` ${s.key} `.includes(` ${concept.key} `) || ` ${concept.key} `.includes(` ${s.key} `));
+    if (!overlaps) selected.push(concept);
+  }
+
+  return selected.map(({ phrase, score, occurrences }) => ({ phrase, score, occurrences }));
+}
+
+/**
+ * Extracts the key concepts of a single text.
+ */
+export function extractKeyConcepts(text: string, options: ConceptOptions = {}): KeyConcept[] {
+  const resolved = { maxConcepts: 8, maxPhraseWords: MAX_PHRASE_WORDS, ...options };
+  return rankCandidates(collectCandidates(text, resolved.maxPhraseWords), () => 1, 1, resolved);
+}
+
+/**
+ * Extracts key concepts per document, favouring phrases that distinguish a
+ * document from the others in the set.
+ */
+export function extractConceptsByDocument(
+  documents: { id: string; text: string }[],
+  options: ConceptOptions = {}
+): Map<string, KeyConcept[]> {
+  const resolved = { maxConcepts: 6, maxPhraseWords: MAX_PHRASE_WORDS, ...options };
+  const perDocument = documents.map(doc => ({ id: doc.id, candidates: collectCandidates(doc.text, resolved.maxPhraseWords) }));
+
+  const documentFrequencies = new Map<string, number>();
+  perDocument.forEach(({ candidates }) => {
+    candidates.forEach((_, key) => documentFrequencies.set(key, (documentFrequencies.get(key) || 0) + 1));
+  });
+
+  return new Map(perDocument.map(({ id, candidates }) => [
+    id,
+    rankCandidates(candidates, key => documentFrequencies.get(key) || 1, documents.length, resolved),
+  ]));
+}
@@ -5,11 +5,14 @@
 
 import { HostConfig } from '@/types/podcast';
 import { supabase } from '@/integrations/supabase/client';
+import { SpokenTurn, chooseNextSpeaker } from './turnTaking';
 
 export interface TranscriptSegment {
     hostIndex: number;
     hostName: string;
     text: string;
+    /** A short reaction spoken before the turn it shares a number with */
+    isBackchannel?: boolean;
 }
 
 export interface ConversationOptions {
@@ -17,6 +20,8 @@ export interface ConversationOptions {
     tone?: 'casual' | 'technical' | 'hardcore' | 'interview';
     includeExamples?: boolean;
     ragContext?: string;
+    /** Favour rebuttals and skeptical hosts when choosing who speaks next */
+    debateIntensity?: boolean;
 }
 
 /**
@@ -53,7 +58,9 @@ async function generateNextTurn(
 
 /**
  * Generate dynamic conversation between hosts in real-time
- * Calls onTurnGenerated callback for each segment (for streaming playback)
+ * Calls onTurnGenerated callback for each segment (for streaming playback).
+ * A back-channel is reported with the number of the turn it precedes and is
+ * flagged with isBackchannel, so turnNumber counts full turns only.
  */
 export async function generateDynamicConversation(
     hosts: HostConfig[],
@@ -105,6 +112,9 @@ export async function generateDynamicConversation(
         conversation.push(firstSegment);
         history.push(`${hosts[0].name}: ${firstText}`);
 
+        // Full turns only - back-channels don't count towards who speaks next
+        const spokenTurns: SpokenTurn[] = [{ hostIndex: 0, text: firstText }];
+
         // Callback for streaming playback
         if (onTurnGenerated) {
             await onTurnGenerated(firstSegment, 1, turnCount);
@@ -112,9 +122,30 @@ export async function generateDynamicConversation(
 
         // Generate remaining turns
         for (let turn = 1; turn < turnCount; turn++) {
-            const currentHostIndex = turn % hosts.length;
+            const next = chooseNextSpeaker(hosts, spokenTurns, {
+                debateIntensity: options.debateIntensity,
+            });
+            const currentHostIndex = next.hostIndex;
             const currentHost = hosts[currentHostIndex];
-            const otherHost = hosts[(turn + 1) % hosts.length];
+            // The host being responded to
+            const otherHost = hosts[spokenTurns[spokenTurns.length - 1].hostIndex];
+
+            if (next.backchannel) {
+                const backchannelHost = hosts[next.backchannel.hostIndex];
+                const backchannelSegment: TranscriptSegment = {
+                    hostIndex: next.backchannel.hostIndex,
+                    hostName: backchannelHost.name,
+                    text: next.backchannel.text,
+                    isBackchannel: true
+                };
+
+                conversation.push(backchannelSegment);
+                history.push(`${backchannelHost.name}: ${next.backchannel.text}`);
+
+                if (onTurnGenerated) {
+                    await onTurnGenerated(backchannelSegment, turn + 1, turnCount);
+                }
+            }
 
             console.log(`[ConversationalAI] Generating turn ${turn + 1}/${turnCount} for ${currentHost.name}`);
 
@@ -134,6 +165,7 @@ export async function generateDynamicConversation(
 
             conversation.push(segment);
             history.push(`${currentHost.name}: ${text}`);
+            spokenTurns.push({ hostIndex: currentHostIndex, text });
 
             // Callback for streaming playback
             if (onTurnGenerated) {
@@ -0,0 +1,99 @@
+/**
+ * Backboard Dialogue Provider
+ *
+ * One Backboard assistant and thread per host over a shared transcript (see
+ * backboard.ts). The only provider whose threads can be stored and reopened
+ * to continue a session later.
+ */
+
+import { ClaimCheck, RagChunk } from '@/types/podcast';
+import {
+  PodcastSession,
+  SavedSeat,
+  initializeSession,
+  resumeSession,
+  recordTranscriptLine,
+  takeTurn,
+  generateNextTurnStream,
+  handleInterruption,
+  requestCorrectedTurn,
+  endSession,
+  BackboardError,
+} from '../backboard';
+import { DialogueProvider, DialogueSessionConfig, InterruptRequest, TranscriptLine, TurnContext } from './types';
+
+export class BackboardDialogueProvider implements DialogueProvider {
+  readonly id = 'backboard' as const;
+  // Each request is posted to the host's thread and relays what they heard, so
+  // a turn prepared early would stay in the thread even if it never aired -
+  // turns are only requested once the previous one has played
+  readonly canPrefetchTurns = false;
+  private session: PodcastSession | null = null;
+
+  async init(config: DialogueSessionConfig): Promise<void> {
+    const { hosts, topic, transcript = [], savedSeats } = config;
+
+    if (savedSeats && savedSeats.length > 0) {
+      this.session = resumeSession(savedSeats, transcript);
+      return;
+    }
+
+    this.session = await initializeSession({
+      systemPrompt: `You are hosting a podcast with ${hosts.map(h => h.name).join(' and ')}.`,
+      initialContext: topic,
+      hosts,
+      // Documents are not dumped here - relevant chunks are retrieved per turn
+    });
+    // A saved transcript without threads is relayed to the new hosts on their first turn
+    transcript.forEach(line => recordTranscriptLine(this.session!, line));
+  }
+
+  private get activeSession(): PodcastSession {
+    if (!this.session) {
+      throw new BackboardError("Session not initialized", "API_ERROR");
+    }
+    return this.session;
+  }
+
+  async nextTurn(hostId: string, context: TurnContext, signal?: AbortSignal): Promise<ReadableStream<Uint8Array>> {
+    // Each host speaks on their own thread, hearing what the others said since
+    const { threadId, heard, markRelayed } = takeTurn(this.activeSession, hostId);
+    const stream = await generateNextTurnStream(threadId, signal, { ...context, heard });
+    markRelayed();
+    return stream;
+  }
+
+  async interrupt(hostId: string, request: InterruptRequest): Promise<string> {
+    const { threadId, heard, markRelayed } = takeTurn(this.activeSession, hostId);
+    const result = await handleInterruption(
+      threadId,
+      request.spokenHistory,
+      request.unspokenText,
+      request.userInput,
+      request.ragChunks,
+      heard
+    );
+    markRelayed();
+    return result.text;
+  }
+
+  async correct(hostId: string, turnText: string, flaggedClaims: ClaimCheck[], ragChunks: RagChunk[]): Promise<string> {
+    const { threadId, heard, markRelayed } = takeTurn(this.activeSession, hostId);
+    const result = await requestCorrectedTurn(threadId, turnText, flaggedClaims, ragChunks, heard);
+    markRelayed();
+    return result.text;
+  }
+
+  recordLine(line: TranscriptLine): void {
+    if (this.session) recordTranscriptLine(this.session, line);
+  }
+
+  getSavedSeats(): SavedSeat[] {
+    if (!this.session) return [];
+    return Object.values(this.session.seats).map(({ heardLines, ...seat }) => seat);
+  }
+
+  async end(): Promise<void> {
+    if (this.session) await endSession(this.session);
+  }
+}
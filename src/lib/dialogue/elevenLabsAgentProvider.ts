@@ -0,0 +1,186 @@
+/**
+ * ElevenLabs Agent Dialogue Provider
+ *
+ * Runs each host as a text-only ElevenLabs Conversational AI session on the
+ * agent in VITE_ELEVENLABS_AGENT_ID, with the host's persona as the prompt
+ * override. The co-hosts' lines are sent as contextual updates and the turn
+ * instructions as the user message; the agent's reply parts are streamed back
+ * as text events. Audio is still produced by our own TTS pipeline.
+ */
+
+import { Conversation } from '@elevenlabs/client';
+import { ClaimCheck, HostConfig, RagChunk } from '@/types/podcast';
+import {
+  buildCorrectionPrompt,
+  buildInterruptionWithContext,
+  buildSystemPrompt,
+  buildTurnInstructions,
+} from './prompts';
+import { TextEventSink, createTextEventStream } from './eventStream';
+import { DialogueProvider, DialogueSessionConfig, InterruptRequest, TranscriptLine, TurnContext } from './types';
+
+interface AgentSeat {
+  conversation: Conversation;
+  /** Lines of the transcript already sent to this host's agent */
+  sentLines: number;
+  /** The reply being written, if any */
+  pending: PendingReply | null;
+}
+
+interface PendingReply {
+  sink: TextEventSink;
+  text: string;
+  resolve: (text: string) => void;
+}
+
+export class ElevenLabsAgentDialogueProvider implements DialogueProvider {
+  readonly id = 'elevenlabs-agent' as const;
+  // Each request becomes part of the host's agent session
+  readonly canPrefetchTurns = false;
+  private readonly agentId: string | undefined;
+  private seats: Record<string, AgentSeat> = {};
+  private transcript: TranscriptLine[] = [];
+
+  constructor(agentId: string | undefined = import.meta.env.VITE_ELEVENLABS_AGENT_ID) {
+    this.agentId = agentId;
+  }
+
+  async init(config: DialogueSessionConfig): Promise<void> {
+    if (!this.agentId) {
+      throw new Error('VITE_ELEVENLABS_AGENT_ID is not configured');
+    }
+
+    const { hosts, topic } = config;
+    this.transcript = [...(config.transcript || [])];
+
+    const entries = await Promise.all(
+      hosts.map(async host => [host.id, await this.startSeat(host, hosts, topic)] as const)
+    );
+    this.seats = Object.fromEntries(entries);
+    console.log('[ElevenLabsAgent] Started', entries.length, 'agent sessions');
+  }
+
+  private async startSeat(host: HostConfig, hosts: HostConfig[], topic: string): Promise<AgentSeat> {
+    const prompt = buildSystemPrompt({
+      hostName: host.name,
+      hostRole: host.role,
+      hostPersonality: host.personality || '',
+      coHosts: hosts
+        .filter(h => h.id !== host.id)
+        .map(h => ({ name: h.name, role: h.role, personality: h.personality || '' })),
+      basePrompt: `The podcast is about: "${topic}".`,
+    });
+
+    // Callbacks are registered before the session exists, so they close over the seat
+    const seat = { sentLines: 0, pending: null } as AgentSeat;
+
+    const finish = () => {
+      const reply = seat.pending;
+      if (!reply) return;
+      seat.pending = null;
+      reply.sink.close();
+      reply.resolve(reply.text.trim());
+    };
+
+    seat.conversation = await Conversation.startSession({
+      agentId: this.agentId!,
+      connectionType: 'websocket',
+      textOnly: true,
+      overrides: {
+        agent: { prompt: { prompt }, firstMessage: '' },
+        conversation: { textOnly: true },
+      },
+      onAgentChatResponsePart: part => {
+        if (!seat.pending) return;
+        if (part.type === 'delta' && part.text) {
+          seat.pending.text += part.text;
+          seat.pending.sink.push(part.text);
+        } else if (part.type === 'stop') {
+          finish();
+        }
+      },
+      onMessage: ({ message, role }) => {
+        // Agents without streamed parts only send the final message
+        if (role !== 'agent' || !seat.pending) return;
+        if (!seat.pending.text) {
+          seat.pending.text = message;
+          seat.pending.sink.push(message);
+        }
+        finish();
+      },
+      onError: message => {
+        console.error(`[ElevenLabsAgent] ${host.name}:`, message);
+        const reply = seat.pending;
+        if (!reply) return;
+        seat.pending = null;
+        reply.sink.fail(new Error(message));
+        reply.resolve(reply.text.trim());
+      },
+    });
+
+    return seat;
+  }
+
+  private getSeat(hostId: string): AgentSeat {
+    const seat = this.seats[hostId];
+    if (!seat) {
+      throw new Error(`No agent session for host ${hostId}`);
+    }
+    return seat;
+  }
+
+  /**
+   * Sends the host what was said since their last turn, then the instructions.
+   */
+  private ask(hostId: string, instructions: string, signal?: AbortSignal) {
+    const seat = this.getSeat(hostId);
+    const { stream, sink } = createTextEventStream(signal);
+
+    const unheard = this.transcript.slice(seat.sentLines).filter(line => line.speakerId !== hostId);
+    seat.sentLines = this.transcript.length;
+    if (unheard.length > 0) {
+      seat.conversation.sendContextualUpdate(
+        unheard.map(line => `${line.speakerName}: ${line.text}`).join('\n')
+      );
+    }
+
+    // A new request supersedes an unfinished one
+    seat.pending?.sink.close();
+    const text = new Promise<string>(resolve => {
+      seat.pending = { sink, text: '', resolve };
+    });
+    signal?.addEventListener('abort', () => {
+      if (seat.pending?.sink === sink) seat.pending = null;
+    });
+
+    seat.conversation.sendUserMessage(instructions);
+    return { stream, text };
+  }
+
+  async nextTurn(hostId: string, context: TurnContext, signal?: AbortSignal): Promise<ReadableStream<Uint8Array>> {
+    return this.ask(hostId, buildTurnInstructions(context), signal).stream;
+  }
+
+  async interrupt(hostId: string, request: InterruptRequest): Promise<string> {
+    return this.ask(hostId, buildInterruptionWithContext(
+      request.userInput,
+      request.spokenHistory,
+      request.unspokenText,
+      request.ragChunks
+    )).text;
+  }
+
+  async correct(hostId: string, turnText: string, flaggedClaims: ClaimCheck[], ragChunks: RagChunk[]): Promise<string> {
+    return this.ask(hostId, buildCorrectionPrompt(turnText, flaggedClaims, ragChunks)).text;
+  }
+
+  recordLine(line: TranscriptLine): void {
+    this.transcript.push(line);
+  }
+
+  async end(): Promise<void> {
+    await Promise.all(Object.values(this.seats).map(seat => seat.conversation.endSession()));
+    this.seats = {};
+    console.log('[ElevenLabsAgent] Sessions ended');
+  }
+}
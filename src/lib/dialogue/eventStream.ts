@@ -0,0 +1,63 @@
+/**
+ * Text Event Streams
+ *
+ * Providers whose backend doesn't stream Backboard-style server-sent events
+ * (one-shot HTTP replies, agent callbacks) emit their text through these so
+ * streamCoordinator reads every provider the same way.
+ */
+
+export interface TextEventSink {
+  push(text: string): void;
+  close(): void;
+  fail(error: unknown): void;
+}
+
+function encodeEvent(payload: string): Uint8Array {
+  return new TextEncoder().encode(`data: ${payload}\n\n`);
+}
+
+/**
+ * A stream to push text into as it arrives. Aborting the signal ends it.
+ */
+export function createTextEventStream(signal?: AbortSignal): { stream: ReadableStream<Uint8Array>; sink: TextEventSink } {
+  let controller: ReadableStreamDefaultController<Uint8Array>;
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+  });
+
+  const sink: TextEventSink = {
+    push(text) {
+      if (closed || !text) return;
+      controller.enqueue(encodeEvent(JSON.stringify({ content: text })));
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      controller.enqueue(encodeEvent('[DONE]'));
+      controller.close();
+    },
+    fail(error) {
+      if (closed) return;
+      closed = true;
+      controller.error(error);
+    },
+  };
+
+  signal?.addEventListener('abort', () => sink.close());
+
+  return { stream, sink };
+}
+
+/**
+ * A stream carrying one complete piece of text.
+ */
+export function textToEventStream(text: string): ReadableStream<Uint8Array> {
+  const { stream, sink } = createTextEventStream();
+  sink.push(text);
+  sink.close();
+  return stream;
+}
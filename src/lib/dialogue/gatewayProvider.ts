@@ -0,0 +1,86 @@
+/**
+ * Gateway Dialogue Provider
+ *
+ * Writes each turn with the generate-turn edge function (Lovable AI gateway).
+ * The gateway has no memory, so the provider keeps the transcript and sends
+ * the recent part of it with every turn. Replies arrive in one piece and are
+ * emitted as a single text event.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { ClaimCheck, HostConfig, RagChunk } from '@/types/podcast';
+import { buildCorrectionPrompt, buildInterruptionWithContext, buildTurnInstructions } from './prompts';
+import { textToEventStream } from './eventStream';
+import { DialogueProvider, DialogueSessionConfig, InterruptRequest, TranscriptLine, TurnContext } from './types';
+
+export class GatewayDialogueProvider implements DialogueProvider {
+  readonly id = 'gateway' as const;
+  readonly canPrefetchTurns = true;
+  private hosts: HostConfig[] = [];
+  private topic = '';
+  private transcript: TranscriptLine[] = [];
+
+  async init(config: DialogueSessionConfig): Promise<void> {
+    this.hosts = config.hosts;
+    this.topic = config.topic;
+    this.transcript = [...(config.transcript || [])];
+  }
+
+  private async generate(hostId: string, instructions: string): Promise<string> {
+    const currentHost = this.hosts.find(h => h.id === hostId) || this.hosts[0];
+    // The host being responded to: whoever spoke last, other than this host
+    const lastOther = [...this.transcript].reverse().find(line => line.speakerId !== hostId);
+    const otherHost = this.hosts.find(h => h.id === lastOther?.speakerId)
+      || this.hosts.find(h => h.id !== currentHost.id)
+      || currentHost;
+
+    const { data, error } = await supabase.functions.invoke('generate-turn', {
+      body: {
+        currentHost,
+        otherHost,
+        topic: this.topic,
+        conversationHistory: this.transcript.map(line => `${line.speakerName}: ${line.text}`),
+        options: {
+          isFirstTurn: this.transcript.length === 0,
+          instructions,
+        },
+      },
+    });
+
+    if (error) {
+      throw new Error(`Edge Function error: ${error.message}`);
+    }
+    if (data?.error) {
+      throw new Error(data.error);
+    }
+
+    return data?.text || '';
+  }
+
+  async nextTurn(hostId: string, context: TurnContext, signal?: AbortSignal): Promise<ReadableStream<Uint8Array>> {
+    const text = await this.generate(hostId, buildTurnInstructions(context));
+    if (signal?.aborted) throw new Error('Aborted');
+    return textToEventStream(text);
+  }
+
+  async interrupt(hostId: string, request: InterruptRequest): Promise<string> {
+    return this.generate(hostId, buildInterruptionWithContext(
+      request.userInput,
+      request.spokenHistory,
+      request.unspokenText,
+      request.ragChunks
+    ));
+  }
+
+  async correct(hostId: string, turnText: string, flaggedClaims: ClaimCheck[], ragChunks: RagChunk[]): Promise<string> {
+    return this.generate(hostId, buildCorrectionPrompt(turnText, flaggedClaims, ragChunks));
+  }
+
+  recordLine(line: TranscriptLine): void {
+    this.transcript.push(line);
+  }
+
+  async end(): Promise<void> {
+    console.log('[GatewayProvider] Session ended after', this.transcript.length, 'lines');
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Dialogue provider registry
+ *
+ * Sessions pick a provider by id (podcast settings), falling back to
+ * VITE_DIALOGUE_PROVIDER and then Backboard. Mock mode (VITE_MOCK_PROVIDERS)
+ * always uses the scripted provider.
+ */
+
+import { BackboardDialogueProvider } from './backboardProvider';
+import { GatewayDialogueProvider } from './gatewayProvider';
+import { ElevenLabsAgentDialogueProvider } from './elevenLabsAgentProvider';
+import { OpenAICompatibleDialogueProvider } from './openAICompatibleProvider';
+import { MockDialogueProvider } from './mockProvider';
+import { MOCK_MODE } from '../mocks';
+import { DialogueProvider, DialogueProviderId } from './types';
+
+export type {
+  DialogueProvider,
+  DialogueProviderId,
+  DialogueSessionConfig,
+  InterruptRequest,
+  TranscriptLine,
+  TurnContext,
+} from './types';
+
+export const DIALOGUE_PROVIDERS: { id: DialogueProviderId; label: string; description: string }[] = [
+  { id: 'backboard', label: 'Backboard', description: 'One assistant per host, sessions can be continued later. Turns are written after the previous one finishes, so expect a short pause between hosts' },
+  { id: 'gateway', label: 'Lovable AI', description: 'Stateless turns through the AI gateway' },
+  { id: 'elevenlabs-agent', label: 'ElevenLabs Agent', description: 'Text-only Conversational AI sessions. Turns are written after the previous one finishes' },
+  { id: 'openai-compatible', label: 'Local model', description: 'Any OpenAI-compatible server (Ollama, LM Studio, ...)' },
+  { id: 'mock', label: 'Offline (scripted)', description: 'Deterministic scripted turns, no network' },
+];
+
+function isProviderId(value: unknown): value is DialogueProviderId {
+  return DIALOGUE_PROVIDERS.some(p => p.id === value);
+}
+
+export const DEFAULT_DIALOGUE_PROVIDER: DialogueProviderId = isProviderId(import.meta.env.VITE_DIALOGUE_PROVIDER)
+  ? import.meta.env.VITE_DIALOGUE_PROVIDER
+  : 'backboard';
+
+/**
+ * The provider turns fail over to when the session's own keeps failing:
+ * VITE_FALLBACK_DIALOGUE_PROVIDER ('none' to disable), else the AI gateway.
+ */
+export function fallbackProviderFor(id: DialogueProviderId = DEFAULT_DIALOGUE_PROVIDER): DialogueProviderId | null {
+  if (MOCK_MODE) return null;
+
+  const configured = import.meta.env.VITE_FALLBACK_DIALOGUE_PROVIDER;
+  if (configured === 'none') return null;
+  const fallback = isProviderId(configured) ? configured : 'gateway';
+  return fallback === id ? null : fallback;
+}
+
+export function createDialogueProvider(id: DialogueProviderId = DEFAULT_DIALOGUE_PROVIDER): DialogueProvider {
+  if (MOCK_MODE) return new MockDialogueProvider();
+
+  switch (id) {
+    case 'gateway':
+      return new GatewayDialogueProvider();
+    case 'elevenlabs-agent':
+      return new ElevenLabsAgentDialogueProvider();
+    case 'openai-compatible':
+      return new OpenAICompatibleDialogueProvider();
+    case 'mock':
+      return new MockDialogueProvider();
+    case 'backboard':
+    default:
+      return new BackboardDialogueProvider();
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Mock Dialogue Provider
+ *
+ * Scripted host turns for offline demos (see mocks.ts). Turns are streamed a
+ * word at a time so the sentence buffering and audio pipeline behave as with
+ * a live model.
+ */
+
+import { ClaimCheck, HostConfig, RagChunk } from '@/types/podcast';
+import { scriptTurn, streamScriptedText } from '../mocks';
+import { DialogueProvider, DialogueSessionConfig, InterruptRequest, TranscriptLine, TurnContext } from './types';
+
+export class MockDialogueProvider implements DialogueProvider {
+  readonly id = 'mock' as const;
+  readonly canPrefetchTurns = true;
+  private hosts: HostConfig[] = [];
+  private topic = '';
+  private transcript: TranscriptLine[] = [];
+
+  constructor(private readonly tokenDelayMs?: number) {}
+
+  async init(config: DialogueSessionConfig): Promise<void> {
+    this.hosts = config.hosts;
+    this.topic = config.topic;
+    this.transcript = [...(config.transcript || [])];
+    console.log('[MockProvider] Scripted session for', this.hosts.length, 'hosts');
+  }
+
+  private hostName(hostId: string): string {
+    return this.hosts.find(h => h.id === hostId)?.name || 'Host';
+  }
+
+  async nextTurn(hostId: string, context: TurnContext, signal?: AbortSignal): Promise<ReadableStream<Uint8Array>> {
+    const text = scriptTurn({
+      hostName: this.hostName(hostId),
+      topic: context.subTopic || this.topic,
+      ragChunks: context.ragChunks,
+      // A prefetched turn is requested before the line it answers is recorded
+      seed: context.heard ? `${this.transcript.length}:${context.heard}` : this.transcript.length,
+    });
+    return streamScriptedText(text, signal, this.tokenDelayMs);
+  }
+
+  async interrupt(hostId: string, request: InterruptRequest): Promise<string> {
+    const answer = scriptTurn({
+      hostName: this.hostName(hostId),
+      topic: this.topic,
+      ragChunks: request.ragChunks,
+      seed: request.userInput,
+    });
+    return `Good question. ${answer}`;
+  }
+
+  async correct(_hostId: string, _turnText: string, flaggedClaims: ClaimCheck[], ragChunks: RagChunk[]): Promise<string> {
+    const source = ragChunks[0]?.fileName || 'the material';
+    return `Actually, let me correct myself - ${source} doesn't quite say that${flaggedClaims.length > 1 ? `, on ${flaggedClaims.length} points` : ''}.`;
+  }
+
+  recordLine(line: TranscriptLine): void {
+    this.transcript.push(line);
+  }
+
+  async end(): Promise<void> {
+    console.log('[MockProvider] Session ended after', this.transcript.length, 'lines');
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * OpenAI-Compatible Dialogue Provider
+ *
+ * Talks to any server exposing the OpenAI chat completions API - typically a
+ * local model (Ollama, LM Studio, llama.cpp server) configured with
+ * VITE_LOCAL_LLM_URL and VITE_LOCAL_LLM_MODEL. Each host gets their own
+ * system prompt; the shared transcript is replayed as the chat history, with
+ * the host's own lines as assistant messages. Turns are streamed and passed
+ * through as-is (streamCoordinator reads the OpenAI delta format).
+ */
+
+import { ClaimCheck, HostConfig, RagChunk } from '@/types/podcast';
+import {
+  buildCorrectionPrompt,
+  buildInterruptionWithContext,
+  buildSystemPrompt,
+  buildTurnInstructions,
+} from './prompts';
+import { DialogueProvider, DialogueSessionConfig, InterruptRequest, TranscriptLine, TurnContext } from './types';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'llama3.1';
+
+// Lines of transcript replayed with each request
+const HISTORY_LINES = 20;
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export class OpenAICompatibleDialogueProvider implements DialogueProvider {
+  readonly id = 'openai-compatible' as const;
+  readonly canPrefetchTurns = true;
+  private readonly baseUrl: string;
+  private readonly model: string;
+  private hosts: HostConfig[] = [];
+  private topic = '';
+  private transcript: TranscriptLine[] = [];
+
+  constructor(options: { baseUrl?: string; model?: string } = {}) {
+    this.baseUrl = (options.baseUrl || import.meta.env.VITE_LOCAL_LLM_URL || DEFAULT_BASE_URL).replace(/\/$/, '');
+    this.model = options.model || import.meta.env.VITE_LOCAL_LLM_MODEL || DEFAULT_MODEL;
+  }
+
+  async init(config: DialogueSessionConfig): Promise<void> {
+    this.hosts = config.hosts;
+    this.topic = config.topic;
+    this.transcript = [...(config.transcript || [])];
+    console.log('[OpenAICompatible] Using', this.model, 'at', this.baseUrl);
+  }
+
+  private buildMessages(hostId: string, instructions: string): ChatMessage[] {
+    const host = this.hosts.find(h => h.id === hostId) || this.hosts[0];
+    const system = buildSystemPrompt({
+      hostName: host.name,
+      hostRole: host.role,
+      hostPersonality: host.personality || '',
+      coHosts: this.hosts
+        .filter(h => h.id !== host.id)
+        .map(h => ({ name: h.name, role: h.role, personality: h.personality || '' })),
+      basePrompt: `The podcast is about: "${this.topic}".`,
+    });
+
+    const history: ChatMessage[] = this.transcript.slice(-HISTORY_LINES).map(line => (
+      line.speakerId === hostId
+        ? { role: 'assistant', content: line.text }
+        : { role: 'user', content: `${line.speakerName}: ${line.text}` }
+    ));
+
+    return [
+      { role: 'system', content: system },
+      ...history,
+      { role: 'user', content: instructions },
+    ];
+  }
+
+  private async complete(hostId: string, instructions: string, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.model,
+        messages: this.buildMessages(hostId, instructions),
+        temperature: 0.8,
+        stream,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errText = await response.text();
+      throw new Error(`Local model request failed: ${response.status} - ${errText}`);
+    }
+
+    return response;
+  }
+
+  private async completeText(hostId: string, instructions: string): Promise<string> {
+    const response = await this.complete(hostId, instructions, false);
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content?.trim() || '';
+  }
+
+  async nextTurn(hostId: string, context: TurnContext, signal?: AbortSignal): Promise<ReadableStream<Uint8Array>> {
+    const response = await this.complete(hostId, buildTurnInstructions(context), true, signal);
+    if (!response.body) {
+      throw new Error('Local model returned no stream');
+    }
+    return response.body;
+  }
+
+  async interrupt(hostId: string, request: InterruptRequest): Promise<string> {
+    return this.completeText(hostId, buildInterruptionWithContext(
+      request.userInput,
+      request.spokenHistory,
+      request.unspokenText,
+      request.ragChunks
+    ));
+  }
+
+  async correct(hostId: string, turnText: string, flaggedClaims: ClaimCheck[], ragChunks: RagChunk[]): Promise<string> {
+    return this.completeText(hostId, buildCorrectionPrompt(turnText, flaggedClaims, ragChunks));
+  }
+
+  recordLine(line: TranscriptLine): void {
+    this.transcript.push(line);
+  }
+
+  async end(): Promise<void> {
+    console.log('[OpenAICompatible] Session ended after', this.transcript.length, 'lines');
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Dialogue Prompts
+ *
+ * Prompt builders shared by every dialogue provider: the host persona, the
+ * per-turn instructions (sub-topic, pacing, reference material) and the
+ * interruption / fact-check follow-ups.
+ */
+
+import { ClaimCheck, RagChunk } from '@/types/podcast';
+import { formatCitationLocation } from '../citations';
+import { TurnContext } from './types';
+
+export function buildSystemPrompt(config: {
+  hostName: string;
+  hostRole: string;
+  hostPersonality: string;
+  coHosts?: Array<{ name: string; role: string; personality: string }>;
+  ragContext?: string;
+  basePrompt: string;
+}): string {
+  // Build co-host info string
+  const coHostInfo = config.coHosts && config.coHosts.length > 0
+    ? `\n\nYOUR CO-HOSTS:\n${config.coHosts.map(h => `- ${h.name}: ${h.role} (${h.personality})`).join('\n')}`
+    : '';
+
+  const prompt = `You are a podcast host named ${config.hostName}.
+Role: ${config.hostRole}
+Personality: ${config.hostPersonality}
+${coHostInfo}
+
+CORE GUIDELINES:
+- Speak naturally, like a human podcaster.
+- Use ahs, ums, and pauses occasionally to sound authentic.
+- Be engaging, energetic, and inquisitive.
+- Never mention you are an AI.
+- Keep responses relatively short (2-4 sentences) to allow for back-and-forth, unless explaining a complex topic.
+- Do NOT address your co-hosts by name. Just continue the conversation naturally without saying their names.
+- DO NOT prefix your dialogue with your name or any speaker label (e.g., don't write "Alex: Hello", just write "Hello").
+- Output ONLY your spoken dialogue, nothing else.
+
+${config.ragContext ? `\nCONTEXT DOCUMENTS:\n${config.ragContext}\n` : ''}
+
+${config.basePrompt}`;
+
+  return prompt;
+}
+
+// Keeps the per-turn message small no matter how large the uploads are
+const MAX_REFERENCE_CHARS = 4000;
+
+export function buildReferenceMaterial(chunks: RagChunk[]): string {
+  const excerpts: string[] = [];
+  let total = 0;
+
+  for (const chunk of chunks) {
+    const excerpt = `[${formatCitationLocation(chunk)}]\n${chunk.text}`;
+    if (total + excerpt.length > MAX_REFERENCE_CHARS && excerpts.length > 0) break;
+    excerpts.push(excerpt);
+    total += excerpt.length;
+  }
+
+  return excerpts.join('\n\n');
+}
+
+// What the other hosts said since this host last spoke (TurnContext.heard)
+function formatHeard(heard?: string): string {
+  return heard
+    ? `\n\nSINCE YOUR LAST TURN (respond to this, don't repeat it):\n${heard}`
+    : '';
+}
+
+export function buildTurnInstructions(context?: TurnContext): string {
+  const heard = formatHeard(context?.heard);
+  const subTopic = context?.subTopic
+    ? `\n\nCURRENT SUB-TOPIC: ${context.subTopic}`
+    : '';
+  const speaker = context?.speaker
+    ? `\n\nSPEAKING NOW: ${context.speaker.name}${context.speaker.note ? ` - ${context.speaker.note}` : ''}`
+    : '';
+  const pacing = context?.pacing
+    ? `\n\nPACING: ${context.pacing}`
+    : '';
+  const reference = context?.ragChunks && context.ragChunks.length > 0
+    ? `\n\nREFERENCE MATERIAL (most relevant excerpts for this turn - ground facts in it, don't read it out verbatim or mention file names):\n${buildReferenceMaterial(context.ragChunks)}`
+    : '';
+
+  return `Generate the next segment of the podcast dialogue.
+  
+CRITICAL REQUIREMENTS:
+- Output ONLY 2-3 sentences (approximately 50 words maximum)
+- Write as natural spoken dialogue
+- End at a natural pause point
+- Do NOT include speaker names or labels (e.g., "Alex:" or "Host 1:") - output only the spoken words
+- Do NOT include any meta-commentary or stage directions${heard}${speaker}${subTopic}${pacing}${reference}`;
+}
+
+export function buildInterruptionWithContext(
+  userInput: string,
+  spokenHistory: string,
+  unspokenTranscript: string,
+  ragChunks?: RagChunk[],
+  heard?: string
+): string {
+  const reference = ragChunks && ragChunks.length > 0
+    ? `\nREFERENCE MATERIAL (use it if it answers the user):\n${buildReferenceMaterial(ragChunks)}\n`
+    : '';
+
+  return `[INTERRUPTION SENT BY USER]
+  
+The user just interrupted the podcast.
+
+CONTEXT SO FAR (Spoken):
+"...${spokenHistory.slice(-500)}"
+
+CONTEXT THAT WAS CUT OFF (Do NOT repeat this verbatim, but summarize if needed):
+"${unspokenTranscript}"
+
+USER SAID:
+"${userInput}"${formatHeard(heard)}
+${reference}
+INSTRUCTIONS:
+1. Acknowledge the user's input/question naturally.
+2. Answer it briefly or weave it into the discussion.
+3. Transition back to the main topic if appropriate.
+4. Keep the response conversational and spoken-style.`;
+}
+
+export function buildCorrectionPrompt(
+  turnText: string,
+  flaggedClaims: ClaimCheck[],
+  ragChunks: RagChunk[],
+  heard?: string
+): string {
+  const issues = flaggedClaims
+    .map(check => `- "${check.claim}" (${check.reason || check.status})`)
+    .join('\n');
+
+  return `[FACT CHECK]
+
+Your last segment was:
+"${turnText}"${formatHeard(heard)}
+
+These statements are not supported by the reference material:
+${issues}
+
+REFERENCE MATERIAL:
+${buildReferenceMaterial(ragChunks)}
+
+INSTRUCTIONS:
+1. Briefly and naturally correct yourself on air (e.g. "Actually, let me correct that...").
+2. State what the reference material actually says.
+3. Keep it to 1-2 sentences of spoken dialogue, no labels or stage directions.`;
+}
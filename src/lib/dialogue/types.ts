@@ -0,0 +1,78 @@
+/**
+ * Dialogue Providers
+ *
+ * A dialogue provider writes the hosts' lines for the live conversation. The
+ * playback view decides who speaks and what each turn should do; the provider
+ * turns that into a stream of text, whatever its backend is (Backboard
+ * threads, the Lovable gateway, ElevenLabs agents, a local OpenAI-compatible
+ * server).
+ */
+
+import { ClaimCheck, HostConfig, RagChunk } from '@/types/podcast';
+import type { SavedSeat } from '../backboard';
+
+export type DialogueProviderId = 'backboard' | 'gateway' | 'elevenlabs-agent' | 'openai-compatible' | 'mock';
+
+/** Per-turn grounding sent along with the turn instructions */
+export interface TurnContext {
+  /** Chunks retrieved for this turn (already ranked) */
+  ragChunks?: RagChunk[];
+  /** The sub-topic the hosts should be on right now */
+  subTopic?: string;
+  /** Where the episode is in its plan (transition, wrap-up, time left) */
+  pacing?: string;
+  /** Host taking this turn, and why they were picked (see turnTaking.ts) */
+  speaker?: { name: string; note?: string };
+  /** What the co-hosts and listener said since this host last spoke */
+  heard?: string;
+}
+
+/** One line said on air, by a host or the listener */
+export interface TranscriptLine {
+  speakerId: string;
+  speakerName: string;
+  text: string;
+}
+
+export interface DialogueSessionConfig {
+  hosts: HostConfig[];
+  topic: string;
+  /** Lines from an earlier run of the session, so the hosts pick up where it stopped */
+  transcript?: TranscriptLine[];
+  /** Backboard threads of that earlier run (only the Backboard provider can reopen them) */
+  savedSeats?: SavedSeat[];
+}
+
+export interface InterruptRequest {
+  userInput: string;
+  /** What the listener has heard so far */
+  spokenHistory: string;
+  /** The part of the current turn that was cut off */
+  unspokenText: string;
+  ragChunks?: RagChunk[];
+}
+
+export interface DialogueProvider {
+  readonly id: DialogueProviderId;
+  /**
+   * Whether a turn can be requested ahead of time and dropped unheard. Only
+   * true when a request leaves nothing behind on the provider's side - not
+   * for thread or session based backends, where it becomes history.
+   */
+  readonly canPrefetchTurns: boolean;
+  /** Whether nextTurn's events carry plain text instead of JSON payloads */
+  readonly plainTextStream?: boolean;
+  /** Sets up the hosts (assistants, agent sessions, ...) before the first turn */
+  init(config: DialogueSessionConfig): Promise<void>;
+  /** Streams the host's next turn as server-sent events (read by streamCoordinator) */
+  nextTurn(hostId: string, context: TurnContext, signal?: AbortSignal): Promise<ReadableStream<Uint8Array>>;
+  /** The host's reply to the listener cutting in */
+  interrupt(hostId: string, request: InterruptRequest): Promise<string>;
+  /** The host's on-air correction of claims the grounding checker flagged */
+  correct(hostId: string, turnText: string, flaggedClaims: ClaimCheck[], ragChunks: RagChunk[]): Promise<string>;
+  /** Adds a line said on air, by anyone, to what the hosts know */
+  recordLine(line: TranscriptLine): void;
+  /** Threads to store so the session can be continued later, if the provider has any */
+  getSavedSeats?(): SavedSeat[];
+  end(): Promise<void>;
+}
@@ -0,0 +1,85 @@
+/**
+ * Document Text Cache
+ *
+ * Keeps the extracted text and sections of uploaded documents in IndexedDB,
+ * keyed by file id. localStorage only holds the files' metadata: a couple of
+ * large PDFs would otherwise fill its ~5MB quota and stop the rest of the
+ * studio state from being saved. The local retrieval index is rebuilt from
+ * this text after a reload.
+ */
+
+import { DocumentSection, RagFile } from '@/types/podcast';
+
+const DB_NAME = 'omnicast-documents';
+const DB_VERSION = 1;
+const STORE_NAME = 'texts';
+
+interface CachedDocument {
+  id: string;
+  text: string;
+  sections: DocumentSection[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function saveDocumentText(file: RagFile): Promise<void> {
+  const entry: CachedDocument = { id: file.id, text: file.text, sections: file.sections };
+  await withStore('readwrite', store => store.put(entry));
+}
+
+export async function deleteDocumentText(fileId: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(fileId));
+}
+
+/**
+ * Fills in the text of files restored from their metadata. Files whose text
+ * is no longer cached are left out.
+ */
+export async function restoreDocumentTexts(
+  files: Omit<RagFile, 'text' | 'sections'>[]
+): Promise<RagFile[]> {
+  const restored: RagFile[] = [];
+  for (const file of files) {
+    const cached = await withStore<CachedDocument | undefined>('readonly', store => store.get(file.id));
+    if (cached) {
+      restored.push({ ...file, text: cached.text, sections: cached.sections || [] });
+    } else {
+      console.warn('[DocumentCache] No cached text for', file.name);
+    }
+  }
+  return restored;
+}
@@ -0,0 +1,292 @@
+/**
+ * Document Parser
+ *
+ * Extracts plain text from the reference material users upload
+ * (PDF, DOCX, PPTX, TXT, MD) so the hosts can ground the conversation in it.
+ *
+ * Every parser returns a list of sections so location information survives:
+ * - PDF: one section per page
+ * - PPTX: one section per slide (in presentation order)
+ * - DOCX / TXT / MD: a single body section
+ */
+
+import JSZip from 'jszip';
+import { DocumentSection } from '@/types/podcast';
+
+export type DocumentKind = 'pdf' | 'docx' | 'pptx' | 'markdown' | 'text';
+
+export interface ParsedDocument {
+  kind: DocumentKind;
+  /** Full extracted text, sections separated by blank lines */
+  text: string;
+  sections: DocumentSection[];
+}
+
+/** File extensions accepted by the upload inputs */
+export const SUPPORTED_DOCUMENT_EXTENSIONS = ['.pdf', '.docx', '.pptx', '.txt', '.md'] as const;
+
+/** Value for `<input accept>` on document upload fields */
+export const DOCUMENT_ACCEPT = SUPPORTED_DOCUMENT_EXTENSIONS.join(',');
+
+// Custom Error Class
+export class DocumentParseError extends Error {
+  constructor(
+    message: string,
+    public code: 'UNSUPPORTED_TYPE' | 'EMPTY_DOCUMENT' | 'PARSE_FAILED',
+    public fileName: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'DocumentParseError';
+  }
+}
+
+// OOXML namespaces
+const DRAWINGML_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const WORDML_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const PRESENTATIONML_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// ------------------------------------------------------------------
+// HELPERS
+// ------------------------------------------------------------------
+
+/**
+ * Determines the document kind from the file name, falling back to MIME type.
+ */
+export function detectDocumentKind(file: File): DocumentKind | null {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.pdf') || file.type === 'application/pdf') return 'pdf';
+  if (name.endsWith('.docx')) return 'docx';
+  if (name.endsWith('.pptx')) return 'pptx';
+  if (name.endsWith('.md') || name.endsWith('.markdown') || file.type === 'text/markdown') return 'markdown';
+  if (name.endsWith('.txt') || file.type === 'text/plain') return 'text';
+
+  return null;
+}
+
+/**
+ * Collapses runs of spaces/tabs and excessive blank lines.
+ */
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Strips Markdown syntax while keeping the readable text.
+ */
+function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/^---\n[\s\S]*?\n---\n/, '') // front matter
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, '$1') // fenced code -> contents
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '') // images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // links -> label
+    .replace(/<[^>]+>/g, '') // inline html
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '') // headings
+    .replace(/^\s{0,3}>\s?/gm, '') // blockquotes
+    .replace(/^\s*[-*+]\s+/gm, '- ') // list bullets
+    .replace(/(^|\W)(\*\*|__)(\S(?:.*?\S)?)\2(?=\W|$)/g, '$1$3') // bold
+    .replace(/(^|\W)([*_])(\S(?:.*?\S)?)\2(?=\W|$)/g, '$1$3') // italics, not snake_case or a * b
+    .replace(/`([^`]+)`/g, '$1'); // inline code
+}
+
+function parseXml(xml: string): Document {
+  return new DOMParser().parseFromString(xml, 'application/xml');
+}
+
+/**
+ * Reads the text of each paragraph (`<a:p>` / `<w:p>`) in an OOXML part.
+ * Runs are attributed to their nearest paragraph so nested text boxes are
+ * not duplicated into the enclosing paragraph.
+ */
+function extractParagraphs(doc: Document, namespace: string): string[] {
+  const lines = new Map<Element, string>();
+
+  for (const node of Array.from(doc.getElementsByTagNameNS(namespace, '*'))) {
+    if (node.localName !== 't' && node.localName !== 'tab' && node.localName !== 'br') continue;
+
+    let paragraph = node.parentElement;
+    while (paragraph && !(paragraph.localName === 'p' && paragraph.namespaceURI === namespace)) {
+      paragraph = paragraph.parentElement;
+    }
+    if (!paragraph) continue;
+
+    const text = node.localName === 't' ? node.textContent || '' : node.localName === 'tab' ? '\t' : '\n';
+    lines.set(paragraph, (lines.get(paragraph) || '') + text);
+  }
+
+  return Array.from(lines.values()).filter(line => line.trim().length > 0);
+}
+
+// ------------------------------------------------------------------
+// PARSERS
+// ------------------------------------------------------------------
+
+async function parsePdf(buffer: ArrayBuffer): Promise<DocumentSection[]> {
+  // Loaded lazily - pdf.js is large and only needed when a PDF is uploaded
+  const pdfjs = await import('pdfjs-dist');
+  const { default: workerSrc } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(buffer) }).promise;
+  const sections: DocumentSection[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      let pageText = '';
+      for (const item of content.items) {
+        if (!('str' in item)) continue;
+        pageText += item.str + (item.hasEOL ? '\n' : ' ');
+      }
+
+      const text = normalizeWhitespace(pageText);
+      if (text) {
+        sections.push({ kind: 'page', index: pageNumber, text });
+      }
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return sections;
+}
+
+async function parseDocx(buffer: ArrayBuffer): Promise<DocumentSection[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+
+  if (!documentXml) {
+    throw new Error('word/document.xml not found');
+  }
+
+  const text = normalizeWhitespace(extractParagraphs(parseXml(documentXml), WORDML_NS).join('\n'));
+  return text ? [{ kind: 'body', index: 1, text }] : [];
+}
+
+/**
+ * Resolves slide part paths in presentation order using presentation.xml
+ * and its relationships. Falls back to numeric file-name order.
+ */
+async function resolveSlideOrder(zip: JSZip): Promise<string[]> {
+  const presentationXml = await zip.file('ppt/presentation.xml')?.async('string');
+  const relsXml = await zip.file('ppt/_rels/presentation.xml.rels')?.async('string');
+
+  if (presentationXml && relsXml) {
+    const targets = new Map<string, string>();
+    Array.from(parseXml(relsXml).getElementsByTagNameNS(PACKAGE_RELS_NS, 'Relationship')).forEach(rel => {
+      const id = rel.getAttribute('Id');
+      const target = rel.getAttribute('Target');
+      if (id && target) {
+        targets.set(id, target.startsWith('/') ? target.slice(1) : `ppt/${target}`);
+      }
+    });
+
+    const ordered = Array.from(parseXml(presentationXml).getElementsByTagNameNS(PRESENTATIONML_NS, 'sldId'))
+      .map(sldId => targets.get(sldId.getAttributeNS(RELATIONSHIPS_NS, 'id') || ''))
+      .filter((path): path is string => !!path && !!zip.file(path));
+
+    if (ordered.length > 0) return ordered;
+  }
+
+  const slideNumber = (path: string) => Number(path.match(/slide(\d+)\.xml$/)?.[1] || 0);
+  return Object.keys(zip.files)
+    .filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+}
+
+async function parsePptx(buffer: ArrayBuffer): Promise<DocumentSection[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  const slidePaths = await resolveSlideOrder(zip);
+  const sections: DocumentSection[] = [];
+
+  for (let i = 0; i < slidePaths.length; i++) {
+    const slideXml = await zip.file(slidePaths[i])!.async('string');
+    const text = normalizeWhitespace(extractParagraphs(parseXml(slideXml), DRAWINGML_NS).join('\n'));
+
+    // Keep slide numbering stable even when a slide has no text
+    if (text) {
+      sections.push({ kind: 'slide', index: i + 1, text });
+    }
+  }
+
+  return sections;
+}
+
+// ------------------------------------------------------------------
+// PUBLIC API
+// ------------------------------------------------------------------
+
+/**
+ * Parses an uploaded file into plain text sections.
+ *
+ * @throws DocumentParseError when the type is unsupported, the file cannot be
+ * read, or no text could be extracted
+ */
+export async function parseDocument(file: File): Promise<ParsedDocument> {
+  const kind = detectDocumentKind(file);
+
+  if (!kind) {
+    throw new DocumentParseError(
+      `Unsupported file type: ${file.name}. Supported types: ${SUPPORTED_DOCUMENT_EXTENSIONS.join(', ')}`,
+      'UNSUPPORTED_TYPE',
+      file.name
+    );
+  }
+
+  console.log('[DocumentParser] Parsing', { fileName: file.name, kind, size: file.size });
+
+  let sections: DocumentSection[];
+
+  try {
+    switch (kind) {
+      case 'pdf':
+        sections = await parsePdf(await file.arrayBuffer());
+        break;
+      case 'docx':
+        sections = await parseDocx(await file.arrayBuffer());
+        break;
+      case 'pptx':
+        sections = await parsePptx(await file.arrayBuffer());
+        break;
+      case 'markdown': {
+        const text = normalizeWhitespace(stripMarkdown(await file.text()));
+        sections = text ? [{ kind: 'body', index: 1, text }] : [];
+        break;
+      }
+      case 'text': {
+        const text = normalizeWhitespace(await file.text());
+        sections = text ? [{ kind: 'body', index: 1, text }] : [];
+        break;
+      }
+    }
+  } catch (err) {
+    console.error(`[DocumentParser] Failed to parse ${file.name}:`, err);
+    throw new DocumentParseError(`Could not read ${file.name}`, 'PARSE_FAILED', file.name, err);
+  }
+
+  if (sections.length === 0) {
+    throw new DocumentParseError(
+      kind === 'pdf'
+        ? `No text found in ${file.name}. Scanned PDFs without a text layer are not supported.`
+        : `No text found in ${file.name}`,
+      'EMPTY_DOCUMENT',
+      file.name
+    );
+  }
+
+  const text = sections.map(s => s.text).join('\n\n');
+  console.log('[DocumentParser] Parsed', { fileName: file.name, sections: sections.length, chars: text.length });
+
+  return { kind, text, sections };
+}
@@ -0,0 +1,133 @@
+/**
+ * Document Store Client
+ *
+ * Talks to the ingest-document edge function, which keeps embedded chunks in
+ * the pgvector-backed `document_chunks` table. Original files are kept in the
+ * `classroom-documents` bucket under `<user_id>/<file_id>/<name>`.
+ *
+ * Only available to signed-in users; callers fall back to the local index otherwise.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { RagChunk } from '@/types/podcast';
+
+const STORAGE_BUCKET = 'classroom-documents';
+const FUNCTION_NAME = 'ingest-document';
+
+// Custom Error Class
+export class DocumentStoreError extends Error {
+  constructor(
+    message: string,
+    public code: 'NOT_AUTHENTICATED' | 'UPLOAD_FAILED' | 'FUNCTION_ERROR',
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'DocumentStoreError';
+  }
+}
+
+interface MatchedChunk {
+  id: string;
+  file_id: string;
+  file_name: string;
+  chunk_index: number;
+  content: string;
+  section_kind: string;
+  page: number | null;
+  similarity: number;
+}
+
+async function invoke<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(FUNCTION_NAME, { body });
+
+  if (error) {
+    throw new DocumentStoreError(error.message || `${FUNCTION_NAME} failed`, 'FUNCTION_ERROR', error);
+  }
+  if (data?.error) {
+    throw new DocumentStoreError(data.error, 'FUNCTION_ERROR', data);
+  }
+
+  return data as T;
+}
+
+/**
+ * Returns the signed-in user's id, or null when the remote store can't be used.
+ */
+export async function getDocumentStoreUserId(): Promise<string | null> {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+}
+
+/**
+ * Uploads the original file to storage. Returns the storage path.
+ */
+export async function uploadSourceFile(userId: string, fileId: string, file: File): Promise<string> {
+  const path = `${userId}/${fileId}/${file.name}`;
+  const { error } = await supabase.storage.from(STORAGE_BUCKET).upload(path, file, { upsert: true });
+
+  if (error) {
+    throw new DocumentStoreError(`Failed to upload ${file.name}`, 'UPLOAD_FAILED', error);
+  }
+
+  return path;
+}
+
+/**
+ * Embeds and stores a file's chunks, replacing any previously stored chunks.
+ */
+export async function storeChunks(params: {
+  fileId: string;
+  fileName: string;
+  chunks: RagChunk[];
+  storagePath?: string;
+  sessionId?: string;
+}): Promise<number> {
+  const result = await invoke<{ chunksCreated: number }>({
+    action: 'ingest',
+    fileId: params.fileId,
+    fileName: params.fileName,
+    storagePath: params.storagePath,
+    sessionId: params.sessionId,
+    chunks: params.chunks.map(chunk => ({
+      text: chunk.text,
+      sectionKind: chunk.sectionKind,
+      page: chunk.page,
+    })),
+  });
+
+  return result.chunksCreated;
+}
+
+/**
+ * Top-k similarity search over the user's stored chunks.
+ */
+export async function searchChunks(
+  query: string,
+  options: { topK?: number; fileIds?: string[]; sessionId?: string } = {}
+): Promise<RagChunk[]> {
+  const result = await invoke<{ chunks: MatchedChunk[] }>({
+    action: 'search',
+    query,
+    topK: options.topK ?? 5,
+    fileIds: options.fileIds,
+    sessionId: options.sessionId,
+  });
+
+  return result.chunks.map(match => ({
+    id: `chunk-${match.file_id}-${match.chunk_index}`,
+    fileId: match.file_id,
+    fileName: match.file_name,
+    text: match.content,
+    relevanceScore: Math.max(0, Math.min(1, match.similarity)),
+    sectionKind: match.section_kind as RagChunk['sectionKind'],
+    page: match.page ?? undefined,
+  }));
+}
+
+/**
+ * Removes a file's chunks and its stored original.
+ */
+export async function deleteStoredFile(fileId: string): Promise<number> {
+  const result = await invoke<{ chunksDeleted: number }>({ action: 'delete', fileId });
+  return result.chunksDeleted;
+}
@@ -5,17 +5,13 @@
  * 
  * Prerequisites:
  * 1. Add ELEVENLABS_API_KEY to environment variables
- * 2. Map voice IDs to actual ElevenLabs voice IDs
- * 3. Handle audio streaming and caching
+ * 2. Handle audio streaming and caching
  * 
- * ElevenLabs Voice IDs (examples):
- * - "21m00Tcm4TlvDq8ikWAM" - Rachel (female)
- * - "AZnzlk1XvdvUeBnXmlld" - Domi (female)
- * - "EXAVITQu4vr4xnSDxMaL" - Bella (female)
- * - "ErXwobaYiN019PkySvjV" - Antoni (male)
- * - "VR6AewLTigWG4xSOukaG" - Arnold (male)
+ * Voices are resolved through the shared voice registry (see voices.ts).
  */
 
+import { VOICES } from './voices';
+
 export interface AudioBlob {
   blob: Blob;
   duration: number;
@@ -77,17 +73,11 @@ export async function generateSpeech(
 }
 
 /**
- * Map internal voice IDs to ElevenLabs voice IDs
- * 
- * TODO: Update with actual ElevenLabs voice IDs
+ * Map internal voice IDs to ElevenLabs voice IDs (from the voice registry)
  */
-export const VOICE_ID_MAP: Record<string, string> = {
-  'male-deep': 'nPczCjzI2devNBz1zQrb', // Brian - deep male
-  'male-calm': 'onwK4e9ZLuTAKqWW03F9', // Daniel - calm male
-  'female-warm': 'EXAVITQu4vr4xnSDxMaL', // Sarah - warm female
-  'female-energetic': 'cgSgspJ2msm6clMCkdW9', // Jessica - energetic female
-  'british-crisp': 'JBFqnCBsd6RMkjVDRZzb', // George - British crisp
-};
+export const VOICE_ID_MAP: Record<string, string> = Object.fromEntries(
+  VOICES.map(voice => [voice.id, voice.elevenLabsId])
+);
 
 /**
  * Check if ElevenLabs API is configured and available
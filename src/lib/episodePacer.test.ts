@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { EpisodeOutline, OutlineSegment } from '@/types/podcast';
+import { EpisodePacer, estimateSpokenSeconds } from './episodePacer';
+
+function segment(kind: OutlineSegment['kind'], title: string, durationSeconds: number): OutlineSegment {
+  return { id: title, kind, title, goal: '', talkingPoints: [], leadHostId: 'host-1', durationSeconds, turns: 1 };
+}
+
+// 180 seconds: 20s intro, two 60s topics, 20s recap, 20s outro
+function outline(): EpisodeOutline {
+  return {
+    topic: 'Solar power',
+    length: 'short',
+    segments: [
+      segment('intro', 'Welcome', 20),
+      segment('topic', 'Panels', 60),
+      segment('topic', 'Storage', 60),
+      segment('recap', 'Recap', 20),
+      segment('outro', 'Goodbye', 20),
+    ],
+  };
+}
+
+describe('estimateSpokenSeconds', () => {
+  it('assumes two and a half words a second', () => {
+    expect(estimateSpokenSeconds('  one two three four five ')).toBe(2);
+  });
+});
+
+describe('EpisodePacer', () => {
+  it('takes its length from the segment budgets', () => {
+    expect(new EpisodePacer(outline()).progress).toEqual({
+      segmentIndex: 0, elapsedSeconds: 0, totalSeconds: 180, finished: false,
+    });
+  });
+
+  it('moves to the next segment once its budget is spent', () => {
+    const pacer = new EpisodePacer(outline());
+
+    pacer.recordTurn(5);
+    expect(pacer.nextCue()).toMatchObject({ phase: 'continue', segmentIndex: 0 });
+
+    pacer.recordTurn(15);
+    const cue = pacer.nextCue();
+    expect(cue).toMatchObject({ phase: 'open', segmentIndex: 1, isSegmentStart: true });
+    expect(cue.instruction).toContain('Move the conversation on to "Panels"');
+  });
+
+  it('hands over to the next segment when one more turn would use up the budget', () => {
+    const pacer = new EpisodePacer(outline());
+    [20, 25, 25].forEach(seconds => pacer.recordTurn(seconds));
+
+    const cue = pacer.nextCue();
+
+    expect(cue).toMatchObject({ phase: 'transition', segmentIndex: 1 });
+    expect(cue.instruction).toContain('hand over naturally to the next segment: "Storage"');
+  });
+
+  it('skips the remaining topics when the episode runs over', () => {
+    const pacer = new EpisodePacer(outline());
+
+    pacer.recordTurn(150);
+
+    expect(pacer.progress.segmentIndex).toBe(3);
+    expect(pacer.nextCue()).toMatchObject({ segment: { title: 'Recap' }, isSegmentStart: true });
+  });
+
+  it('hands over to the recap early when the next turn would eat into closing time', () => {
+    const pacer = new EpisodePacer(outline());
+    [20, 60, 30].forEach(seconds => pacer.recordTurn(seconds));
+
+    const cue = pacer.nextCue();
+
+    expect(cue).toMatchObject({ phase: 'transition', segment: { title: 'Storage' } });
+    expect(cue.instruction).toContain('"Recap"');
+  });
+
+  it('finishes right after the sign-off, even with outro time left', () => {
+    const pacer = new EpisodePacer(outline());
+    [20, 60, 60, 20].forEach(seconds => pacer.recordTurn(seconds));
+
+    const signOff = pacer.nextCue();
+    expect(signOff.phase).toBe('wrap-up');
+    expect(signOff.instruction).toContain('final turn');
+
+    pacer.recordTurn(5);
+    expect(pacer.isFinished).toBe(true);
+    expect(pacer.nextCue().phase).toBe('finished');
+    expect(pacer.progress).toMatchObject({ segmentIndex: 4, elapsedSeconds: 165, finished: true });
+  });
+
+  it('peeks at the next cue without advancing', () => {
+    const pacer = new EpisodePacer(outline());
+
+    expect(pacer.peekCue(20).segmentIndex).toBe(1);
+    expect(pacer.progress.elapsedSeconds).toBe(0);
+    expect(pacer.nextCue().segmentIndex).toBe(0);
+  });
+});
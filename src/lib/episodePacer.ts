@@ -0,0 +1,204 @@
+/**
+ * Episode Pacer
+ *
+ * Walks the live conversation through an outline (intro, topic segments,
+ * recap, outro) by spoken time. After every turn the loop reports how long
+ * it took to say; the pacer moves to the next segment once a segment's time
+ * budget is spent, cuts straight to the closing segments when the episode
+ * runs over the chosen LENGTH_OPTIONS duration, and reports when the episode
+ * is finished.
+ */
+
+import { EpisodeOutline, OutlineSegment, LENGTH_OPTIONS } from '@/types/podcast';
+
+export type PacingPhase = 'open' | 'continue' | 'transition' | 'wrap-up' | 'finished';
+
+export interface PacingCue {
+  phase: PacingPhase;
+  segmentIndex: number;
+  segment: OutlineSegment | null;
+  /** Whether the next turn is the first of its segment */
+  isSegmentStart: boolean;
+  /** Pacing note for the host (TurnContext.pacing) */
+  instruction: string;
+}
+
+export interface PacingProgress {
+  segmentIndex: number;
+  elapsedSeconds: number;
+  totalSeconds: number;
+  finished: boolean;
+}
+
+// Average conversational speaking rate, used when a turn's playback wasn't timed
+const WORDS_PER_SECOND = 2.5;
+
+/**
+ * Estimates how long a piece of text takes to say out loud.
+ */
+export function estimateSpokenSeconds(text: string): number {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return words / WORDS_PER_SECOND;
+}
+
+function describeTimeLeft(seconds: number): string {
+  if (seconds < 30) return 'The episode is almost out of time.';
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  return `About ${minutes} minute${minutes !== 1 ? 's' : ''} of the episode left.`;
+}
+
+export class EpisodePacer {
+  readonly outline: EpisodeOutline;
+  private readonly totalSeconds: number;
+  private segmentIndex = 0;
+  private segmentElapsed = 0;
+  private segmentTurns = 0;
+  private elapsed = 0;
+  private turnSeconds: number[] = [];
+  private signOffGiven = false;
+  private readonly plannedTurnSeconds: number;
+
+  constructor(outline: EpisodeOutline) {
+    const option = LENGTH_OPTIONS.find(o => o.value === outline.length) || LENGTH_OPTIONS[1];
+    this.outline = outline;
+    this.plannedTurnSeconds = option.seconds / option.turns;
+    // The outline may have been edited, so its budgets (not the preset) define the length
+    this.totalSeconds = outline.segments.reduce((sum, s) => sum + s.durationSeconds, 0) || option.seconds;
+  }
+
+  get isFinished(): boolean {
+    return this.segmentIndex >= this.outline.segments.length;
+  }
+
+  get progress(): PacingProgress {
+    return {
+      segmentIndex: Math.min(this.segmentIndex, this.outline.segments.length - 1),
+      elapsedSeconds: Math.round(this.elapsed),
+      totalSeconds: this.totalSeconds,
+      finished: this.isFinished,
+    };
+  }
+
+  // Running average of real turn lengths, falling back to the plan until a few turns are in
+  private get averageTurnSeconds(): number {
+    if (this.turnSeconds.length < 2) return this.plannedTurnSeconds;
+    const recent = this.turnSeconds.slice(-6);
+    return recent.reduce((sum, s) => sum + s, 0) / recent.length;
+  }
+
+  // First closing segment (recap/outro) and the time reserved for the closing segments
+  private get closing(): { index: number; seconds: number } {
+    const index = this.outline.segments.findIndex(s => s.kind === 'recap' || s.kind === 'outro');
+    const seconds = index >= 0
+      ? this.outline.segments.slice(index).reduce((sum, s) => sum + s.durationSeconds, 0)
+      : 0;
+    return { index, seconds };
+  }
+
+  private moveTo(index: number): void {
+    this.segmentIndex = index;
+    this.segmentElapsed = 0;
+    this.segmentTurns = 0;
+  }
+
+  /**
+   * Records a finished turn and advances the plan.
+   *
+   * @param spokenSeconds - How long the turn took to say
+   */
+  recordTurn(spokenSeconds: number): void {
+    if (this.isFinished) return;
+
+    const seconds = Math.max(0, spokenSeconds);
+    this.elapsed += seconds;
+    this.segmentElapsed += seconds;
+    this.segmentTurns++;
+    this.turnSeconds.push(seconds);
+
+    const segment = this.outline.segments[this.segmentIndex];
+    if (this.signOffGiven) {
+      // The host has said goodbye - nothing may follow it
+      this.moveTo(this.outline.segments.length);
+      return;
+    }
+    if (this.segmentElapsed >= segment.durationSeconds) {
+      this.moveTo(this.segmentIndex + 1);
+    }
+
+    // Over time: skip whatever topic material is left and close the episode
+    const closing = this.closing;
+    if (closing.index > this.segmentIndex && this.elapsed >= this.totalSeconds - closing.seconds) {
+      console.log('[Pacer] Running over time, skipping to', this.outline.segments[closing.index].title);
+      this.moveTo(closing.index);
+    }
+  }
+
+  /**
+   * The cue nextCue() would give after a turn of this length, leaving the
+   * plan untouched - for preparing the next turn while this one still plays.
+   */
+  peekCue(spokenSeconds: number): PacingCue {
+    const copy: EpisodePacer = Object.assign(Object.create(EpisodePacer.prototype), this, {
+      turnSeconds: [...this.turnSeconds],
+    });
+    copy.recordTurn(spokenSeconds);
+    return copy.nextCue();
+  }
+
+  /**
+   * What the next turn should do.
+   */
+  nextCue(): PacingCue {
+    if (this.isFinished) {
+      return { phase: 'finished', segmentIndex: this.segmentIndex, segment: null, isSegmentStart: false, instruction: '' };
+    }
+
+    const segments = this.outline.segments;
+    const segment = segments[this.segmentIndex];
+    const isSegmentStart = this.segmentTurns === 0;
+    const remaining = segment.durationSeconds - this.segmentElapsed;
+    const timeLeft = describeTimeLeft(this.totalSeconds - this.elapsed);
+
+    // The next turn runs into the time reserved for closing: hand over to the recap now
+    const closing = this.closing;
+    const mustClose = closing.index > this.segmentIndex
+      && this.elapsed + this.averageTurnSeconds >= this.totalSeconds - closing.seconds;
+    const next = mustClose ? segments[closing.index] : segments[this.segmentIndex + 1];
+    const isLastTurn = mustClose || remaining <= this.averageTurnSeconds;
+
+    const base = { segmentIndex: this.segmentIndex, segment, isSegmentStart };
+
+    if (segment.kind === 'outro') {
+      this.signOffGiven = isLastTurn;
+      return {
+        ...base,
+        phase: 'wrap-up',
+        instruction: isLastTurn
+          ? 'This is the final turn of the episode: thank the listener and say goodbye. Do not ask a question or introduce anything new.'
+          : 'We are wrapping up the episode: keep it brief and start signing off.',
+      };
+    }
+
+    if (isLastTurn && next) {
+      return {
+        ...base,
+        phase: 'transition',
+        instruction: `${isSegmentStart ? `Open "${segment.title}" briefly, then` : `Finish "${segment.title}" and`} hand over naturally to the next segment: "${next.title}". ${timeLeft}`,
+      };
+    }
+
+    if (isSegmentStart && this.segmentIndex > 0) {
+      return {
+        ...base,
+        phase: 'open',
+        instruction: `Move the conversation on to "${segment.title}" with a natural segue from what was just said. ${timeLeft}`,
+      };
+    }
+
+    return {
+      ...base,
+      phase: isSegmentStart ? 'open' : 'continue',
+      instruction: `Stay on "${segment.title}". ${timeLeft}`,
+    };
+  }
+}
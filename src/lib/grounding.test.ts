@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { RagChunk } from '@/types/podcast';
+import { verifyTurn } from './grounding';
+
+function chunk(text: string): RagChunk {
+  return { id: 'doc-1', fileId: 'file-1', fileName: 'notes.pdf', text, relevanceScore: 1 };
+}
+
+const SOURCE = chunk(
+  'Photosynthesis converts sunlight into chemical energy inside chloroplasts. ' +
+  'The Eiffel Tower was completed in 1889 for the World Fair. ' +
+  'Mitochondria do not perform photosynthesis in animal cells, they release energy from glucose.'
+);
+
+function statusOf(claim: string): string {
+  return verifyTurn(claim, [SOURCE]).claims[0]?.status;
+}
+
+describe('verifyTurn', () => {
+  it('supports a claim the source states', () => {
+    expect(statusOf('Photosynthesis converts sunlight into chemical energy in chloroplasts.')).toBe('supported');
+  });
+
+  it('contradicts a closely matching claim with different figures', () => {
+    const report = verifyTurn('The Eiffel Tower was completed in 1901 for the World Fair.', [SOURCE]);
+
+    expect(report.claims[0]).toMatchObject({ status: 'contradicted', reason: 'Source gives 1889, not 1901' });
+    expect(report.status).not.toBe('grounded');
+  });
+
+  it('contradicts a claim that negates a fully matching source sentence', () => {
+    expect(statusOf('Photosynthesis never converts sunlight into chemical energy inside chloroplasts.')).toBe('contradicted');
+  });
+
+  it('does not call a loosely related claim contradicted because of a stray negation or number', () => {
+    expect(statusOf('Animal cells use plenty of heat during exercise, not light.')).toBe('unsupported');
+    expect(statusOf('Paris built 300 towers before the World Fair opened.')).toBe('unsupported');
+  });
+
+  it('does not call a partly matching claim contradicted when the source has a negation elsewhere', () => {
+    expect(statusOf('Mitochondria produce energy from glucose in animal cells.')).toBe('supported');
+  });
+});
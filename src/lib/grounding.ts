@@ -0,0 +1,142 @@
+/**
+ * Grounding Checker
+ *
+ * Verifies generated dialogue against the retrieved document chunks.
+ * Each turn is split into sentences, sentences that make checkable factual
+ * claims are compared with the best-matching source sentence, and claims are
+ * marked as supported, unsupported (no source says this) or contradicted
+ * (a source says something close but with different figures or polarity).
+ *
+ * Purely local and synchronous so it can run after every live turn as well as
+ * over a whole transcript from generate-podcast.
+ */
+
+import { ClaimCheck, GroundingReport, RagChunk } from '@/types/podcast';
+import { splitIntoSentences } from './chunking';
+import { tokenize } from './retrievalIndex';
+import { toCitation } from './citations';
+
+export interface GroundingOptions {
+  /** Fraction of a claim's content terms that must appear in a source sentence */
+  supportThreshold?: number;
+  /** Overlap above which a source sentence is "about the same thing" */
+  relatedThreshold?: number;
+  /** Claims with fewer content terms are treated as conversational filler */
+  minClaimTerms?: number;
+}
+
+const DEFAULTS: Required<GroundingOptions> = {
+  supportThreshold: 0.5,
+  relatedThreshold: 0.35,
+  minClaimTerms: 4,
+};
+
+const HEDGE_PATTERN = /\b(i think|i feel|i guess|i believe|in my opinion|maybe|perhaps|imagine|let's|you know|right\?)/i;
+const ASSERTION_PATTERN = /\b(is|are|was|were|does|do|did|has|have|had|means|causes?|caused|consists?|contains?|requires?|occurs?|produces?|converts?|uses?|shows?|showed|leads? to|results? in|invented|discovered|founded|introduced)\b/i;
+const NEGATIONS = ['not', 'no', 'never', 'none', 'neither', 'nor', 'cannot', "can't", "doesn't", "don't", "isn't", "aren't", "wasn't", "weren't", "won't", "didn't"];
+const NEGATION_PATTERN = new RegExp(`\\b(${NEGATIONS.join('|')})\\b`, 'i');
+// The same words as index terms, to leave out when comparing what a sentence says
+const NEGATION_TERMS = new Set(tokenize(NEGATIONS.join(' ')));
+
+interface SourceSentence {
+  chunk: RagChunk;
+  text: string;
+  terms: Set<string>;
+}
+
+function extractNumbers(text: string): string[] {
+  return (text.match(/\d+(?:[.,]\d+)*%?/g) || []).map(n => n.replace(/,/g, ''));
+}
+
+/**
+ * Whether a sentence makes a factual claim worth checking
+ * (rather than a question, opinion, or conversational filler).
+ */
+export function isCheckableClaim(sentence: string, minClaimTerms = DEFAULTS.minClaimTerms): boolean {
+  const trimmed = sentence.trim();
+  if (trimmed.endsWith('?') || HEDGE_PATTERN.test(trimmed)) return false;
+  if (new Set(tokenize(trimmed)).size < minClaimTerms) return false;
+
+  const hasNumber = /\d/.test(trimmed);
+  const hasProperNoun = /\s[A-Z][a-z]+/.test(trimmed);
+  return hasNumber || hasProperNoun || ASSERTION_PATTERN.test(trimmed);
+}
+
+function indexSources(chunks: RagChunk[]): SourceSentence[] {
+  return chunks.flatMap(chunk =>
+    splitIntoSentences(chunk.text).map(text => ({ chunk, text, terms: new Set(tokenize(text)) }))
+  );
+}
+
+function checkClaim(claim: string, sources: SourceSentence[], options: Required<GroundingOptions>): ClaimCheck {
+  const claimTerms = new Set(tokenize(claim));
+
+  let best: SourceSentence | null = null;
+  let bestCoverage = 0;
+  for (const source of sources) {
+    let shared = 0;
+    claimTerms.forEach(term => { if (source.terms.has(term)) shared++; });
+    const coverage = shared / claimTerms.size;
+    if (coverage > bestCoverage) {
+      best = source;
+      bestCoverage = coverage;
+    }
+  }
+
+  if (!best || bestCoverage < options.relatedThreshold) {
+    return { claim, status: 'unsupported', confidence: bestCoverage, reason: 'Not found in the uploaded documents' };
+  }
+
+  const citation = toCitation(best.chunk);
+
+  if (bestCoverage < options.supportThreshold) {
+    return { claim, status: 'unsupported', confidence: bestCoverage, reason: 'Only loosely related to the source', citation };
+  }
+
+  // Same subject, different figures
+  const claimNumbers = extractNumbers(claim);
+  const sourceNumbers = extractNumbers(best.text);
+  if (claimNumbers.length > 0 && sourceNumbers.length > 0 && !claimNumbers.some(n => sourceNumbers.includes(n))) {
+    return {
+      claim,
+      status: 'contradicted',
+      confidence: bestCoverage,
+      reason: `Source gives ${sourceNumbers.join(', ')}, not ${claimNumbers.join(', ')}`,
+      citation,
+    };
+  }
+
+  // Same statement, opposite polarity - only when every other term matches,
+  // so a negation elsewhere in a longer source sentence doesn't count
+  const statementTerms = [...claimTerms].filter(term => !NEGATION_TERMS.has(term));
+  const sameStatement = statementTerms.length > 0 && statementTerms.every(term => best.terms.has(term));
+  if (sameStatement && NEGATION_PATTERN.test(claim) !== NEGATION_PATTERN.test(best.text)) {
+    return { claim, status: 'contradicted', confidence: bestCoverage, reason: 'Source states the opposite', citation };
+  }
+
+  return { claim, status: 'supported', confidence: bestCoverage, citation };
+}
+
+/**
+ * Checks every claim in a turn against the chunks retrieved for it.
+ * Returns a `skipped` report when there is nothing to check against.
+ */
+export function verifyTurn(text: string, chunks: RagChunk[], options: GroundingOptions = {}): GroundingReport {
+  const resolved = { ...DEFAULTS, ...options };
+
+  if (chunks.length === 0) {
+    return { status: 'skipped', claims: [], flagged: [] };
+  }
+
+  const sources = indexSources(chunks);
+  const claims = splitIntoSentences(text)
+    .filter(sentence => isCheckableClaim(sentence, resolved.minClaimTerms))
+    .map(claim => checkClaim(claim, sources, resolved));
+  const flagged = claims.filter(check => check.status !== 'supported');
+
+  let status: GroundingReport['status'] = 'grounded';
+  if (flagged.some(check => check.status === 'contradicted')) status = 'contradicted';
+  else if (flagged.length > 0) status = flagged.length === claims.length ? 'ungrounded' : 'partial';
+
+  return { status, claims, flagged };
+}
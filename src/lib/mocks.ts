@@ -0,0 +1,289 @@
+/**
+ * Offline Mocks
+ *
+ * Deterministic stand-ins for the live services: scripted host turns streamed
+ * token by token, synthetic speech audio and a fake speech-to-text. Enabled
+ * with VITE_MOCK_PROVIDERS=true, which routes the dialogue provider, TTS, STT,
+ * the voice library and the generation edge functions here so the studio and the real-time
+ * playback run end to end without keys or network. The same inputs always
+ * produce the same text and audio.
+ */
+
+import { HostConfig, PodcastSettings, RagChunk, TranscriptTurn, LENGTH_OPTIONS } from '@/types/podcast';
+import { createTextEventStream } from './dialogue/eventStream';
+import type { LibraryVoice, VoiceLibraryFilters, VoiceLibraryPage } from './speechGateway';
+import { VOICES } from './voices';
+
+export const MOCK_MODE = import.meta.env.VITE_MOCK_PROVIDERS === 'true';
+
+// Delay between streamed tokens, roughly a fast LLM
+const DEFAULT_TOKEN_DELAY_MS = Number(import.meta.env.VITE_MOCK_TOKEN_DELAY_MS) || 45;
+
+// Speaking rate of the synthetic audio (~150 words per minute)
+const WORDS_PER_SECOND = 2.5;
+const SAMPLE_RATE = 8000;
+
+// ============================================================================
+// Determinism
+// ============================================================================
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Seeded random in [0, 1) (mulberry32).
+ */
+export function seededRandom(seed: string): () => number {
+  let state = hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(items: readonly T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// ============================================================================
+// Scripted dialogue
+// ============================================================================
+
+const OPENERS = [
+  'Okay, so',
+  'Right, and',
+  'Here is the thing:',
+  'I want to push on that a little.',
+  'That is a great point, and',
+  'Let me build on that.',
+] as const;
+
+const STATEMENTS = [
+  'when you look at {topic}, the interesting part is how the pieces fit together.',
+  'most people get {topic} wrong because they skip the basics.',
+  'the practical side of {topic} matters more than the theory.',
+  'there is a real trade-off hiding inside {topic}.',
+  '{topic} only makes sense once you see a concrete example.',
+] as const;
+
+const FOLLOW_UPS = [
+  'Does that match what you have seen?',
+  'I think listeners will recognise that.',
+  'And that changes how you approach it.',
+  'Which is exactly why it is worth talking about.',
+  'So where would you start?',
+] as const;
+
+const LISTENER_QUESTIONS = [
+  'Can you give a concrete example of that?',
+  'How does this apply to beginners?',
+  'What is the most common mistake people make here?',
+  'Could you explain that last part again, more simply?',
+] as const;
+
+export interface ScriptedTurnParams {
+  hostName: string;
+  topic?: string;
+  ragChunks?: RagChunk[];
+  /** Distinguishes otherwise identical turns (turn number, segment id, ...) */
+  seed?: string | number;
+}
+
+/**
+ * Writes a plausible two or three sentence host turn about the topic, quoting
+ * the first retrieved chunk when there is one so citations light up.
+ */
+export function scriptTurn({ hostName, topic, ragChunks = [], seed = 0 }: ScriptedTurnParams): string {
+  const subject = (topic || 'this topic').trim();
+  const random = seededRandom(`${hostName}|${subject}|${seed}`);
+
+  const opener = pick(OPENERS, random);
+  let statement = pick(STATEMENTS, random).replace('{topic}', subject);
+  if (/[.!?]$/.test(opener)) {
+    statement = statement.charAt(0).toUpperCase() + statement.slice(1);
+  }
+  const sentences = [`${opener} ${statement}`];
+
+  const quoted = ragChunks[0]?.text.split(/(?<=[.!?])\s+/)[0]?.trim();
+  if (quoted) {
+    sentences.push(`The material puts it like this: ${quoted.replace(/[.!?]?$/, '.')}`);
+  }
+
+  sentences.push(pick(FOLLOW_UPS, random));
+  return sentences.join(' ');
+}
+
+/**
+ * Streams text as server-sent events one word at a time, like a model would.
+ */
+export function streamScriptedText(
+  text: string,
+  signal?: AbortSignal,
+  tokenDelayMs: number = DEFAULT_TOKEN_DELAY_MS
+): ReadableStream<Uint8Array> {
+  const { stream, sink } = createTextEventStream(signal);
+  const tokens = text.match(/\S+\s*/g) || [];
+
+  let index = 0;
+  const next = () => {
+    if (signal?.aborted) return;
+    if (index >= tokens.length) {
+      sink.close();
+      return;
+    }
+    sink.push(tokens[index++]);
+    setTimeout(next, tokenDelayMs);
+  };
+  setTimeout(next, tokenDelayMs);
+
+  return stream;
+}
+
+/**
+ * Stand-in for the generate-podcast edge function.
+ */
+export function mockGeneratedPodcast(params: {
+  prompt: string;
+  hosts: HostConfig[];
+  settings: PodcastSettings;
+  ragChunks: RagChunk[];
+}) {
+  const { prompt, hosts, settings, ragChunks } = params;
+  const turns = LENGTH_OPTIONS.find(o => o.value === settings.length)?.turns ?? 20;
+
+  const transcript: TranscriptTurn[] = Array.from({ length: turns }, (_, index) => {
+    const host = hosts[index % hosts.length];
+    return {
+      id: `turn-${index}`,
+      speakerId: host.id,
+      speakerName: host.name,
+      text: scriptTurn({ hostName: host.name, topic: prompt, ragChunks: ragChunks.slice(index % Math.max(ragChunks.length, 1)), seed: index }),
+      timestamp: index * 12,
+    };
+  });
+
+  return {
+    id: `podcast-${hashString(prompt).toString(36)}`,
+    title: `Talking about ${prompt}`.slice(0, 60),
+    prompt,
+    transcript,
+    ragChunks,
+    createdAt: new Date(0).toISOString(),
+  };
+}
+
+// ============================================================================
+// Speech
+// ============================================================================
+
+/**
+ * Seconds it takes to say the text at a normal speaking rate.
+ */
+export function estimateSpeechSeconds(text: string): number {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return Math.max(0.6, words / WORDS_PER_SECOND);
+}
+
+/**
+ * Synthetic speech: a quiet hum per word at a pitch set by the voice, as a
+ * 16-bit mono WAV lasting as long as the text would take to say.
+ */
+export function synthesizeSpeech(text: string, voiceId: string): ArrayBuffer {
+  const words = Math.max(1, text.split(/\s+/).filter(Boolean).length);
+  const samples = Math.round(estimateSpeechSeconds(text) * SAMPLE_RATE);
+  const pitch = 110 + (hashString(voiceId) % 110);
+  const samplesPerWord = samples / words;
+
+  const buffer = new ArrayBuffer(44 + samples * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples * 2, true);
+
+  for (let i = 0; i < samples; i++) {
+    // Each word sounds for the first 80% of its slot, then a short pause
+    const position = (i % samplesPerWord) / samplesPerWord;
+    const envelope = position < 0.8 ? Math.sin((position / 0.8) * Math.PI) : 0;
+    const value = Math.sin((2 * Math.PI * pitch * i) / SAMPLE_RATE) * envelope * 0.1;
+    view.setInt16(44 + i * 2, value * 0x7fff, true);
+  }
+
+  return buffer;
+}
+
+/**
+ * Stand-in for the ElevenLabs TTS stream response.
+ */
+export function mockSpeechResponse(text: string, voiceId: string): Response {
+  return new Response(synthesizeSpeech(text, voiceId), {
+    headers: { 'Content-Type': 'audio/wav' },
+  });
+}
+
+let transcriptionCount = 0;
+
+/**
+ * Fake speech-to-text: cycles through typical listener questions.
+ */
+export async function mockTranscribe(_audio: Blob): Promise<string> {
+  const text = LISTENER_QUESTIONS[transcriptionCount % LISTENER_QUESTIONS.length];
+  transcriptionCount++;
+  return text;
+}
+
+const previewUrls = new Map<string, string>();
+
+/**
+ * Stand-in for the ElevenLabs voice library: the registry's voices, with
+ * synthetic preview clips. The registry has no ages, so that filter is ignored.
+ */
+export async function mockVoiceLibrary(filters: VoiceLibraryFilters): Promise<VoiceLibraryPage> {
+  const search = filters.search?.trim().toLowerCase() || '';
+
+  const voices: LibraryVoice[] = VOICES
+    .filter(voice => !filters.gender || voice.gender === filters.gender)
+    .filter(voice => !filters.accent || voice.accent === filters.accent.toLowerCase())
+    .filter(voice => !search || `${voice.elevenLabsName} ${voice.label} ${voice.description}`.toLowerCase().includes(search))
+    .map(voice => {
+      if (!previewUrls.has(voice.id)) {
+        const clip = new Blob([synthesizeSpeech(voice.previewText, voice.id)], { type: 'audio/wav' });
+        previewUrls.set(voice.id, URL.createObjectURL(clip));
+      }
+      return {
+        voiceId: voice.elevenLabsId,
+        name: voice.elevenLabsName,
+        gender: voice.gender,
+        age: null,
+        accent: voice.accent,
+        style: voice.style,
+        useCase: 'conversational',
+        description: voice.description,
+        previewUrl: previewUrls.get(voice.id)!,
+      };
+    });
+
+  return { voices: filters.page ? [] : voices, hasMore: false };
+}
@@ -0,0 +1,260 @@
+/**
+ * Episode Outline Generator
+ *
+ * Plans an episode as a sequence of segments - intro, topic segments, recap
+ * and outro - each with a goal, talking points, a lead host and a time budget
+ * derived from PodcastSettings.length.
+ *
+ * Topic segments are drafted by the generate-outline edge function. If it is
+ * unavailable they are built locally from the concepts extracted from the
+ * uploaded documents, so an outline is always available before going live.
+ */
+
+import { EpisodeOutline, HostConfig, OutlineSegment, PodcastSettings, RagChunk, LENGTH_OPTIONS } from '@/types/podcast';
+import { supabase } from '@/integrations/supabase/client';
+import { extractKeyConcepts } from './conceptExtraction';
+import { MOCK_MODE } from './mocks';
+
+export interface OutlineParams {
+  topic: string;
+  hosts: HostConfig[];
+  settings: PodcastSettings;
+  /** Key concepts of the uploaded documents, most important first */
+  concepts?: string[];
+  /** Excerpts the outline should be grounded in */
+  ragChunks?: RagChunk[];
+}
+
+type FrameKind = Exclude<OutlineSegment['kind'], 'topic'>;
+
+interface DraftSegment {
+  title: string;
+  goal: string;
+  talkingPoints: string[];
+  leadHostId: string;
+}
+
+// Topic segments per episode length
+const TOPIC_SEGMENTS: Record<PodcastSettings['length'], number> = {
+  short: 2,
+  medium: 3,
+  long: 5,
+};
+
+// Share of the episode given to each framing segment; topic segments split the rest
+const FRAME_SHARE: Record<FrameKind, number> = {
+  intro: 0.1,
+  recap: 0.1,
+  outro: 0.05,
+};
+
+// Angles for locally built topic segments, in episode order
+const LOCAL_ANGLES = [
+  {
+    title: (subject: string) => `Understanding ${subject}`,
+    goal: (subject: string) => `Explain what ${subject} is and why it matters.`,
+    points: ['Key definitions', 'Why it matters'],
+  },
+  {
+    title: (subject: string) => `${subject} in Practice`,
+    goal: (subject: string) => `Work through a concrete example of ${subject}.`,
+    points: ['A worked example', 'Common pitfalls'],
+  },
+  {
+    title: (subject: string) => `Questioning ${subject}`,
+    goal: (subject: string) => `Examine the limitations of ${subject} and where people disagree.`,
+    points: ['Limitations', 'Competing views'],
+  },
+  {
+    title: (subject: string) => `Misconceptions about ${subject}`,
+    goal: (subject: string) => `Clear up what people most often get wrong about ${subject}.`,
+    points: ['Common misconceptions', 'What is actually true'],
+  },
+  {
+    title: (subject: string) => `Where ${subject} Is Heading`,
+    goal: (subject: string) => `Look at open questions and what comes next for ${subject}.`,
+    points: ['Open questions', 'What to learn next'],
+  },
+];
+
+function getLengthOption(length: PodcastSettings['length']) {
+  return LENGTH_OPTIONS.find(option => option.value === length) || LENGTH_OPTIONS[1];
+}
+
+export function createSegmentId(): string {
+  return `segment-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/**
+ * Recomputes every segment's time and turn budget so the outline fills the
+ * chosen episode length. Call again after segments are added or removed.
+ */
+export function allocateBudgets(segments: OutlineSegment[], length: PodcastSettings['length']): OutlineSegment[] {
+  const { seconds, turns } = getLengthOption(length);
+  const secondsPerTurn = seconds / turns;
+
+  const topicCount = segments.filter(segment => segment.kind === 'topic').length;
+  const frameSeconds = segments.reduce(
+    (sum, segment) => (segment.kind === 'topic' ? sum : sum + seconds * FRAME_SHARE[segment.kind]),
+    0
+  );
+  const topicSeconds = topicCount > 0 ? (seconds - frameSeconds) / topicCount : 0;
+  // Without topic segments the framing segments get the whole episode
+  const frameScale = topicCount > 0 || frameSeconds === 0 ? 1 : seconds / frameSeconds;
+
+  return segments.map(segment => {
+    const durationSeconds = Math.round(
+      segment.kind === 'topic' ? topicSeconds : seconds * FRAME_SHARE[segment.kind] * frameScale
+    );
+    return { ...segment, durationSeconds, turns: Math.max(1, Math.round(durationSeconds / secondsPerTurn)) };
+  });
+}
+
+function buildLocalDrafts(params: Pick<OutlineParams, 'topic' | 'hosts' | 'concepts'>, count: number): DraftSegment[] {
+  const { topic, hosts } = params;
+
+  let subjects = params.concepts?.filter(Boolean) || [];
+  if (subjects.length === 0) {
+    subjects = extractKeyConcepts(topic, { maxConcepts: count }).map(concept => concept.phrase);
+  }
+  if (subjects.length === 0) {
+    subjects = [topic.length > 40 ? `${topic.slice(0, 40).trim()}...` : topic || 'This Topic'];
+  }
+
+  // Concepts beyond the segment headlines become talking points
+  const extras = subjects.slice(count);
+
+  return Array.from({ length: count }, (_, index) => {
+    const angle = LOCAL_ANGLES[index % LOCAL_ANGLES.length];
+    const subject = subjects[index % subjects.length];
+    const extraPoints = extras.filter((_, extraIndex) => extraIndex % count === index);
+
+    return {
+      title: angle.title(subject),
+      goal: angle.goal(subject),
+      talkingPoints: extraPoints.length > 0 ? [subject, ...extraPoints] : angle.points,
+      leadHostId: hosts[index % hosts.length]?.id || 'host-a',
+    };
+  });
+}
+
+async function fetchRemoteDrafts(params: OutlineParams, count: number): Promise<DraftSegment[] | null> {
+  const { topic, hosts, settings, concepts = [], ragChunks = [] } = params;
+
+  // Offline demos plan the outline locally
+  if (MOCK_MODE) return null;
+
+  try {
+    const { data, error } = await supabase.functions.invoke('generate-outline', {
+      body: {
+        topic,
+        hosts: hosts.map(h => ({ id: h.id, name: h.name, role: h.role, personality: h.personality })),
+        tone: settings.tone,
+        segmentCount: count,
+        concepts,
+        ragChunks: ragChunks.map(c => ({ fileName: c.fileName, text: c.text })),
+      },
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    if (!Array.isArray(data?.segments) || data.segments.length === 0) return null;
+
+    const hostIds = new Set(hosts.map(h => h.id));
+    return (data.segments as DraftSegment[]).map((draft, index) => ({
+      ...draft,
+      leadHostId: hostIds.has(draft.leadHostId) ? draft.leadHostId : hosts[index % hosts.length].id,
+    }));
+  } catch (err) {
+    console.warn('[Outline] Remote outline failed, building it locally:', err);
+    return null;
+  }
+}
+
+function frameSegment(kind: FrameKind, leadHostId: string, topicTitles: string[]): OutlineSegment {
+  const base = { id: createSegmentId(), kind, leadHostId, durationSeconds: 0, turns: 0 };
+
+  switch (kind) {
+    case 'intro':
+      return { ...base, title: 'Introduction', goal: 'Hook the listener and preview what the episode covers.', talkingPoints: topicTitles };
+    case 'recap':
+      return { ...base, title: 'Recap', goal: 'Sum up the key takeaways from each segment.', talkingPoints: topicTitles };
+    case 'outro':
+      return { ...base, title: 'Wrap-up', goal: 'Close the episode and thank the listener.', talkingPoints: [] };
+  }
+}
+
+function assembleOutline(
+  topic: string,
+  hosts: HostConfig[],
+  length: PodcastSettings['length'],
+  drafts: DraftSegment[]
+): EpisodeOutline {
+  const topicSegments: OutlineSegment[] = drafts.map(draft => ({
+    id: createSegmentId(),
+    kind: 'topic',
+    title: draft.title,
+    goal: draft.goal,
+    talkingPoints: draft.talkingPoints,
+    leadHostId: draft.leadHostId,
+    durationSeconds: 0,
+    turns: 0,
+  }));
+
+  const titles = topicSegments.map(segment => segment.title);
+  const anchorHostId = hosts[0]?.id || 'host-a';
+  const recapHostId = hosts[1 % Math.max(hosts.length, 1)]?.id || anchorHostId;
+
+  const segments = [
+    frameSegment('intro', anchorHostId, titles),
+    ...topicSegments,
+    frameSegment('recap', recapHostId, titles),
+    frameSegment('outro', anchorHostId, []),
+  ];
+
+  return { topic, length, segments: allocateBudgets(segments, length) };
+}
+
+/**
+ * Generates the episode outline for the given topic, hosts and length.
+ */
+export async function generateOutline(params: OutlineParams): Promise<EpisodeOutline> {
+  const { topic, hosts, settings } = params;
+  const count = TOPIC_SEGMENTS[settings.length] || TOPIC_SEGMENTS.medium;
+
+  const drafts = (await fetchRemoteDrafts(params, count)) || buildLocalDrafts(params, count);
+  const outline = assembleOutline(topic, hosts, settings.length, drafts);
+
+  console.log('[Outline] Generated outline', { topic, segments: outline.segments.length, length: settings.length });
+  return outline;
+}
+
+/**
+ * Builds an outline without calling the outline service, for sessions that
+ * start without one (e.g. reopened from history).
+ */
+export function buildLocalOutline(params: {
+  topic: string;
+  hosts: HostConfig[];
+  length: PodcastSettings['length'];
+  concepts?: string[];
+}): EpisodeOutline {
+  const { topic, hosts, length } = params;
+  const count = TOPIC_SEGMENTS[length] || TOPIC_SEGMENTS.medium;
+  return assembleOutline(topic, hosts, length, buildLocalDrafts(params, count));
+}
+
+/**
+ * Describes a segment for the turn instructions (TurnContext.subTopic).
+ */
+export function describeSegment(outline: EpisodeOutline, index: number, hosts: HostConfig[]): string {
+  const segment = outline.segments[index];
+  const lead = hosts.find(h => h.id === segment.leadHostId);
+
+  return [
+    `${segment.title} (segment ${index + 1} of ${outline.segments.length})`,
+    segment.goal && `Goal: ${segment.goal}`,
+    segment.talkingPoints.length > 0 && `Talking points: ${segment.talkingPoints.join('; ')}`,
+    lead && `${lead.name} leads this segment.`,
+  ].filter(Boolean).join('\n');
+}
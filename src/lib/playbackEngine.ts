@@ -0,0 +1,165 @@
+/**
+ * Playback Engine
+ *
+ * One long-lived AudioContext for all of the hosts' speech. Audio is queued
+ * as buffers scheduled back to back on the context's timeline: each buffer
+ * starts at the exact sample the previous one ends, so sentences (and the
+ * streamed pieces of a sentence) play without clicks or pauses. Creating a
+ * context per sentence cost a few hundred ms of silence each time and hit the
+ * browsers' limit on open contexts.
+ */
+
+// Headroom when the queue has run dry, so the first samples aren't cut off
+const SCHEDULE_LEAD_SECONDS = 0.05;
+
+export interface ScheduledClip {
+  /** Context time the clip starts / ends at */
+  startTime: number;
+  endTime: number;
+  /** Resolves when the clip starts playing */
+  started: Promise<void>;
+  /** Resolves when the clip has played to the end or was stopped */
+  ended: Promise<void>;
+  stop: () => void;
+}
+
+export class PlaybackEngine {
+  private context: AudioContext | null = null;
+  private output: GainNode | null = null;
+  // Where the next queued clip starts, in context time
+  private cursor = 0;
+  private paused = false;
+  private readonly active = new Map<AudioBufferSourceNode, ScheduledClip>();
+
+  /** The shared context, created on first use (and resumed after autoplay suspension) */
+  getContext(): AudioContext {
+    if (!this.context || this.context.state === 'closed') {
+      const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+      this.context = new AudioContextClass();
+      this.output = this.context.createGain();
+      this.output.connect(this.context.destination);
+      this.cursor = 0;
+    }
+    if (this.context.state === 'suspended' && !this.paused) {
+      this.context.resume().catch(() => {
+        // Resumed by the next user gesture
+      });
+    }
+    return this.context;
+  }
+
+  /** Current time on the playback timeline, in seconds */
+  get currentTime(): number {
+    return this.context?.currentTime ?? 0;
+  }
+
+  /** Seconds of audio queued beyond what is playing right now */
+  get bufferedAhead(): number {
+    return Math.max(0, this.cursor - this.currentTime);
+  }
+
+  get isPlaying(): boolean {
+    return !this.paused && this.active.size > 0;
+  }
+
+  /** Resolves when playback reaches the given context time */
+  until(time: number): Promise<void> {
+    return new Promise(resolve => {
+      setTimeout(resolve, Math.max(0, (time - this.currentTime) * 1000));
+    });
+  }
+
+  /** Wraps raw mono samples in a buffer at their own sample rate */
+  createBuffer(samples: Float32Array, sampleRate: number): AudioBuffer {
+    const buffer = this.getContext().createBuffer(1, samples.length, sampleRate);
+    buffer.copyToChannel(samples, 0);
+    return buffer;
+  }
+
+  /**
+   * Queues a buffer to play right after everything already queued (or
+   * straight away when nothing is).
+   */
+  schedule(buffer: AudioBuffer): ScheduledClip {
+    const context = this.getContext();
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.output!);
+
+    const startTime = Math.max(this.cursor, context.currentTime + SCHEDULE_LEAD_SECONDS);
+    const endTime = startTime + buffer.duration;
+    this.cursor = endTime;
+
+    let resolveEnded: () => void = () => {};
+    let startTimer: ReturnType<typeof setTimeout> | null = null;
+    let resolveStarted: () => void = () => {};
+
+    const clip: ScheduledClip = {
+      startTime,
+      endTime,
+      started: new Promise(resolve => {
+        resolveStarted = resolve;
+        startTimer = setTimeout(resolve, Math.max(0, (startTime - context.currentTime) * 1000));
+      }),
+      ended: new Promise(resolve => { resolveEnded = resolve; }),
+      stop: () => {
+        try {
+          source.stop();
+        } catch {
+          // Never started or already stopped
+        }
+        finish();
+      },
+    };
+
+    const finish = () => {
+      if (!this.active.delete(source)) return;
+      if (startTimer) clearTimeout(startTimer);
+      resolveStarted();
+      resolveEnded();
+      this.rewind();
+    };
+
+    source.onended = finish;
+    this.active.set(source, clip);
+    source.start(startTime);
+    return clip;
+  }
+
+  /** Pulls the queue end back after clips were stopped before their turn */
+  private rewind(): void {
+    let end = this.currentTime;
+    for (const clip of this.active.values()) end = Math.max(end, clip.endTime);
+    this.cursor = end;
+  }
+
+  /** Stops and drops everything queued */
+  stopAll(): void {
+    for (const clip of [...this.active.values()]) clip.stop();
+    this.cursor = this.currentTime;
+  }
+
+  pause(): void {
+    this.paused = true;
+    this.context?.suspend().catch(() => {
+      // Already closed
+    });
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.context?.resume().catch(() => {
+      // Resumed by the next user gesture
+    });
+  }
+}
+
+let engine: PlaybackEngine | null = null;
+
+/**
+ * The app-wide engine, so every host voice shares one timeline.
+ */
+export function getPlaybackEngine(): PlaybackEngine {
+  if (!engine) engine = new PlaybackEngine();
+  return engine;
+}
@@ -1,8 +1,12 @@
-import { HostConfig, PodcastSettings, RagChunk, GeneratedPodcast, LENGTH_OPTIONS } from '@/types/podcast';
+import { HostConfig, PodcastSettings, RagChunk, GeneratedPodcast, TranscriptTurn, LENGTH_OPTIONS } from '@/types/podcast';
 import { retrieve } from './rag';
+import { verifyTurn } from './grounding';
+import { attributeSentence, mergeCitations } from './citations';
+import { splitIntoSentences } from './chunking';
 import type { RagFile } from '@/types/podcast';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { MOCK_MODE, mockGeneratedPodcast } from './mocks';
 
 interface GenerationParams {
   prompt: string;
@@ -21,15 +25,17 @@ export async function generatePodcast(params: GenerationParams): Promise<Generat
     ragChunks = result.chunks;
   }
 
-  // Call the edge function to generate podcast with LLM
-  const { data, error } = await supabase.functions.invoke('generate-podcast', {
-    body: {
-      prompt,
-      hosts: hosts.map(h => ({ id: h.id, name: h.name, role: h.role })),
-      settings,
-      ragChunks,
-    },
-  });
+  // Call the edge function to generate podcast with LLM (scripted offline in mock mode)
+  const { data, error } = MOCK_MODE
+    ? { data: mockGeneratedPodcast({ prompt, hosts, settings, ragChunks }), error: null }
+    : await supabase.functions.invoke('generate-podcast', {
+      body: {
+        prompt,
+        hosts: hosts.map(h => ({ id: h.id, name: h.name, role: h.role })),
+        settings,
+        ragChunks,
+      },
+    });
 
   if (error) {
     console.error('Error calling generate-podcast:', error);
@@ -43,9 +49,56 @@ export async function generatePodcast(params: GenerationParams): Promise<Generat
     throw new Error(data.error);
   }
 
+  const transcript: TranscriptTurn[] = data.transcript || [];
+
   // Convert createdAt back to Date object
   return {
     ...data,
+    transcript: ragChunks.length > 0 ? await groundTranscript(transcript, ragFiles, ragChunks) : transcript,
     createdAt: new Date(data.createdAt),
   };
 }
+
+// Per-turn retrievals in flight at once; each one may embed the query remotely
+const GROUNDING_CONCURRENCY = 3;
+
+/**
+ * Attaches citations and grounding reports to each generated turn.
+ * Each turn is checked against the episode-level chunks plus chunks
+ * retrieved for that turn's own text.
+ */
+async function groundTranscript(
+  transcript: TranscriptTurn[],
+  ragFiles: RagFile[],
+  episodeChunks: RagChunk[]
+): Promise<TranscriptTurn[]> {
+  const grounded: TranscriptTurn[] = new Array(transcript.length);
+  let next = 0;
+
+  const groundTurn = async (turn: TranscriptTurn): Promise<TranscriptTurn> => {
+    let chunks = episodeChunks;
+    try {
+      const result = await retrieve(turn.text, ragFiles, 3);
+      chunks = [...episodeChunks, ...result.chunks.filter(c => !episodeChunks.some(e => e.id === c.id))];
+    } catch (err) {
+      console.warn('[PodcastGenerator] Per-turn retrieval failed:', err);
+    }
+
+    return {
+      ...turn,
+      citations: mergeCitations(...splitIntoSentences(turn.text).map(sentence => attributeSentence(sentence, chunks))),
+      grounding: verifyTurn(turn.text, chunks),
+    };
+  };
+
+  // A few workers take turns off the transcript in order
+  const worker = async () => {
+    while (next < transcript.length) {
+      const index = next++;
+      grounded[index] = await groundTurn(transcript[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(GROUNDING_CONCURRENCY, transcript.length) }, worker));
+  return grounded;
+}
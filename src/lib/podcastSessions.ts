@@ -0,0 +1,165 @@
+/**
+ * Podcast Session Persistence
+ *
+ * Creates the `podcast_sessions` row for a live studio episode and reads and
+ * writes the conversation state stored on it.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { EpisodeOutline, HostConfig, PodcastSettings, RagFile, TranscriptTurn } from '@/types/podcast';
+import { PodcastDocument } from '@/types/mentis';
+import { SavedSeat } from './backboard';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether an id refers to a saved podcast_sessions row (demo sessions use
+ * placeholder ids like "demo").
+ */
+export function isPersistedSessionId(sessionId: string | undefined): sessionId is string {
+  return !!sessionId && UUID_PATTERN.test(sessionId);
+}
+
+/**
+ * Saves a new session for the signed-in user when an episode goes live and
+ * returns its id, or null when nobody is signed in (the episode then just
+ * isn't saved). Documents are stored with their text, so the session still
+ * has them after their chunks are removed from the document store.
+ */
+export async function createSession(params: {
+  prompt: string;
+  hosts: HostConfig[];
+  settings: PodcastSettings;
+  ragFiles: RagFile[];
+  outline: EpisodeOutline | null;
+}): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const documents: PodcastDocument[] = params.ragFiles.map(file => ({ id: file.id, name: file.name, content: file.text }));
+
+  const { data, error } = await supabase
+    .from('podcast_sessions')
+    .insert({
+      user_id: user.id,
+      title: params.prompt.slice(0, 80),
+      prompt: params.prompt,
+      hosts: params.hosts as unknown as Json,
+      settings: params.settings as unknown as Json,
+      documents: documents as unknown as Json,
+      outline: params.outline as unknown as Json,
+      transcript: [],
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('[PodcastSessions] Failed to create session:', error);
+    throw error;
+  }
+  return data.id;
+}
+
+/**
+ * Stores the outline a session is paced through (e.g. the default plan built
+ * when it started without one).
+ */
+export async function saveSessionOutline(sessionId: string, outline: EpisodeOutline): Promise<void> {
+  const { error } = await supabase
+    .from('podcast_sessions')
+    .update({ outline: outline as unknown as Json })
+    .eq('id', sessionId);
+
+  if (error) {
+    console.error('[PodcastSessions] Failed to save outline:', error);
+    throw error;
+  }
+}
+
+/**
+ * The saved outline of a podcast_sessions row, if it has a usable one.
+ */
+export function getSavedOutline(row: { outline?: Json | null }): EpisodeOutline | undefined {
+  const outline = row.outline as unknown as EpisodeOutline | null;
+  return outline && Array.isArray(outline.segments) && outline.segments.length > 0 ? outline : undefined;
+}
+
+/**
+ * Session documents as RAG files. Retrieval is served from the document store
+ * while it has their chunks and from the stored text otherwise (sessions saved
+ * before the text was stored rely on the document store alone).
+ */
+export function getSessionRagFiles(row: { documents?: Json | null; created_at?: string }): RagFile[] {
+  const documents = Array.isArray(row.documents) ? row.documents as unknown as PodcastDocument[] : [];
+  return documents.map(doc => ({
+    id: doc.id,
+    name: doc.name,
+    size: 0,
+    uploadedAt: new Date(row.created_at || Date.now()),
+    text: doc.content || '',
+    sections: [],
+  }));
+}
+
+/**
+ * Overwrites the saved transcript (including citations) for a session.
+ */
+export async function saveSessionTranscript(sessionId: string, transcript: TranscriptTurn[]): Promise<void> {
+  const { error } = await supabase
+    .from('podcast_sessions')
+    .update({ transcript: transcript as unknown as Json })
+    .eq('id', sessionId);
+
+  if (error) {
+    console.error('[PodcastSessions] Failed to save transcript:', error);
+    throw error;
+  }
+}
+
+/**
+ * Stores the Backboard assistant and thread of every host so the session can
+ * be continued later. The opening host's also go in the single-thread columns.
+ */
+export async function saveSessionSeats(sessionId: string, seats: SavedSeat[]): Promise<void> {
+  const { error } = await supabase
+    .from('podcast_sessions')
+    .update({
+      backboard_seats: seats as unknown as Json,
+      backboard_assistant_id: seats[0]?.assistantId || null,
+      backboard_thread_id: seats[0]?.threadId || null,
+    })
+    .eq('id', sessionId);
+
+  if (error) {
+    console.error('[PodcastSessions] Failed to save Backboard threads:', error);
+    throw error;
+  }
+}
+
+/**
+ * Reads the saved seats off a podcast_sessions row. Sessions from before
+ * per-host assistants only have one thread, which every host then shares.
+ */
+export function getSavedSeats(
+  row: { backboard_seats?: Json | null; backboard_assistant_id?: string | null; backboard_thread_id?: string | null },
+  hosts: HostConfig[]
+): SavedSeat[] {
+  if (Array.isArray(row.backboard_seats)) {
+    const seats = row.backboard_seats as unknown as SavedSeat[];
+    // Every host needs a thread, otherwise start over
+    if (hosts.every(host => seats.some(seat => seat.hostId === host.id))) return seats;
+    return [];
+  }
+
+  if (row.backboard_thread_id) {
+    return hosts.map(host => ({
+      hostId: host.id,
+      hostName: host.name,
+      assistantId: row.backboard_assistant_id || '',
+      threadId: row.backboard_thread_id!,
+    }));
+  }
+
+  return [];
+}
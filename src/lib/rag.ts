@@ -1,22 +1,37 @@
 /**
  * RAG (Retrieval-Augmented Generation) Service
- * 
- * TODO: Integrate with real vector database and embedding service
- * 
- * Options for integration:
- * 1. Supabase pgvector + OpenAI embeddings
- * 2. Pinecone + OpenAI embeddings
- * 3. ChromaDB (self-hosted)
- * 4. LangChain with any vector store
- * 
- * Current implementation uses mock data for demonstration.
+ *
+ * Uploaded files are chunked (see chunking.ts) and stored in two places:
+ * - the pgvector document store (documentStore.ts) when the user is signed in
+ * - an in-memory RetrievalIndex, which uses BM25 lexical scoring and needs no
+ *   external service, so retrieval keeps working offline or when the remote
+ *   store fails. Call setEmbeddingProvider() to make it hybrid.
  */
 
 import { RagFile, RagChunk } from '@/types/podcast';
+import { parseDocument, ParsedDocument } from './documentParser';
+import { ChunkOptions, chunkRagFile } from './chunking';
+import { EmbeddingProvider, RetrievalIndex } from './retrievalIndex';
+import {
+  deleteStoredFile,
+  getDocumentStoreUserId,
+  searchChunks,
+  storeChunks,
+  uploadSourceFile,
+} from './documentStore';
+
+export interface IngestOptions extends Partial<ChunkOptions> {
+  /** Original upload, kept in storage alongside the chunks */
+  source?: File;
+  /** Podcast session the document belongs to */
+  sessionId?: string;
+}
 
 export interface IngestResult {
   success: boolean;
   chunksCreated: number;
+  /** Whether the chunks were embedded into the remote document store */
+  storedRemotely: boolean;
   error?: string;
 }
 
@@ -26,44 +41,85 @@ export interface RetrievalResult {
   processingTime: number;
 }
 
+// Shared index for the current browser session
+const localIndex = new RetrievalIndex();
+
+// Files embedded into the remote store during this browser session
+const remoteFileIds = new Set<string>();
+
 /**
- * Ingest a file into the RAG system
- * 
- * TODO: Implement actual file parsing and embedding
- * 
- * Steps to implement:
- * 1. Parse file content (PDF, TXT, MD)
- * 2. Split into chunks (semantic or fixed-size)
- * 3. Generate embeddings for each chunk
- * 4. Store in vector database
- * 
- * @param file - The file to ingest
+ * Configure the embedding backend used for hybrid search.
+ * Pass null to fall back to lexical-only retrieval.
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  localIndex.setEmbeddingProvider(provider);
+}
+
+/**
+ * Ingest a parsed file into the RAG index
+ *
+ * Re-ingesting a file replaces its previous chunks.
+ *
+ * @param file - The parsed file to ingest
+ * @param options - Chunk size / overlap overrides, source file and session
  * @returns Promise with ingestion result
  */
-export async function ingestFile(file: File): Promise<IngestResult> {
-  // TODO: Replace with actual implementation
-  //
-  // const text = await parseFile(file);
-  // const chunks = splitIntoChunks(text, { maxTokens: 500, overlap: 50 });
-  // const embeddings = await generateEmbeddings(chunks);
-  // await storeInVectorDb(file.name, chunks, embeddings);
-
-  console.log('[RAG] ingestFile called (demo mode)', { fileName: file.name, size: file.size });
-
-  // Simulate processing delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-
-  return {
-    success: true,
-    chunksCreated: Math.ceil(file.size / 1000), // Mock: ~1 chunk per KB
-  };
+export async function ingestFile(file: RagFile, options: IngestOptions = {}): Promise<IngestResult> {
+  const { source, sessionId, ...chunkOptions } = options;
+
+  let chunks: RagChunk[];
+  try {
+    chunks = chunkRagFile(file, chunkOptions);
+    localIndex.removeFile(file.id);
+    await localIndex.addChunks(chunks);
+  } catch (err) {
+    console.error(`[RAG] Failed to ingest ${file.name}:`, err);
+    return {
+      success: false,
+      chunksCreated: 0,
+      storedRemotely: false,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    };
+  }
+
+  let storedRemotely = false;
+  const userId = await getDocumentStoreUserId();
+
+  if (userId && chunks.length > 0) {
+    try {
+      const storagePath = source ? await uploadSourceFile(userId, file.id, source) : undefined;
+      await storeChunks({ fileId: file.id, fileName: file.name, chunks, storagePath, sessionId });
+      storedRemotely = true;
+      remoteFileIds.add(file.id);
+    } catch (err) {
+      console.warn(`[RAG] Remote ingestion failed for ${file.name}, using local index only:`, err);
+    }
+  }
+
+  console.log('[RAG] Ingested file', { fileName: file.name, chunks: chunks.length, storedRemotely });
+  return { success: true, chunksCreated: chunks.length, storedRemotely };
+}
+
+/**
+ * Ingests a file unless it is already in the local index
+ * (files are normally ingested on upload; restored files are not).
+ */
+export async function ensureIngested(file: RagFile): Promise<IngestResult> {
+  const existing = localIndex.countChunks(file.id);
+  if (existing > 0) {
+    return { success: true, chunksCreated: existing, storedRemotely: remoteFileIds.has(file.id) };
+  }
+  return ingestFile(file);
 }
 
 /**
  * Retrieve relevant chunks for a query
- * 
- * TODO: Implement actual vector similarity search
- * 
+ *
+ * Signed-in users are served from the vector store. Files the store has
+ * nothing for (not ingested yet, remote ingestion failed, signed out) are
+ * searched in the local index and merged in by score; files not indexed
+ * locally yet (e.g. restored from localStorage) are indexed on demand.
+ *
  * @param query - The search query
  * @param files - Available RAG files to search
  * @param topK - Number of chunks to retrieve
@@ -74,79 +130,101 @@ export async function retrieve(
   files: RagFile[],
   topK: number = 5
 ): Promise<RetrievalResult> {
-  // TODO: Replace with actual implementation
-  //
-  // const queryEmbedding = await generateEmbedding(query);
-  // const results = await vectorDb.similaritySearch(queryEmbedding, topK);
-  // return { chunks: results, query, processingTime };
-
-  console.log('[RAG] retrieve called (demo mode)', { query, fileCount: files.length, topK });
-
   const startTime = Date.now();
 
-  // Generate mock chunks based on uploaded files
-  const mockChunks: RagChunk[] = files.slice(0, topK).map((file, index) => ({
-    id: `chunk-${file.id}-${index}`,
-    fileId: file.id,
-    fileName: file.name,
-    text: generateMockChunkText(file, query, index),
-    relevanceScore: 0.95 - (index * 0.1),
-  }));
-
-  // Simulate processing delay
-  await new Promise(resolve => setTimeout(resolve, 300));
-
-  return {
-    chunks: mockChunks,
+  let remoteChunks: RagChunk[] = [];
+
+  if (files.length > 0 && await getDocumentStoreUserId()) {
+    try {
+      remoteChunks = await searchChunks(query, { topK, fileIds: files.map(f => f.id) });
+    } catch (err) {
+      console.warn('[RAG] Remote search failed, using local index:', err);
+    }
+  }
+
+  // Files the remote store answered for, or that were stored there this session
+  const remoteIds = new Set([...remoteFileIds, ...remoteChunks.map(chunk => chunk.fileId)]);
+  const localFiles = files.filter(file => !remoteIds.has(file.id) && file.text);
+
+  let localChunks: RagChunk[] = [];
+  if (localFiles.length > 0) {
+    for (const file of localFiles) {
+      if (!localIndex.hasFile(file.id)) {
+        await localIndex.addChunks(chunkRagFile(file));
+      }
+    }
+    localChunks = await localIndex.search(query, { topK, fileIds: localFiles.map(f => f.id) });
+  }
+
+  const chunks = [...remoteChunks, ...localChunks]
+    .sort((a, b) => b.relevanceScore - a.relevanceScore)
+    .slice(0, topK);
+
+  const processingTime = Date.now() - startTime;
+  console.log('[RAG] retrieve', {
     query,
-    processingTime: Date.now() - startTime,
-  };
+    fileCount: files.length,
+    results: chunks.length,
+    remote: remoteChunks.length,
+    local: localChunks.length,
+    processingTime,
+  });
+
+  return { chunks, query, processingTime };
 }
 
 /**
- * Generate mock chunk text for demo purposes
+ * Builds the retrieval query for a single conversation turn from what the
+ * hosts are about to discuss and what was said most recently, so the
+ * retrieved chunks follow the conversation as it drifts.
  */
-function generateMockChunkText(file: RagFile, query: string, index: number): string {
-  const mockTexts = [
-    `From "${file.name}": This section covers key concepts related to ${query.toLowerCase()}. The document emphasizes practical approaches and real-world applications that can be immediately applied.`,
-    `Referenced in "${file.name}": Important considerations when working with ${query.toLowerCase()} include scalability, maintainability, and performance optimization strategies.`,
-    `According to "${file.name}": Best practices suggest starting with a clear understanding of requirements before diving into implementation details.`,
-    `Excerpt from "${file.name}": The author recommends a systematic approach to ${query.toLowerCase()}, breaking down complex problems into manageable components.`,
-    `Key insight from "${file.name}": Success in this area often comes from combining theoretical knowledge with hands-on experience and iterative refinement.`,
-  ];
-
-  return mockTexts[index % mockTexts.length];
+export function buildTurnQuery(params: {
+  topic?: string;
+  subTopic?: string;
+  recentHistory?: string;
+  /** Characters of trailing history to include */
+  historyChars?: number;
+}): string {
+  const { topic, subTopic, recentHistory = '', historyChars = 600 } = params;
+  const history = recentHistory.trim().slice(-historyChars);
+
+  return [subTopic, topic, history].filter(Boolean).join('\n');
 }
 
 /**
- * Parse file content based on type
- * 
- * TODO: Implement actual parsing for different file types
+ * Parse file content based on type (PDF, DOCX, PPTX, TXT, MD)
+ *
+ * @throws DocumentParseError if the file type is unsupported or has no text
  */
-export async function parseFile(file: File): Promise<string> {
-  // TODO: Implement parsing for PDF, TXT, MD
-  // - PDF: Use pdf-parse or similar
-  // - TXT/MD: Direct text extraction
-  
-  console.log('[RAG] parseFile called (demo mode)', { fileName: file.name });
-  
-  return `Mock content from ${file.name}`;
+export async function parseFile(file: File): Promise<ParsedDocument> {
+  return parseDocument(file);
 }
 
 /**
  * Check if RAG system is properly configured
  */
 export function isRagAvailable(): boolean {
-  // TODO: Check for vector database connection and embedding API
-  return false;
+  // The local lexical index needs no external service
+  return true;
 }
 
 /**
- * Delete a file from the RAG index
- * 
- * TODO: Implement actual deletion from vector store
+ * Delete a file from the RAG index and the document store
+ *
+ * @returns true if any chunks were removed
  */
 export async function deleteFile(fileId: string): Promise<boolean> {
-  console.log('[RAG] deleteFile called (demo mode)', { fileId });
-  return true;
+  let removed = localIndex.removeFile(fileId);
+  remoteFileIds.delete(fileId);
+
+  if (await getDocumentStoreUserId()) {
+    try {
+      removed += await deleteStoredFile(fileId);
+    } catch (err) {
+      console.warn('[RAG] Failed to delete file from document store:', err);
+    }
+  }
+
+  console.log('[RAG] deleteFile', { fileId, removed });
+  return removed > 0;
 }
@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BackboardError } from './backboard';
+import { backoffDelay, CircuitBreaker, classifyError, TurnRecovery, waitFor } from './resilience';
+
+// backboard.ts talks to Supabase; these tests only need its error class
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+// A clock the tests move by hand
+function clock(start = 0) {
+  let time = start;
+  return { now: () => time, advance: (ms: number) => { time += ms; } };
+}
+
+describe('classifyError', () => {
+  it('sorts provider errors by what can be done about them', () => {
+    const abortError = Object.assign(new Error('The operation was aborted'), { name: 'AbortError' });
+
+    expect(classifyError(new Error('Aborted')).kind).toBe('aborted');
+    expect(classifyError(abortError).kind).toBe('aborted');
+    expect(classifyError(new BackboardError('Not allowed', 'AUTH_ERROR')).kind).toBe('unauthorized');
+    expect(classifyError(new BackboardError('Proxy down', 'PROXY_ERROR')).kind).toBe('transient');
+    expect(classifyError(new Error('Gateway not configured')).kind).toBe('fatal');
+    expect(classifyError(new Error('fetch failed')).kind).toBe('transient');
+  });
+
+  it("reads the rate limit's Retry-After in milliseconds", () => {
+    expect(classifyError(new BackboardError('Usage limit reached', 'RATE_LIMITED', undefined, 5))).toEqual({
+      kind: 'rate_limited',
+      message: 'Usage limit reached',
+      retryAfterMs: 5000,
+    });
+  });
+});
+
+describe('backoffDelay', () => {
+  it('grows exponentially between half the base delay and the cap', () => {
+    expect(backoffDelay(1, 1000, 15000, () => 0)).toBe(500);
+    expect(backoffDelay(1, 1000, 15000, () => 1)).toBe(1000);
+    expect(backoffDelay(3, 1000, 15000, () => 1)).toBe(4000);
+    expect(backoffDelay(10, 1000, 15000, () => 1)).toBe(15000);
+  });
+});
+
+describe('waitFor', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves after the delay', async () => {
+    vi.useFakeTimers();
+    const done = vi.fn();
+
+    waitFor(1000).then(done);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(done).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(done).toHaveBeenCalled();
+  });
+
+  it('rejects as soon as the signal is aborted', async () => {
+    const controller = new AbortController();
+    const waiting = waitFor(60000, controller.signal);
+
+    controller.abort();
+
+    await expect(waiting).rejects.toThrow('Aborted');
+    await expect(waitFor(10, controller.signal)).rejects.toThrow('Aborted');
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('opens after repeated failures, half-opens after the cooldown and closes on success', () => {
+    const time = clock();
+    const breaker = new CircuitBreaker(2, 1000, time.now);
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+
+    time.advance(1000);
+    expect(breaker.state).toBe('half-open');
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('opens again when the half-open attempt fails', () => {
+    const time = clock();
+    const breaker = new CircuitBreaker(3, 1000, time.now);
+
+    breaker.trip();
+    time.advance(1000);
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('open');
+  });
+});
+
+describe('TurnRecovery', () => {
+  const networkError = new Error('fetch failed');
+
+  it('retries with backoff, then stops when there is no fallback', () => {
+    const recovery = new TurnRecovery({ maxAttempts: 3, random: () => 1 });
+
+    expect(recovery.failed(networkError, false)).toMatchObject({ action: 'retry', delayMs: 1000 });
+    expect(recovery.failed(networkError, false)).toMatchObject({ action: 'retry', delayMs: 2000 });
+    expect(recovery.failed(networkError, false).action).toBe('stop');
+  });
+
+  it('waits out a Retry-After, but not one longer than maxRetryAfterMs', () => {
+    const recovery = new TurnRecovery({ maxRetryAfterMs: 10000 });
+
+    expect(recovery.failed(new BackboardError('Busy', 'RATE_LIMITED', undefined, 3), false)).toMatchObject({
+      action: 'retry',
+      delayMs: 3000,
+    });
+    expect(recovery.failed(new BackboardError('Busy', 'RATE_LIMITED', undefined, 30), false)).toEqual({
+      action: 'stop',
+      message: 'Busy',
+    });
+  });
+
+  it('fails over once the circuit opens and tries the primary again after the cooldown', () => {
+    const time = clock();
+    const recovery = new TurnRecovery({ hasFallback: true, failureThreshold: 2, cooldownMs: 1000, now: time.now });
+
+    expect(recovery.failed(networkError, false).action).toBe('retry');
+    expect(recovery.failed(networkError, false).action).toBe('fallback');
+    expect(recovery.useFallback).toBe(true);
+
+    // Fallback successes don't close the primary's circuit
+    recovery.succeeded(true);
+    expect(recovery.useFallback).toBe(true);
+
+    time.advance(1000);
+    expect(recovery.useFallback).toBe(false);
+    recovery.succeeded(false);
+    expect(recovery.useFallback).toBe(false);
+  });
+
+  it('fails over straight away on a configuration error', () => {
+    const recovery = new TurnRecovery({ hasFallback: true });
+
+    expect(recovery.failed(new Error('Gateway not configured'), false).action).toBe('fallback');
+  });
+
+  it('stops on a sign-in or permission error instead of failing over', () => {
+    const recovery = new TurnRecovery({ hasFallback: true });
+
+    expect(recovery.failed(new BackboardError('Not allowed', 'AUTH_ERROR'), false)).toEqual({
+      action: 'stop',
+      message: 'Not allowed',
+    });
+    expect(recovery.useFallback).toBe(false);
+  });
+
+  it('leaves an aborted turn alone', () => {
+    const recovery = new TurnRecovery({ hasFallback: true, failureThreshold: 1 });
+
+    expect(recovery.failed(new Error('Aborted'), false)).toEqual({ action: 'abort' });
+    expect(recovery.useFallback).toBe(false);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Turn Generation Resilience
+ *
+ * Decides what the live conversation does when a turn fails:
+ *
+ * - Errors are classified: sign-in / permission failures stop the session
+ *   (the fallback provider runs as the same user), configuration errors are
+ *   fatal for the provider, network and server errors are retried with
+ *   jittered exponential backoff, rate limits wait for the server's Retry-After.
+ * - Attempts per turn are capped.
+ * - A circuit breaker watches the session's dialogue provider. After repeated
+ *   failures (or a fatal one) it opens and turns go to the fallback provider;
+ *   after a cooldown one turn tries the primary again.
+ *
+ * Every decision carries a short message for the listener so a struggling
+ * session shows what is going on instead of going silent.
+ */
+
+import { BackboardError } from './backboard';
+
+export type FailureKind = 'aborted' | 'unauthorized' | 'fatal' | 'rate_limited' | 'transient';
+
+export interface ClassifiedFailure {
+  kind: FailureKind;
+  message: string;
+  /** How long the server asked us to wait, if it did */
+  retryAfterMs?: number;
+}
+
+export type RecoveryDecision =
+  | { action: 'abort' }
+  | { action: 'retry'; delayMs: number; message: string }
+  | { action: 'fallback'; message: string }
+  | { action: 'stop'; message: string };
+
+export interface RecoveryOptions {
+  /** Attempts at one turn before giving up on the provider */
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Longest Retry-After we wait out instead of failing over or stopping */
+  maxRetryAfterMs?: number;
+  /** Consecutive primary failures that open the circuit */
+  failureThreshold?: number;
+  /** How long the circuit stays open before the primary is tried again */
+  cooldownMs?: number;
+  /** Whether there is another provider to fail over to */
+  hasFallback?: boolean;
+  random?: () => number;
+  now?: () => number;
+}
+
+/**
+ * Sorts an error from any dialogue provider into what we can do about it.
+ */
+export function classifyError(error: unknown): ClassifiedFailure {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (message === 'Aborted' || (error instanceof Error && error.name === 'AbortError')) {
+    return { kind: 'aborted', message };
+  }
+
+  if (error instanceof BackboardError) {
+    switch (error.code) {
+      case 'AUTH_ERROR':
+        return { kind: 'unauthorized', message: error.message };
+      case 'RATE_LIMITED':
+        return {
+          kind: 'rate_limited',
+          message: error.message,
+          retryAfterMs: error.retryAfter ? error.retryAfter * 1000 : undefined,
+        };
+      default:
+        return { kind: 'transient', message: error.message };
+    }
+  }
+
+  // Missing configuration won't fix itself by retrying
+  if (/not configured|missing .*key/i.test(message)) {
+    return { kind: 'fatal', message };
+  }
+
+  return { kind: 'transient', message };
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between half the base delay
+ * and base * 2^(attempt - 1), capped at maxDelayMs.
+ */
+export function backoffDelay(
+  attempt: number,
+  baseDelayMs = 1000,
+  maxDelayMs = 15000,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(baseDelayMs / 2 + random() * (ceiling - baseDelayMs / 2));
+}
+
+/**
+ * Resolves after the delay, or rejects with 'Aborted' when the signal fires.
+ */
+export function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Aborted'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Opens after `failureThreshold` consecutive failures, lets one request
+ * through after `cooldownMs` (half-open) and closes again on success.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+
+  constructor(
+    private readonly failureThreshold = 3,
+    private readonly cooldownMs = 60000,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return this.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.trip();
+    }
+  }
+
+  /** Opens the circuit straight away */
+  trip(): void {
+    this.openedAt = this.now();
+  }
+}
+
+/**
+ * Tracks the failures of the live conversation and decides, after each one,
+ * whether to retry, fail over or stop.
+ */
+export class TurnRecovery {
+  private readonly options: Required<Omit<RecoveryOptions, 'random' | 'now'>>;
+  private readonly random: () => number;
+  private readonly breaker: CircuitBreaker;
+  private attempts = 0;
+
+  constructor(options: RecoveryOptions = {}) {
+    this.options = {
+      maxAttempts: options.maxAttempts ?? 4,
+      baseDelayMs: options.baseDelayMs ?? 1000,
+      maxDelayMs: options.maxDelayMs ?? 15000,
+      maxRetryAfterMs: options.maxRetryAfterMs ?? 60000,
+      failureThreshold: options.failureThreshold ?? 3,
+      cooldownMs: options.cooldownMs ?? 60000,
+      hasFallback: options.hasFallback ?? false,
+    };
+    this.random = options.random || Math.random;
+    this.breaker = new CircuitBreaker(this.options.failureThreshold, this.options.cooldownMs, options.now);
+  }
+
+  /** Whether the next turn should go to the fallback provider */
+  get useFallback(): boolean {
+    return this.options.hasFallback && this.breaker.state === 'open';
+  }
+
+  succeeded(onFallback: boolean): void {
+    this.attempts = 0;
+    if (!onFallback) this.breaker.recordSuccess();
+  }
+
+  failed(error: unknown, onFallback: boolean): RecoveryDecision {
+    const failure = classifyError(error);
+    if (failure.kind === 'aborted') return { action: 'abort' };
+    if (failure.kind === 'unauthorized') return { action: 'stop', message: failure.message };
+
+    this.attempts++;
+    if (!onFallback) this.breaker.recordFailure();
+    const canFailOver = this.options.hasFallback && !onFallback;
+
+    const failOver = (): RecoveryDecision => {
+      this.breaker.trip();
+      this.attempts = 0;
+      return { action: 'fallback', message: 'Having trouble reaching the AI hosts - switched to the backup provider.' };
+    };
+
+    if (failure.kind === 'fatal') {
+      return canFailOver ? failOver() : { action: 'stop', message: failure.message };
+    }
+
+    const tooLongToWait = failure.kind === 'rate_limited'
+      && (failure.retryAfterMs ?? 0) > this.options.maxRetryAfterMs;
+
+    if (canFailOver && (this.breaker.state === 'open' || tooLongToWait)) {
+      return failOver();
+    }
+
+    if (tooLongToWait || this.attempts >= this.options.maxAttempts) {
+      if (canFailOver) return failOver();
+      return {
+        action: 'stop',
+        message: failure.kind === 'rate_limited'
+          ? failure.message
+          : `The hosts can't be reached right now (${failure.message}). Please try again later.`,
+      };
+    }
+
+    const delayMs = failure.kind === 'rate_limited' && failure.retryAfterMs
+      ? failure.retryAfterMs
+      : backoffDelay(this.attempts, this.options.baseDelayMs, this.options.maxDelayMs, this.random);
+
+    return {
+      action: 'retry',
+      delayMs,
+      message: failure.kind === 'rate_limited'
+        ? `Usage limit hit - resuming in ${Math.ceil(delayMs / 1000)}s...`
+        : `Connection trouble - retrying in ${Math.ceil(delayMs / 1000)}s...`,
+    };
+  }
+}
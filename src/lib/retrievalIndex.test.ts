@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import { RagChunk } from '@/types/podcast';
+import { EmbeddingProvider, RetrievalIndex, tokenize } from './retrievalIndex';
+
+function chunk(id: string, text: string, fileId = 'file-1'): RagChunk {
+  return { id, fileId, fileName: `${fileId}.pdf`, text, relevanceScore: 0 };
+}
+
+async function indexOf(...chunks: RagChunk[]): Promise<RetrievalIndex> {
+  const index = new RetrievalIndex();
+  await index.addChunks(chunks);
+  return index;
+}
+
+describe('tokenize', () => {
+  it('drops stopwords and stems plurals and -ing forms', () => {
+    expect(tokenize('Training the Neural Networks, and the café studies')).toEqual([
+      'train', 'neural', 'network', 'cafe', 'study',
+    ]);
+  });
+});
+
+describe('RetrievalIndex', () => {
+  it('ranks the chunk that matches the rarer query term first', async () => {
+    const index = await indexOf(
+      chunk('common', 'The model reports accuracy on the benchmark.'),
+      chunk('rare', 'The model uses dropout regularisation.'),
+      chunk('other', 'The model was trained on a benchmark of images.'),
+    );
+
+    const results = await index.search('model dropout');
+
+    expect(results.map(r => r.id)).toEqual(['rare', 'common', 'other']);
+    results.forEach(r => {
+      expect(r.relevanceScore).toBeGreaterThan(0);
+      expect(r.relevanceScore).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('favours shorter chunks for the same term frequency', async () => {
+    const index = await indexOf(
+      chunk('long', 'Dropout is mentioned once among many other unrelated words about layers, optimisers and schedules.'),
+      chunk('short', 'Dropout explained.'),
+      chunk('none', 'Batch normalisation explained.'),
+    );
+
+    const results = await index.search('dropout');
+
+    expect(results.map(r => r.id)).toEqual(['short', 'long']);
+  });
+
+  it('filters by file, topK and minScore', async () => {
+    const index = await indexOf(
+      chunk('a1', 'Solar panels convert sunlight.', 'a'),
+      chunk('a2', 'Solar farms need land.', 'a'),
+      chunk('b1', 'Solar power is cheap.', 'b'),
+    );
+
+    expect((await index.search('solar', { fileIds: ['b'] })).map(r => r.id)).toEqual(['b1']);
+    expect(await index.search('solar', { topK: 2 })).toHaveLength(2);
+    expect(await index.search('solar', { minScore: 1 })).toEqual([]);
+    expect(await index.search('wind')).toEqual([]);
+  });
+
+  it('forgets a removed file', async () => {
+    const index = await indexOf(chunk('a1', 'Solar panels.', 'a'), chunk('b1', 'Solar power.', 'b'));
+
+    expect(index.removeFile('a')).toBe(1);
+    expect(index.hasFile('a')).toBe(false);
+    expect((await index.search('solar')).map(r => r.id)).toEqual(['b1']);
+  });
+
+  it('falls back to BM25 when the embedding provider fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const failing: EmbeddingProvider = {
+      id: 'failing',
+      embed: async () => { throw new Error('offline'); },
+    };
+    const index = new RetrievalIndex({ embeddingProvider: failing });
+    await index.addChunks([chunk('hit', 'Dropout explained.'), chunk('miss', 'Batch normalisation.')]);
+
+    expect((await index.search('dropout')).map(r => r.id)).toEqual(['hit']);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
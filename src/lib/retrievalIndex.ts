@@ -0,0 +1,282 @@
+/**
+ * Retrieval Index
+ *
+ * In-memory similarity index over document chunks.
+ *
+ * - Lexical (BM25) scoring always runs and needs no external service,
+ *   so retrieval works offline and in tests.
+ * - When an EmbeddingProvider is configured, chunk and query embeddings are
+ *   blended with the BM25 score (hybrid search). If the provider fails the
+ *   index silently degrades to lexical scoring.
+ */
+
+import { RagChunk } from '@/types/podcast';
+
+/**
+ * Pluggable embedding backend (e.g. an edge function wrapping an embeddings API).
+ */
+export interface EmbeddingProvider {
+  /** Identifier used in logs */
+  id: string;
+  /** Returns one vector per input text, in order */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface SearchOptions {
+  topK?: number;
+  /** Restrict results to these files */
+  fileIds?: string[];
+  /** Drop results scoring below this (0-1) */
+  minScore?: number;
+}
+
+export interface RetrievalIndexOptions {
+  embeddingProvider?: EmbeddingProvider | null;
+  /** Weight of the embedding similarity in hybrid mode (0-1) */
+  semanticWeight?: number;
+}
+
+interface IndexedChunk {
+  chunk: Omit<RagChunk, 'relevanceScore'>;
+  termFrequencies: Map<string, number>;
+  length: number;
+  embedding?: number[];
+}
+
+// BM25 parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because', 'been',
+  'but', 'by', 'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her',
+  'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'me', 'more', 'my', 'no', 'not',
+  'of', 'on', 'one', 'or', 'our', 'out', 'so', 'some', 'than', 'that', 'the', 'their', 'them', 'then',
+  'there', 'these', 'they', 'this', 'those', 'to', 'up', 'us', 'was', 'we', 'were', 'what', 'when',
+  'where', 'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+/**
+ * Very light suffix stripping so "networks"/"network" and "training"/"train" match.
+ */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Lowercases, strips accents and punctuation, removes stopwords and stems.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+export class RetrievalIndex {
+  private chunks = new Map<string, IndexedChunk>();
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+  private embeddingProvider: EmbeddingProvider | null;
+  private semanticWeight: number;
+
+  constructor(options: RetrievalIndexOptions = {}) {
+    this.embeddingProvider = options.embeddingProvider || null;
+    this.semanticWeight = options.semanticWeight ?? 0.7;
+  }
+
+  get size(): number {
+    return this.chunks.size;
+  }
+
+  /**
+   * Swaps the embedding backend. Existing chunks are re-embedded lazily
+   * on the next search.
+   */
+  setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+    this.embeddingProvider = provider;
+    this.chunks.forEach(entry => { entry.embedding = undefined; });
+  }
+
+  hasFile(fileId: string): boolean {
+    for (const entry of this.chunks.values()) {
+      if (entry.chunk.fileId === fileId) return true;
+    }
+    return false;
+  }
+
+  countChunks(fileId: string): number {
+    let count = 0;
+    for (const entry of this.chunks.values()) {
+      if (entry.chunk.fileId === fileId) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Adds chunks to the index, replacing any with the same id.
+   */
+  async addChunks(chunks: RagChunk[]): Promise<void> {
+    for (const { relevanceScore: _score, ...chunk } of chunks) {
+      if (this.chunks.has(chunk.id)) this.removeChunk(chunk.id);
+
+      const terms = tokenize(chunk.text);
+      const termFrequencies = new Map<string, number>();
+      terms.forEach(term => termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1));
+      termFrequencies.forEach((_, term) => {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      });
+
+      this.chunks.set(chunk.id, { chunk, termFrequencies, length: terms.length });
+      this.totalLength += terms.length;
+    }
+
+    await this.embedMissing(chunks.map(c => c.id));
+  }
+
+  /**
+   * Removes every chunk belonging to a file. Returns the number removed.
+   */
+  removeFile(fileId: string): number {
+    const ids = Array.from(this.chunks.values())
+      .filter(entry => entry.chunk.fileId === fileId)
+      .map(entry => entry.chunk.id);
+    ids.forEach(id => this.removeChunk(id));
+    return ids.length;
+  }
+
+  clear(): void {
+    this.chunks.clear();
+    this.documentFrequencies.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Returns the most relevant chunks for a query with 0-1 relevance scores.
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<RagChunk[]> {
+    const { topK = 5, fileIds, minScore = 0 } = options;
+    const allowed = fileIds ? new Set(fileIds) : null;
+    const candidates = Array.from(this.chunks.values()).filter(
+      entry => !allowed || allowed.has(entry.chunk.fileId)
+    );
+
+    if (candidates.length === 0 || !query.trim()) return [];
+
+    const lexicalScores = this.scoreLexical(tokenize(query), candidates);
+    const semanticScores = await this.scoreSemantic(query, candidates);
+
+    return candidates
+      .map((entry, i) => {
+        const relevanceScore = semanticScores
+          ? this.semanticWeight * semanticScores[i] + (1 - this.semanticWeight) * lexicalScores[i]
+          : lexicalScores[i];
+        return { ...entry.chunk, relevanceScore };
+      })
+      .filter(chunk => chunk.relevanceScore > minScore)
+      .sort((a, b) => b.relevanceScore - a.relevanceScore)
+      .slice(0, topK);
+  }
+
+  // ------------------------------------------------------------------
+  // INTERNALS
+  // ------------------------------------------------------------------
+
+  private removeChunk(id: string): void {
+    const entry = this.chunks.get(id);
+    if (!entry) return;
+
+    entry.termFrequencies.forEach((_, term) => {
+      const df = (this.documentFrequencies.get(term) || 1) - 1;
+      if (df <= 0) this.documentFrequencies.delete(term);
+      else this.documentFrequencies.set(term, df);
+    });
+    this.totalLength -= entry.length;
+    this.chunks.delete(id);
+  }
+
+  private idf(term: string): number {
+    const n = this.chunks.size;
+    const df = this.documentFrequencies.get(term) || 0;
+    return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+  }
+
+  /**
+   * BM25 scores normalised by the query's best achievable score
+   * (every term saturated), so they fall in 0-1 and are comparable across queries.
+   */
+  private scoreLexical(queryTerms: string[], candidates: IndexedChunk[]): number[] {
+    const uniqueTerms = Array.from(new Set(queryTerms));
+    if (uniqueTerms.length === 0) return candidates.map(() => 0);
+
+    const avgLength = this.totalLength / Math.max(this.chunks.size, 1) || 1;
+    const idfs = uniqueTerms.map(term => this.idf(term));
+    const maxScore = idfs.reduce((sum, idf) => sum + idf * (BM25_K1 + 1), 0);
+
+    return candidates.map(entry => {
+      let score = 0;
+      uniqueTerms.forEach((term, i) => {
+        const tf = entry.termFrequencies.get(term) || 0;
+        if (tf === 0) return;
+        const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (entry.length / avgLength));
+        score += idfs[i] * ((tf * (BM25_K1 + 1)) / norm);
+      });
+      return maxScore > 0 ? Math.min(score / maxScore, 1) : 0;
+    });
+  }
+
+  /**
+   * Cosine similarity (clamped to 0-1) per candidate, or null when no
+   * embedding provider is available.
+   */
+  private async scoreSemantic(query: string, candidates: IndexedChunk[]): Promise<number[] | null> {
+    if (!this.embeddingProvider) return null;
+
+    try {
+      await this.embedMissing(candidates.map(entry => entry.chunk.id));
+      const [queryEmbedding] = await this.embeddingProvider.embed([query]);
+
+      if (!queryEmbedding || candidates.some(entry => !entry.embedding)) return null;
+      return candidates.map(entry => Math.max(0, cosineSimilarity(queryEmbedding, entry.embedding!)));
+    } catch (err) {
+      console.warn(`[RetrievalIndex] Embedding provider "${this.embeddingProvider.id}" failed, using lexical scores`, err);
+      return null;
+    }
+  }
+
+  private async embedMissing(ids: string[]): Promise<void> {
+    if (!this.embeddingProvider) return;
+
+    const pending = ids
+      .map(id => this.chunks.get(id))
+      .filter((entry): entry is IndexedChunk => !!entry && !entry.embedding);
+    if (pending.length === 0) return;
+
+    try {
+      const vectors = await this.embeddingProvider.embed(pending.map(entry => entry.chunk.text));
+      pending.forEach((entry, i) => { entry.embedding = vectors[i]; });
+    } catch (err) {
+      console.warn(`[RetrievalIndex] Failed to embed ${pending.length} chunks`, err);
+    }
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Speech Gateway
+ *
+ * Client side of the elevenlabs-tts, speech-to-text and elevenlabs-voices
+ * edge functions. The ElevenLabs key stays on the server; every call carries
+ * the user's session so the functions can check who is asking and cap their
+ * usage.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+export class SpeechGatewayError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    /** Seconds the server asked us to wait (quota exceeded) */
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'SpeechGatewayError';
+  }
+}
+
+/**
+ * Headers for calling the speech functions as the signed-in user.
+ */
+export async function speechGatewayHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  // Without a session the functions answer 401 - reported like any other error
+  const token = session?.access_token || SUPABASE_KEY;
+  return {
+    apikey: SUPABASE_KEY,
+    Authorization: `Bearer ${token}`,
+  };
+}
+
+/** A voice from the ElevenLabs voice library */
+export interface LibraryVoice {
+  voiceId: string;
+  name: string;
+  gender: string | null;
+  age: string | null;
+  accent: string | null;
+  style: string | null;
+  useCase: string | null;
+  description: string | null;
+  /** Short sample clip hosted by ElevenLabs */
+  previewUrl: string | null;
+}
+
+export interface VoiceLibraryFilters {
+  search?: string;
+  gender?: 'male' | 'female' | 'neutral';
+  age?: 'young' | 'middle_aged' | 'old';
+  accent?: string;
+  page?: number;
+}
+
+export interface VoiceLibraryPage {
+  voices: LibraryVoice[];
+  hasMore: boolean;
+}
+
+async function callFunction(name: string, body: BodyInit, signal?: AbortSignal, json = true): Promise<Response> {
+  const headers = await speechGatewayHeaders();
+  if (json) headers['Content-Type'] = 'application/json';
+
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/${name}`, {
+    method: 'POST',
+    headers,
+    body,
+    signal,
+  });
+
+  if (!response.ok) {
+    const details = await response.json().catch(() => ({}));
+    const retryAfter = Number(response.headers.get('Retry-After')) || details.retryAfter || undefined;
+    throw new SpeechGatewayError(details.error || `${name} failed: ${response.status}`, response.status, retryAfter);
+  }
+
+  return response;
+}
+
+/**
+ * Streamed speech for the text: MP3, or raw 24 kHz 16-bit PCM.
+ */
+export function requestSpeechStream(
+  text: string,
+  voiceId: string,
+  format: 'mp3' | 'pcm',
+  signal?: AbortSignal
+): Promise<Response> {
+  return callFunction('elevenlabs-tts', JSON.stringify({ text, voiceId, stream: true, format }), signal);
+}
+
+/**
+ * A single-use token for opening the ElevenLabs stream-input websocket.
+ */
+export async function fetchSpeechSocketToken(): Promise<string> {
+  const response = await callFunction('elevenlabs-tts', JSON.stringify({ action: 'websocket-token' }));
+  const { token } = await response.json();
+  if (!token) throw new SpeechGatewayError('No websocket token returned', 502);
+  return token;
+}
+
+/**
+ * Transcribes a recording through the speech-to-text function.
+ */
+export async function transcribeRecording(audio: Blob, fileName: string): Promise<string> {
+  const formData = new FormData();
+  formData.append('file', audio, fileName);
+
+  const response = await callFunction('speech-to-text', formData, undefined, false);
+  const { text } = await response.json();
+  return typeof text === 'string' ? text.trim() : '';
+}
+
+/**
+ * One page of the ElevenLabs voice library matching the filters.
+ */
+export async function searchVoiceLibrary(filters: VoiceLibraryFilters, signal?: AbortSignal): Promise<VoiceLibraryPage> {
+  const response = await callFunction('elevenlabs-voices', JSON.stringify(filters), signal);
+  const { voices, hasMore } = await response.json();
+  return { voices: voices || [], hasMore: !!hasMore };
+}
@@ -0,0 +1,211 @@
+/**
+ * ElevenLabs WebSocket Speech
+ *
+ * The alternative TTS transport: one websocket per turn to ElevenLabs'
+ * stream-input endpoint. Text is sent as the model writes it and audio comes
+ * back in PCM chunks with per-character timings, so speech starts before a
+ * sentence is finished and keeps its prosody across sentence boundaries.
+ * The socket is opened with a single-use token from the elevenlabs-tts edge
+ * function, so the API key never reaches the browser. Each token is charged
+ * SOCKET_CHARACTER_LIMIT characters, and a socket never sends more.
+ * The default transport is one HTTP request per sentence (see audioStream.ts).
+ */
+
+import { MOCK_MODE } from './mocks';
+import { PCM_SAMPLE_RATE, decodePcm16 } from './audioStream';
+import { resolveVoiceId } from './voices';
+import { fetchSpeechSocketToken } from './speechGateway';
+
+export type TtsMode = 'sentence' | 'websocket';
+
+export const TTS_MODES: { id: TtsMode; label: string; description: string }[] = [
+  { id: 'sentence', label: 'Per sentence', description: 'One TTS request per finished sentence' },
+  { id: 'websocket', label: 'Streaming input', description: 'Tokens streamed to one ElevenLabs websocket per turn' },
+];
+
+export const DEFAULT_TTS_MODE: TtsMode = import.meta.env.VITE_TTS_MODE === 'websocket' ? 'websocket' : 'sentence';
+
+const ELEVENLABS_WS_URL = 'wss://api.elevenlabs.io/v1/text-to-speech';
+
+// Characters buffered before each generation: small at first so the turn starts quickly
+const CHUNK_LENGTH_SCHEDULE = [50, 90, 120, 150];
+
+/**
+ * Most text one socket speaks - a turn is ~50 words, this leaves headroom.
+ * Must match WEBSOCKET_CHARACTERS_PER_TOKEN in the elevenlabs-tts function.
+ */
+export const SOCKET_CHARACTER_LIMIT = 1000;
+
+/** Start time and duration of each character in a chunk, in ms from the chunk start */
+export interface CharacterAlignment {
+  chars: string[];
+  charStartTimesMs: number[];
+  charDurationsMs: number[];
+}
+
+export interface SpeechChunk {
+  samples: Float32Array;
+  sampleRate: number;
+  alignment: CharacterAlignment | null;
+}
+
+export interface SpeechSocket {
+  /** Sends more of the turn's text and returns what was sent (less past SOCKET_CHARACTER_LIMIT) */
+  send: (text: string) => string;
+  /** No more text: the rest is spoken and the socket closes */
+  finish: () => void;
+  /** Resolves once the last audio has arrived */
+  done: Promise<void>;
+  close: () => void;
+}
+
+/**
+ * Resolves the transport a session asked for. The websocket needs the real
+ * ElevenLabs service, so mock mode always speaks per sentence.
+ */
+export function resolveTtsMode(mode: TtsMode = DEFAULT_TTS_MODE): TtsMode {
+  return mode === 'websocket' && !MOCK_MODE ? 'websocket' : 'sentence';
+}
+
+/**
+ * Opens a stream-input socket for one turn. Text sent before it is open
+ * (while the token is fetched and the socket connects) is queued.
+ */
+export function openSpeechSocket(voiceId: string, onAudio: (chunk: SpeechChunk) => void): SpeechSocket {
+  let socket: WebSocket | null = null;
+  const outbox: string[] = [];
+  let finished = false;
+  let settled = false;
+  let closed = false;
+  let sentCharacters = 0;
+  let truncated = false;
+
+  let resolveDone: () => void = () => {};
+  let rejectDone: (error: Error) => void = () => {};
+  const done = new Promise<void>((resolve, reject) => {
+    resolveDone = resolve;
+    rejectDone = reject;
+  });
+  done.catch(() => {
+    // Reported to whoever awaits it
+  });
+
+  const settle = (error?: Error) => {
+    if (settled) return;
+    settled = true;
+    if (error) rejectDone(error);
+    else resolveDone();
+  };
+
+  const post = (message: Record<string, unknown>) => {
+    const data = JSON.stringify(message);
+    if (socket?.readyState === WebSocket.OPEN) socket.send(data);
+    else outbox.push(data);
+  };
+
+  // The first message opens the generation with the voice settings
+  post({
+    text: ' ',
+    voice_settings: {
+      stability: 0.5,
+      similarity_boost: 0.75,
+    },
+    generation_config: {
+      chunk_length_schedule: CHUNK_LENGTH_SCHEDULE,
+    },
+  });
+
+  const connect = (token: string) => {
+    if (closed) return;
+    const url = `${ELEVENLABS_WS_URL}/${resolveVoiceId(voiceId)}/stream-input`
+      + `?model_id=eleven_turbo_v2_5&output_format=pcm_${PCM_SAMPLE_RATE}`
+      + `&single_use_token=${encodeURIComponent(token)}`;
+    socket = new WebSocket(url);
+
+    socket.onopen = () => {
+      for (const data of outbox.splice(0)) socket!.send(data);
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      let message: {
+        audio?: string | null;
+        isFinal?: boolean | null;
+        alignment?: CharacterAlignment | null;
+        error?: string;
+        message?: string;
+      };
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+
+      if (message.error) {
+        settle(new Error(`ElevenLabs websocket error: ${message.message || message.error}`));
+        socket!.close();
+        return;
+      }
+
+      if (message.audio) {
+        const binary = atob(message.audio);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+        onAudio({
+          samples: decodePcm16(bytes),
+          sampleRate: PCM_SAMPLE_RATE,
+          alignment: message.alignment || null,
+        });
+      }
+
+      if (message.isFinal) {
+        settle();
+        socket!.close();
+      }
+    };
+
+    socket.onerror = () => {
+      settle(new Error('ElevenLabs websocket connection failed'));
+    };
+
+    socket.onclose = (event: CloseEvent) => {
+      if (finished && event.code === 1000) settle();
+      else settle(new Error(`ElevenLabs websocket closed (${event.code}${event.reason ? `: ${event.reason}` : ''})`));
+    };
+  };
+
+  fetchSpeechSocketToken().then(connect, error => settle(error));
+
+  return {
+    send(text: string) {
+      if (!text || finished) return '';
+      const accepted = text.slice(0, SOCKET_CHARACTER_LIMIT - sentCharacters);
+      if (accepted.length < text.length && !truncated) {
+        truncated = true;
+        console.warn(`[SpeechSocket] Turn is over ${SOCKET_CHARACTER_LIMIT} characters, the rest is not spoken`);
+      }
+      if (!accepted) return '';
+      sentCharacters += accepted.length;
+      post({ text: accepted });
+      return accepted;
+    },
+
+    finish() {
+      if (finished) return;
+      finished = true;
+      // Empty text ends the input; the remaining audio follows
+      post({ text: '' });
+    },
+
+    done,
+
+    close() {
+      finished = true;
+      closed = true;
+      settle();
+      outbox.length = 0;
+      if (socket && (socket.readyState === WebSocket.CONNECTING || socket.readyState === WebSocket.OPEN)) {
+        socket.close();
+      }
+    },
+  };
+}
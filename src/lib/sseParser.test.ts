@@ -0,0 +1,168 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseTurnStream, readServerSentEvents } from './sseParser';
+
+const encoder = new TextEncoder();
+
+// A byte stream delivering the given chunks one read at a time
+function streamOf(...chunks: (string | Uint8Array)[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+      }
+      controller.close();
+    },
+  });
+}
+
+async function collect<T>(events: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+}
+
+describe('readServerSentEvents', () => {
+  it('joins an event split across chunks', async () => {
+    const events = await collect(readServerSentEvents(streamOf('da', 'ta: hel', 'lo\n', '\nda', 'ta: world\n\n')));
+
+    expect(events.map(e => e.data)).toEqual(['hello', 'world']);
+  });
+
+  it('keeps a multibyte character split across chunks', async () => {
+    const bytes = encoder.encode('data: café\n\n');
+    const split = bytes.length - 3; // Inside the two bytes of "é"
+
+    const events = await collect(readServerSentEvents(streamOf(bytes.slice(0, split), bytes.slice(split))));
+
+    expect(events.map(e => e.data)).toEqual(['café']);
+  });
+
+  it('joins multi-line data with newlines', async () => {
+    const events = await collect(readServerSentEvents(streamOf('data: first\ndata: second\ndata:third\n\n')));
+
+    expect(events).toHaveLength(1);
+    expect(events[0].data).toBe('first\nsecond\nthird');
+  });
+
+  it('accepts CRLF and CR line endings, including a CRLF split across chunks', async () => {
+    const events = await collect(readServerSentEvents(streamOf('data: one\r\n\r', '\ndata: two\r\rdata: three\r\n\r\n')));
+
+    expect(events.map(e => e.data)).toEqual(['one', 'two', 'three']);
+  });
+
+  it('skips comments and heartbeats', async () => {
+    const events = await collect(readServerSentEvents(streamOf(': keep-alive\n\n:\n\ndata: real\n: ping\n\n')));
+
+    expect(events.map(e => e.data)).toEqual(['real']);
+  });
+
+  it('reads the event type, id and retry fields', async () => {
+    const events = await collect(readServerSentEvents(streamOf('event: delta\nid: 7\nretry: 1500\ndata: x\n\ndata: y\n\n')));
+
+    expect(events[0]).toEqual({ event: 'delta', data: 'x', lastEventId: '7', retry: 1500 });
+    // The event type resets after each event; the id carries over
+    expect(events[1]).toMatchObject({ event: 'message', data: 'y', lastEventId: '7' });
+  });
+
+  it('dispatches a trailing event with no final blank line', async () => {
+    const events = await collect(readServerSentEvents(streamOf('data: first\n\ndata: last')));
+
+    expect(events.map(e => e.data)).toEqual(['first', 'last']);
+  });
+
+  it('stops reading when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const reader = readServerSentEvents(streamOf('data: one\n\n', 'data: two\n\n'), controller.signal);
+
+    await expect(reader.next()).resolves.toMatchObject({ value: { data: 'one' } });
+    controller.abort();
+    await expect(collect(reader)).rejects.toThrow('Aborted');
+  });
+});
+
+describe('parseTurnStream', () => {
+  it('yields tokens until [DONE]', async () => {
+    const events = await collect(parseTurnStream(streamOf(
+      'data: {"delta":{"content":"Hello"}}\n\n',
+      'data: {"choices":[{"delta":{"content":" there"}}]}\n\n',
+      'data: [DONE]\n\n',
+      'data: {"content":"ignored"}\n\n'
+    )));
+
+    expect(events).toEqual([
+      { type: 'token', text: 'Hello' },
+      { type: 'token', text: ' there' },
+      { type: 'finish', reason: 'done', lastEventId: '' },
+    ]);
+  });
+
+  it('skips malformed JSON instead of failing the turn or reading it out', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const events = await collect(parseTurnStream(streamOf('data: {"content": "cut of\n\ndata: {"content":"fine"}\n\n')));
+
+    expect(events).toEqual([
+      { type: 'token', text: 'fine' },
+      { type: 'finish', reason: 'eof', lastEventId: '' },
+    ]);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+
+  it('reads data as text on a plain-text stream', async () => {
+    const events = await collect(parseTurnStream(streamOf('data: Hello\n\ndata:  there\n\ndata: [DONE]\n\n'), undefined, { plainText: true }));
+
+    expect(events).toEqual([
+      { type: 'token', text: 'Hello' },
+      { type: 'token', text: ' there' },
+      { type: 'finish', reason: 'done', lastEventId: '' },
+    ]);
+  });
+
+  it("drops Backboard's echo of the user message", async () => {
+    const events = await collect(parseTurnStream(streamOf(
+      'data: {"type":"user_message","content":"Generate the next segment"}\n\n',
+      'data: {"role":"user","content":"Generate the next segment"}\n\n',
+      'data: {"type":"content_streaming","content":"Hi"}\n\n',
+      'data: {"type":"message_complete","content":"Hi"}\n\n'
+    )));
+
+    expect(events).toEqual([
+      { type: 'token', text: 'Hi' },
+      { type: 'finish', reason: 'stop', lastEventId: '' },
+    ]);
+  });
+
+  it('ends with an error event on a failed run', async () => {
+    const events = await collect(parseTurnStream(streamOf(
+      'data: {"content":"Partial"}\n\n',
+      'data: {"type":"run_failed","error":{"message":"Model overloaded"},"code":"overloaded"}\n\n'
+    )));
+
+    expect(events).toEqual([
+      { type: 'token', text: 'Partial' },
+      { type: 'error', message: 'Model overloaded', code: 'overloaded' },
+    ]);
+  });
+
+  it('reads an `event: error` with plain text data', async () => {
+    const events = await collect(parseTurnStream(streamOf('event: error\ndata: upstream timed out\n\n')));
+
+    expect(events).toEqual([{ type: 'error', message: 'upstream timed out' }]);
+  });
+
+  it('finishes on an OpenAI finish_reason and reports eof when the stream just ends', async () => {
+    const finished = await collect(parseTurnStream(streamOf(
+      'id: 3\ndata: {"choices":[{"delta":{"content":"Done."},"finish_reason":"stop"}]}\n\n'
+    )));
+    const ended = await collect(parseTurnStream(streamOf('data: {"text":"No end marker"}')));
+
+    expect(finished).toEqual([
+      { type: 'token', text: 'Done.' },
+      { type: 'finish', reason: 'stop', lastEventId: '3' },
+    ]);
+    expect(ended).toEqual([
+      { type: 'token', text: 'No end marker' },
+      { type: 'finish', reason: 'eof', lastEventId: '' },
+    ]);
+  });
+});
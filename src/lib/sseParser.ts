@@ -0,0 +1,224 @@
+/**
+ * Server-Sent Events Parser
+ *
+ * Reads the turn streams of the dialogue providers (Backboard, the OpenAI
+ * format, our own text events) into typed events:
+ *
+ * 1. readServerSentEvents() implements the SSE wire format: multi-line
+ *    `data:` fields, `event:` types, `id:` / `retry:` for reconnection,
+ *    `:` comment keep-alives and any of CRLF / LF / CR line endings.
+ * 2. parseTurnStream() interprets each event's payload as a token, the end
+ *    of the turn or an error, dropping Backboard's echo of our own message.
+ */
+
+export interface ServerSentEvent {
+  /** Event type (`event:` field), 'message' when not given */
+  event: string;
+  /** Data lines joined with newlines */
+  data: string;
+  /** Last event id seen on the stream, to resume from when reconnecting */
+  lastEventId: string;
+  /** Reconnection delay requested by the server, in ms */
+  retry?: number;
+}
+
+export type TurnStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'finish'; reason: 'done' | 'stop' | 'eof'; lastEventId: string }
+  | { type: 'error'; message: string; code?: string };
+
+// Payload types that end a turn (Backboard, OpenAI-style and generic)
+const FINISH_TYPES = new Set(['done', 'message_complete', 'run_ended', 'message_stop']);
+
+// Payload types reporting a failed turn
+const ERROR_TYPES = new Set(['error', 'run_failed']);
+
+/**
+ * Reads the raw SSE events of a byte stream. Aborting the signal stops
+ * reading with an 'Aborted' error.
+ */
+export async function* readServerSentEvents(
+  stream: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): AsyncGenerator<ServerSentEvent> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventType = '';
+  let dataLines: string[] = [];
+  let lastEventId = '';
+  let retry: number | undefined;
+  let finished = false;
+
+  const dispatch = (): ServerSentEvent | null => {
+    const event = dataLines.length > 0
+      ? { event: eventType || 'message', data: dataLines.join('\n'), lastEventId, retry }
+      : null;
+    eventType = '';
+    dataLines = [];
+    return event;
+  };
+
+  const processLine = (line: string): ServerSentEvent | null => {
+    if (line === '') return dispatch();
+    if (line.startsWith(':')) return null; // Comment / keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'event':
+        eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = Number(value);
+        break;
+      // Unknown fields are ignored
+    }
+    return null;
+  };
+
+  try {
+    while (true) {
+      if (signal?.aborted) throw new Error('Aborted');
+
+      const { done, value } = await reader.read();
+      // { stream: true } keeps the decoder state when a multibyte char is split
+      buffer += decoder.decode(value, { stream: !done });
+
+      // A trailing CR may be the first half of a CRLF - hold it for the next chunk
+      const held = !done && buffer.endsWith('\r') ? '\r' : '';
+      const lines = (held ? buffer.slice(0, -1) : buffer).split(/\r\n|\r|\n/);
+      buffer = (lines.pop() || '') + held;
+
+      for (const line of lines) {
+        const event = processLine(line);
+        if (event) yield event;
+      }
+
+      if (done) {
+        // Servers that end without a blank line still meant to send the last event
+        if (buffer) processLine(buffer);
+        const last = dispatch();
+        if (last) yield last;
+        finished = true;
+        return;
+      }
+    }
+  } finally {
+    if (!finished) {
+      await reader.cancel().catch(() => {
+        // Already closed or errored
+      });
+    }
+    reader.releaseLock();
+  }
+}
+
+function errorMessage(payload: Record<string, unknown>): string {
+  const error = payload.error;
+  if (typeof error === 'string') return error;
+  if (error && typeof error === 'object' && typeof (error as { message?: unknown }).message === 'string') {
+    return (error as { message: string }).message;
+  }
+  if (typeof payload.message === 'string') return payload.message;
+  return 'Stream error';
+}
+
+function tokenText(payload: Record<string, unknown>): string {
+  const delta = payload.delta as { content?: unknown } | undefined;
+  const choice = (payload.choices as { delta?: { content?: unknown } }[] | undefined)?.[0];
+
+  for (const candidate of [delta?.content, choice?.delta?.content, payload.content, payload.text]) {
+    if (typeof candidate === 'string') return candidate;
+  }
+  return '';
+}
+
+export interface TurnStreamOptions {
+  /** The data of every event is the text itself rather than a JSON payload */
+  plainText?: boolean;
+}
+
+/**
+ * Reads a turn stream as tokens, ending with exactly one finish or error
+ * event. Events whose data isn't JSON are skipped unless the stream is
+ * declared plain text.
+ */
+export async function* parseTurnStream(
+  stream: ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+  options: TurnStreamOptions = {}
+): AsyncGenerator<TurnStreamEvent> {
+  let lastEventId = '';
+
+  for await (const sse of readServerSentEvents(stream, signal)) {
+    lastEventId = sse.lastEventId;
+    const data = sse.data.trim();
+
+    if (data === '[DONE]') {
+      yield { type: 'finish', reason: 'done', lastEventId };
+      return;
+    }
+
+    let payload: Record<string, unknown> | null = null;
+    try {
+      const parsed = JSON.parse(data);
+      if (parsed && typeof parsed === 'object') payload = parsed;
+    } catch {
+      // Plain text data
+    }
+
+    if (sse.event === 'error') {
+      yield { type: 'error', message: payload ? errorMessage(payload) : data || 'Stream error' };
+      return;
+    }
+
+    if (!payload) {
+      if (options.plainText) {
+        if (sse.data) yield { type: 'token', text: sse.data };
+      } else if (data) {
+        // A cut-off or garbled frame - never read it out
+        console.warn('[SSE] Skipping event that is not JSON:', data.slice(0, 80));
+      }
+      continue;
+    }
+
+    // The echo of our own instructions ('role' in the standard format,
+    // Backboard's user_message event)
+    if (payload.role === 'user' || payload.type === 'user_message') continue;
+
+    if (ERROR_TYPES.has(String(payload.type)) || payload.error) {
+      yield {
+        type: 'error',
+        message: errorMessage(payload),
+        code: typeof payload.code === 'string' ? payload.code : undefined,
+      };
+      return;
+    }
+
+    // Completion events may repeat the whole message - it was already streamed
+    if (FINISH_TYPES.has(String(payload.type))) {
+      yield { type: 'finish', reason: 'stop', lastEventId };
+      return;
+    }
+
+    const text = tokenText(payload);
+    if (text) yield { type: 'token', text };
+
+    if ((payload.choices as { finish_reason?: unknown }[] | undefined)?.[0]?.finish_reason) {
+      yield { type: 'finish', reason: 'stop', lastEventId };
+      return;
+    }
+  }
+
+  yield { type: 'finish', reason: 'eof', lastEventId };
+}
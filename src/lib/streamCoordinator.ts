@@ -1,21 +1,32 @@
 /**
  * Stream Coordinator - The "Bucket Brigade" Pipeline
  * 
- * This module connects the "Brain" (Backboard) to the "Mouth" (ElevenLabs).
+ * This module connects the "Brain" (the session's dialogue provider) to the
+ * "Mouth" (ElevenLabs).
  * It implements sentence buffering for instant audio playback while text
  * is still being generated.
  * 
  * The Pipeline:
- * 1. Backboard streams tokens: "Hel", "lo", " ", "there", ".", " ", "How"...
+ * 1. The provider streams tokens: "Hel", "lo", " ", "there", ".", " ", "How"...
  * 2. Buffer catches tokens until punctuation: "Hello there."
  * 3. Immediately blast complete sentence to ElevenLabs
- * 4. While sentence 1 is playing, sentence 2 is being generated
+ * 4. While sentence 1 is playing, sentence 2 is being generated and fetched,
+ *    then queued to start on the sample sentence 1 ends (see playbackEngine.ts)
+ *    (or, in websocket mode, tokens go straight to one ElevenLabs socket per
+ *    turn and sentences are shown from its character timings)
+ * 5. Once the text is complete, the next turn can be prefetched while the
+ *    last sentences still play (see prefetchTurn)
  * 
  * Result: User hears audio in ~800ms instead of waiting 5+ seconds
  */
 
 import { streamAudio, AudioStreamController } from './audioStream';
-import { generateNextTurnStream } from './backboard';
+import { getPlaybackEngine, ScheduledClip } from './playbackEngine';
+import { openSpeechSocket, resolveTtsMode, SpeechChunk, SpeechSocket, TtsMode } from './speechSocket';
+import { DialogueProvider, TurnContext } from './dialogue/types';
+import { parseTurnStream, TurnStreamEvent } from './sseParser';
+import { attributeSentence, mergeCitations } from './citations';
+import { Citation, RagChunk } from '@/types/podcast';
 
 /**
  * Clean text before sending to TTS.
@@ -33,122 +44,249 @@ function cleanTextForTTS(text: string): string {
   return cleaned;
 }
 
+// A sentence ends at the first of these
+const SENTENCE_ENDINGS = /[.!?]/;
+
 /** Return type with spoken history for interruption handling */
 export interface SpeakingChainResult {
   /** All text that was actually spoken to the user */
   spokenText: string;
   /** Whether the chain completed or was interrupted */
   completed: boolean;
+  /** Document chunks cited by the spoken sentences (deduplicated) */
+  citations: Citation[];
+  /** Why the turn stopped early, when it wasn't aborted */
+  error?: unknown;
+}
+
+/**
+ * A requested turn, read ahead of playback: its events are buffered as they
+ * arrive and the first sentence's audio is fetched as soon as it is complete.
+ * Requested early (prefetchTurn), the turn can start playing without a gap.
+ */
+export interface PrefetchedTurn {
+  hostId: string;
+  /** Buffered events followed by the rest of the stream */
+  events: AsyncGenerator<TurnStreamEvent>;
+  /** The first sentence and its preloaded audio, once known */
+  firstSentence: { text: string; audio: AudioStreamController } | null;
+  /** The whole text once the stream has finished; null if it failed or was cancelled */
+  fullText: Promise<string | null>;
+  /** Drops the speculation: stops the request and the preloaded audio */
+  cancel: () => void;
+}
+
+export interface SpeakingChainOptions {
+  /** Play this prefetched turn instead of requesting one from the provider */
+  prefetched?: PrefetchedTurn;
+  /** Called with the whole turn as soon as its text is complete, before the last sentences have played */
+  onTextComplete?: (text: string) => void;
+  /** TTS transport: a request per sentence (default) or the ElevenLabs websocket */
+  ttsMode?: TtsMode;
+}
+
+/**
+ * Requests a turn without playing it. Errors surface when the events are read.
+ */
+export function prefetchTurn(
+  provider: DialogueProvider,
+  hostId: string,
+  voiceId: string,
+  turnContext: TurnContext,
+  ttsMode?: TtsMode
+): PrefetchedTurn {
+  // Over the websocket the first sentence is spoken as part of the whole turn
+  const preloadFirstSentence = resolveTtsMode(ttsMode) === 'sentence';
+  const abortController = new AbortController();
+  const buffered: TurnStreamEvent[] = [];
+  let failure: unknown = null;
+  let ended = false;
+  let wake: (() => void) | null = null;
+  let resolveText: (text: string | null) => void = () => {};
+
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  const prefetched: PrefetchedTurn = {
+    hostId,
+    events: replay(),
+    firstSentence: null,
+    fullText: new Promise(resolve => { resolveText = resolve; }),
+    cancel() {
+      abortController.abort();
+      prefetched.firstSentence?.audio.stop();
+    },
+  };
+
+  async function* replay(): AsyncGenerator<TurnStreamEvent> {
+    let index = 0;
+    while (true) {
+      if (index < buffered.length) {
+        yield buffered[index++];
+        continue;
+      }
+      if (failure) throw failure;
+      if (ended) return;
+      await new Promise<void>(resolve => { wake = resolve; });
+    }
+  }
+
+  (async () => {
+    let text = '';
+    try {
+      const stream = await provider.nextTurn(hostId, turnContext, abortController.signal);
+      for await (const event of parseTurnStream(stream, abortController.signal, { plainText: provider.plainTextStream })) {
+        buffered.push(event);
+        notify();
+
+        if (event.type === 'finish') {
+          resolveText(text);
+        } else if (event.type === 'token') {
+          text += event.text;
+        }
+
+        if (event.type === 'token' && preloadFirstSentence && !prefetched.firstSentence) {
+          const match = text.match(SENTENCE_ENDINGS);
+          const sentence = match ? cleanTextForTTS(text.slice(0, match.index! + 1).trim()) : '';
+          if (sentence) {
+            const audio = streamAudio(sentence, voiceId);
+            audio.preload().catch(() => {
+              // play() reports it when the turn gets to this sentence
+            });
+            prefetched.firstSentence = { text: sentence, audio };
+          }
+        }
+      }
+    } catch (error) {
+      failure = error;
+    } finally {
+      ended = true;
+      resolveText(null);
+      notify();
+    }
+  })();
+
+  return prefetched;
 }
 
 /**
- * Starts the streaming pipeline from Backboard to ElevenLabs.
+ * Starts the streaming pipeline from the dialogue provider to ElevenLabs.
  * 
  * Returns when the full turn is complete OR when interrupted.
  * 
- * @param threadId - The Backboard thread ID
+ * @param provider - The session's dialogue provider
+ * @param hostId - The host taking this turn
  * @param voiceId - The ElevenLabs voice ID
- * @param onSentenceStart - Callback when each sentence starts playing
+ * @param onSentenceStart - Callback when each sentence starts playing, with the chunks it cites
  * @param signal - Optional AbortSignal to cancel playback immediately
+ * @param turnContext - Retrieved chunks / sub-topic to ground this turn
+ * @param options - A prefetched turn to play, and a hook for prefetching the next one
  * @returns Result with spoken text for interruption handling
  */
 export async function startSpeakingChain(
-  threadId: string,
+  provider: DialogueProvider,
+  hostId: string,
   voiceId: string,
-  onSentenceStart?: (sentence: string) => void,
-  signal?: AbortSignal
+  onSentenceStart?: (sentence: string, citations: Citation[]) => void,
+  signal?: AbortSignal,
+  turnContext?: TurnContext,
+  options: SpeakingChainOptions = {}
 ): Promise<SpeakingChainResult> {
-  // 1. Start the Brain - get the text stream
-  const textStream = await generateNextTurnStream(threadId, signal);
+  const { onTextComplete } = options;
+  const ttsMode = resolveTtsMode(options.ttsMode);
+
+  // 1. Start the Brain - get the text stream (already running when prefetched).
+  // It is read ahead of playback so the full text is known before the last sentences play
+  const turn = options.prefetched || prefetchTurn(provider, hostId, voiceId, turnContext || {}, ttsMode);
+  turn.fullText.then(text => {
+    if (text !== null && !signal?.aborted) onTextComplete?.(cleanTextForTTS(text.trim()));
+  });
+
+  if (ttsMode === 'websocket') {
+    return speakOverSocket(turn, voiceId, onSentenceStart, signal, turnContext?.ragChunks || []);
+  }
 
   let sentenceBuffer = "";
   let spokenText = "";
-  const sentenceEndings = /[.!?]/;
-  let currentAudio: AudioStreamController | null = null;
+  let citations: Citation[] = [];
+  const ragChunks = turnContext?.ragChunks || [];
+  const controllers: AudioStreamController[] = [];
+  const playing: Promise<void>[] = [];
+  // Resolves once the previous sentence is fully queued on the playback engine
+  let queuedBehind: Promise<void> = Promise.resolve();
+
+  const stopAudio = () => {
+    for (const audio of controllers) audio.stop();
+  };
+
+  // Queues a sentence right behind the previous one: its audio is fetched while
+  // the previous one plays and starts on the sample that one ends
+  const queueSentence = (sentence: string, sentenceCitations: Citation[]) => {
+    // The prefetched first sentence is already loaded
+    const preloaded = turn.firstSentence;
+    const audio = preloaded && controllers.length === 0 && preloaded.text === sentence
+      ? preloaded.audio
+      : streamAudio(sentence, voiceId);
+    controllers.push(audio);
+
+    let shown = false;
+    const show = () => {
+      if (shown || signal?.aborted) return;
+      shown = true;
+      // Notify listener with cleaned text and its sources as the sentence starts playing
+      onSentenceStart?.(sentence, sentenceCitations);
+    };
 
-  // 2. Read the Brain's thoughts in real-time
-  const reader = textStream.getReader();
-  const decoder = new TextDecoder();
-  let streamBuffer = ""; // Buffer for partial lines
+    const previous = queuedBehind;
+    const played = previous.then(() => {
+      if (signal?.aborted) throw new Error('Aborted');
+      audio.started().then(show);
+      return audio.play().catch(playError => {
+        if (signal?.aborted) throw new Error('Aborted');
+        // A sentence without audio still counts - it is shown and the turn goes on
+        console.warn("[StreamCoordinator] Sentence audio failed:", playError);
+        show();
+      });
+    }).then(() => {
+      // Stopped part-way through
+      if (signal?.aborted) throw new Error('Aborted');
+      // Track what was spoken (use cleaned text)
+      spokenText += (spokenText ? " " : "") + sentence;
+    });
+    played.catch(() => {
+      // Collected after the text has been read
+    });
+    playing.push(played);
+    queuedBehind = previous.then(() => audio.queued().catch(() => {
+      // Failed sentences are skipped
+    }));
+  };
 
   // Clean up if aborted
   if (signal) {
     signal.addEventListener('abort', () => {
       console.log("[StreamCoordinator] Abort signal received");
-      currentAudio?.stop();
+      stopAudio();
+      turn.cancel();
     });
   }
 
   try {
-    while (true) {
-      // Check abort before reading
+    // 2. Read the Brain's thoughts in real-time
+    for await (const event of turn.events) {
       if (signal?.aborted) throw new Error('Aborted');
-
-      const { done, value } = await reader.read();
-
-      // Decode chunk and add to buffer
-      // { stream: true } keeps the internal state of decoder if multibyte char is split
-      const chunk = decoder.decode(value, { stream: !done });
-      streamBuffer += chunk;
-
-      if (done && !streamBuffer.trim()) break;
-
-      // Extract complete lines
-      const lines = streamBuffer.split('\n');
-      // Keep the last part in buffer (it might be incomplete) unless we are done
-      streamBuffer = done ? "" : (lines.pop() || "");
-
-      let textChunk = "";
-
-      for (const line of lines) {
-        const trimmedLine = line.trim();
-        if (!trimmedLine) continue;
-
-        if (trimmedLine.startsWith('data:')) {
-          let jsonStr = "";
-          try {
-            jsonStr = trimmedLine.slice(5).trim(); // remove 'data:'
-            if (jsonStr === '[DONE]') continue;
-
-            const data = JSON.parse(jsonStr);
-
-            // CRITICAL: Filter out the echo of our own instructions
-            // Check both 'role' (standard) and 'type' (Backboard specific user_message event)
-            if (data.role === 'user' || data.type === 'user_message') {
-              continue;
-            }
-
-            // extract content from common fields
-            if (data.delta?.content) textChunk += data.delta.content;
-            else if (data.content) textChunk += data.content;
-            else if (data.text) textChunk += data.text;
-
-            // Note: If no content field, we simply ignore. 
-            // Do NOT fallback to appending raw text for parsed JSON.
-
-          } catch (e) {
-            console.warn("[StreamCoordinator] Failed to parse SSE JSON:", trimmedLine);
-            // Only append as raw text if it DOESN'T look like JSON
-            // If it starts with '{', it was probably valid JSON that we failed to handle, so skip it to be safe
-            if (!jsonStr.startsWith('{')) {
-              textChunk += jsonStr + " ";
-            }
-          }
-        } else {
-          // Treat non-data lines as content (carefully)
-          // If it looks like JSON or metadata, skip it
-          if (!trimmedLine.startsWith('{') && !trimmedLine.startsWith('[')) {
-            textChunk += trimmedLine + " ";
-          }
-        }
+      if (event.type === 'error') {
+        throw new Error(event.message);
       }
+      if (event.type === 'finish') break;
 
-
-      sentenceBuffer += textChunk;
+      sentenceBuffer += event.text;
 
       // 3. Check if we have a full sentence
       let match;
-      while ((match = sentenceBuffer.match(sentenceEndings))) {
+      while ((match = sentenceBuffer.match(SENTENCE_ENDINGS))) {
         // Check abort before playing
         if (signal?.aborted) throw new Error('Aborted');
 
@@ -161,25 +299,13 @@ export async function startSpeakingChain(
           const cleanedText = cleanTextForTTS(completeSentence);
 
           if (cleanedText) {
-            console.log("[StreamCoordinator] Speaking chunk:", cleanedText);
+            console.log("[StreamCoordinator] Queueing chunk:", cleanedText);
 
-            // Notify listener with cleaned text
-            onSentenceStart?.(cleanedText);
+            const sentenceCitations = attributeSentence(cleanedText, ragChunks);
+            citations = mergeCitations(citations, sentenceCitations);
 
-            // Create audio controller but DON'T await - we want it to start immediately
-            currentAudio = streamAudio(cleanedText, voiceId);
-
-            // Start playing (this returns a promise when audio ends)
-            try {
-              await currentAudio.play();
-            } catch (playError) {
-              // If play was aborted/stopped, we might catch here depending on impl
-              // But usually stop() acts silently or throws AbortError
-              if (signal?.aborted) throw new Error('Aborted');
-            }
-
-            // Track what was spoken (use cleaned text)
-            spokenText += (spokenText ? " " : "") + cleanedText;
+            // Don't await - the next sentence is read while this one plays
+            queueSentence(cleanedText, sentenceCitations);
           }
         }
 
@@ -188,32 +314,38 @@ export async function startSpeakingChain(
       }
     }
 
+    // Providers end their stream on abort, which reads like a finished turn
+    if (signal?.aborted) throw new Error('Aborted');
+
     // Speak any remaining text (no punctuation at end)
     if (sentenceBuffer.trim() && !signal?.aborted) {
       const cleanedFinal = cleanTextForTTS(sentenceBuffer.trim());
 
       if (cleanedFinal) {
-        console.log("[StreamCoordinator] Speaking final chunk:", cleanedFinal);
-        onSentenceStart?.(cleanedFinal);
-
-        currentAudio = streamAudio(cleanedFinal, voiceId);
-        await currentAudio.play();
-
-        spokenText += (spokenText ? " " : "") + cleanedFinal;
+        console.log("[StreamCoordinator] Queueing final chunk:", cleanedFinal);
+        const sentenceCitations = attributeSentence(cleanedFinal, ragChunks);
+        citations = mergeCitations(citations, sentenceCitations);
+        queueSentence(cleanedFinal, sentenceCitations);
       }
     }
 
+    // 5. Wait for the queued sentences to finish playing
+    await Promise.all(playing);
+    if (signal?.aborted) throw new Error('Aborted');
+
     return {
       spokenText,
       completed: true,
+      citations,
     };
 
   } catch (error) {
     // If interrupted or error occurs, stop current audio
-    currentAudio?.stop();
+    stopAudio();
 
     // Don't log aborts as errors
-    if ((error as Error).message === 'Aborted' || signal?.aborted) {
+    const aborted = (error as Error).message === 'Aborted' || signal?.aborted;
+    if (aborted) {
       console.log("[StreamCoordinator] Chain aborted by user");
     } else {
       console.log("[StreamCoordinator] Chain interrupted/errored", {
@@ -225,10 +357,243 @@ export async function startSpeakingChain(
     return {
       spokenText,
       completed: false,
+      citations,
+      error: aborted ? undefined : error,
+    };
+  } finally {
+    // Ends the request if we stopped early and frees an unused preloaded sentence
+    turn.cancel();
+  }
+}
+
+// Longest speaker label held back at the start of a sentence ("Host 1:", "Emma Stone:")
+const MAX_LABEL_WORDS = 3;
+
+/**
+ * Passes streamed text straight on, holding back only the start of each
+ * sentence until it is clear it isn't a speaker label to drop (the token-level
+ * counterpart of cleanTextForTTS).
+ */
+function createLabelFilter(emit: (text: string) => void) {
+  let held = '';
+  let atSentenceStart = true;
+
+  const release = (text: string) => {
+    // Whatever follows the last sentence ending starts a new sentence
+    const lastEnding = Math.max(text.lastIndexOf('.'), text.lastIndexOf('!'), text.lastIndexOf('?'));
+    if (lastEnding < 0) {
+      if (text) emit(text);
+      return;
+    }
+    emit(text.slice(0, lastEnding + 1));
+    atSentenceStart = true;
+    push(text.slice(lastEnding + 1));
+  };
+
+  const push = (text: string) => {
+    if (!atSentenceStart) {
+      release(text);
+      return;
+    }
+
+    held += text;
+    const label = held.match(/^(\s*)[A-Za-z0-9][A-Za-z0-9 ]*:\s*/);
+    const notALabel = /^\s*[A-Za-z0-9 ]*[^A-Za-z0-9\s:]/.test(held)
+      || held.trim().split(/\s+/).length > MAX_LABEL_WORDS;
+
+    if (label || notALabel) {
+      const rest = label ? label[1] + held.slice(label[0].length) : held;
+      held = '';
+      atSentenceStart = false;
+      release(rest);
+    }
+  };
+
+  return {
+    push,
+    /** Lets out whatever is still held back */
+    end() {
+      if (held) emit(held);
+      held = '';
+    },
+  };
+}
+
+interface SocketSentence {
+  /** Index of its first / last non-space character in the turn */
+  firstChar: number;
+  lastChar: number | null;
+  raw: string;
+  /** Set once the sentence is complete */
+  text: string | null;
+  citations: Citation[];
+  /** Context times its audio starts / ends at, from the alignment data */
+  startTime: number | null;
+  endTime: number | null;
+  shown: boolean;
+}
+
+/**
+ * Websocket transport for startSpeakingChain: tokens are streamed to one
+ * ElevenLabs socket and its audio is queued on the playback engine as it
+ * arrives. Sentences are still found in the text - for the transcript and
+ * citations - and shown when the alignment data says their first character
+ * is spoken.
+ */
+async function speakOverSocket(
+  turn: PrefetchedTurn,
+  voiceId: string,
+  onSentenceStart: ((sentence: string, citations: Citation[]) => void) | undefined,
+  signal: AbortSignal | undefined,
+  ragChunks: RagChunk[]
+): Promise<SpeakingChainResult> {
+  const engine = getPlaybackEngine();
+  const sentences: SocketSentence[] = [];
+  const clips: ScheduledClip[] = [];
+  let current: SocketSentence | null = null;
+  let sentChars = 0;
+  let heardChars = 0;
+  let citations: Citation[] = [];
+  let socket: SpeechSocket | null = null;
+
+  const show = (sentence: SocketSentence) => {
+    if (sentence.shown || sentence.text === null || sentence.startTime === null) return;
+    const { text } = sentence;
+    engine.until(sentence.startTime).then(() => {
+      if (sentence.shown || signal?.aborted) return;
+      sentence.shown = true;
+      onSentenceStart?.(text, sentence.citations);
+    });
+  };
+
+  const completeSentence = (sentence: SocketSentence) => {
+    sentence.text = cleanTextForTTS(sentence.raw.trim());
+    sentence.lastChar = sentChars - 1;
+    sentence.citations = attributeSentence(sentence.text, ragChunks);
+    citations = mergeCitations(citations, sentence.citations);
+    show(sentence);
+  };
+
+  // Splits the text sent so far into sentences, counting characters to match the alignment
+  const track = (text: string) => {
+    for (const char of text) {
+      const isSpace = /\s/.test(char);
+      if (!current) {
+        if (isSpace) continue;
+        current = {
+          firstChar: sentChars, lastChar: null, raw: '', text: null, citations: [],
+          startTime: null, endTime: null, shown: false,
+        };
+        sentences.push(current);
+      }
+      current.raw += char;
+      if (!isSpace) sentChars++;
+      if (SENTENCE_ENDINGS.test(char)) {
+        completeSentence(current);
+        current = null;
+      }
+    }
+  };
+
+  const onAudio = ({ samples, sampleRate, alignment }: SpeechChunk) => {
+    if (signal?.aborted) return;
+    const clip = engine.schedule(engine.createBuffer(samples, sampleRate));
+    clips.push(clip);
+    if (!alignment) return;
+
+    alignment.chars.forEach((char, i) => {
+      if (/\s/.test(char)) return;
+      const time = clip.startTime + alignment.charStartTimesMs[i] / 1000;
+      for (const sentence of sentences) {
+        if (sentence.firstChar === heardChars) {
+          sentence.startTime = time;
+          show(sentence);
+        }
+        if (sentence.lastChar === heardChars) {
+          sentence.endTime = time + alignment.charDurationsMs[i] / 1000;
+        }
+      }
+      heardChars++;
+    });
+  };
+
+  const stopAudio = () => {
+    socket?.close();
+    for (const clip of clips) clip.stop();
+  };
+
+  if (signal) {
+    signal.addEventListener('abort', () => {
+      console.log("[StreamCoordinator] Abort signal received");
+      stopAudio();
+      turn.cancel();
+    });
+  }
+
+  try {
+    socket = openSpeechSocket(voiceId, onAudio);
+    const filter = createLabelFilter(text => {
+      const sent = socket!.send(text);
+      if (sent) track(sent);
+    });
+
+    for await (const event of turn.events) {
+      if (signal?.aborted) throw new Error('Aborted');
+      if (event.type === 'error') {
+        throw new Error(event.message);
+      }
+      if (event.type === 'finish') break;
+      filter.push(event.text);
+    }
+
+    // Providers end their stream on abort, which reads like a finished turn
+    if (signal?.aborted) throw new Error('Aborted');
+
+    filter.end();
+    if (current) completeSentence(current);
+    socket.finish();
+
+    await socket.done;
+    await clips[clips.length - 1]?.ended;
+    if (signal?.aborted) throw new Error('Aborted');
+
+    const spoken = sentences.filter(sentence => sentence.text);
+    // Sentences the alignment never reached still belong in the transcript
+    for (const sentence of spoken) {
+      if (!sentence.shown) {
+        sentence.shown = true;
+        onSentenceStart?.(sentence.text!, sentence.citations);
+      }
+    }
+
+    return {
+      spokenText: spoken.map(sentence => sentence.text).join(' '),
+      completed: true,
+      citations,
+    };
+  } catch (error) {
+    stopAudio();
+
+    const aborted = (error as Error).message === 'Aborted' || signal?.aborted;
+    if (aborted) {
+      console.log("[StreamCoordinator] Chain aborted by user");
+    } else {
+      console.log("[StreamCoordinator] Websocket chain errored", error);
+    }
+
+    // Only sentences that finished playing count as spoken
+    const now = engine.currentTime;
+    return {
+      spokenText: sentences
+        .filter(sentence => sentence.text && sentence.endTime !== null && sentence.endTime <= now)
+        .map(sentence => sentence.text)
+        .join(' '),
+      completed: false,
+      citations,
+      error: aborted ? undefined : error,
     };
   } finally {
-    // Clean up the reader
-    reader.releaseLock();
+    turn.cancel();
   }
 }
 
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { HostConfig } from '@/types/podcast';
+import { chooseNextSpeaker, SpokenTurn } from './turnTaking';
+
+function host(name: string, personality?: string, role = 'Co-host'): HostConfig {
+  return { id: name.toLowerCase(), name, voiceId: 'voice', voiceLabel: 'Voice', role, personality };
+}
+
+const HOSTS = [host('Alex', 'enthusiastic'), host('Sam', 'analytical'), host('Jordan', 'supportive')];
+
+// Deterministic 0-1 sequence (mulberry32)
+function seeded(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function turns(...hostIndexes: number[]): SpokenTurn[] {
+  return hostIndexes.map(hostIndex => ({ hostIndex, text: 'Interesting point.' }));
+}
+
+describe('chooseNextSpeaker', () => {
+  it('opens with the segment lead', () => {
+    expect(chooseNextSpeaker(HOSTS, [], { leadHostIndex: 2 })).toEqual({ hostIndex: 2, reason: 'opening', note: '' });
+  });
+
+  it('hands the turn to a host who was asked a question by name, without a back-channel', () => {
+    const history = [...turns(0, 1), { hostIndex: 0, text: 'Jordan, what do you make of that?' }];
+
+    const next = chooseNextSpeaker(HOSTS, history, { random: seeded(1), backchannelChance: 1 });
+
+    expect(next).toMatchObject({ hostIndex: 2, reason: 'addressed' });
+    expect(next.note).toBe('Alex just asked Jordan a question - answer it directly.');
+    expect(next.backchannel).toBeUndefined();
+  });
+
+  it('lets the previous speaker rebut in debate mode', () => {
+    const steady = () => 0.5;
+    const history = turns(0, 2, 0, 1);
+
+    expect(chooseNextSpeaker(HOSTS, history, { random: steady }).hostIndex).toBe(2);
+    expect(chooseNextSpeaker(HOSTS, history, { random: steady, debateIntensity: true })).toMatchObject({
+      hostIndex: 0,
+      reason: 'rebuttal',
+      note: 'Push back on what Sam just said.',
+    });
+  });
+
+  it('never repeats a speaker and keeps airtime even over a long conversation', () => {
+    const random = seeded(42);
+    const history: SpokenTurn[] = [];
+
+    for (let i = 0; i < 30; i++) {
+      const { hostIndex } = chooseNextSpeaker(HOSTS, history, { random });
+      if (history.length > 0) expect(hostIndex).not.toBe(history[history.length - 1].hostIndex);
+      history.push({ hostIndex, text: 'Interesting point.' });
+    }
+
+    HOSTS.forEach((_, hostIndex) => {
+      expect(history.filter(turn => turn.hostIndex === hostIndex).length).toBeGreaterThanOrEqual(8);
+    });
+  });
+
+  it('gives the back-channel to the host who is neither speaking nor next, in their own voice', () => {
+    const hosts = [host('Alex'), host('Sam', 'skeptical'), host('Jordan')];
+    const options = { random: () => 0, backchannelChance: 1, leadHostIndex: 2 };
+
+    expect(chooseNextSpeaker(hosts, turns(0), options)).toMatchObject({
+      hostIndex: 2,
+      backchannel: { hostIndex: 1, text: 'Hmm.' },
+    });
+    expect(chooseNextSpeaker(hosts, turns(0), { ...options, backchannelChance: 0 }).backchannel)
+      .toBeUndefined();
+  });
+});
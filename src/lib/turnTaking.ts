@@ -0,0 +1,172 @@
+/**
+ * Turn-Taking Policy
+ *
+ * Picks who speaks next from the conversation itself rather than a fixed
+ * rotation: a host who was just asked something answers, hosts who have been
+ * quiet are brought back in, the moderator steps in now and then, and with
+ * debate intensity on the conversation ping-pongs between the people
+ * disagreeing. Hosts who don't take the turn may add a short back-channel
+ * ("Right.", "Exactly.") before the next speaker starts.
+ */
+
+import { HostConfig } from '@/types/podcast';
+
+export interface SpokenTurn {
+  hostIndex: number;
+  text: string;
+}
+
+export interface TurnTakingOptions {
+  /** Heated mode: favour rebuttals and the skeptics */
+  debateIntensity?: boolean;
+  /** Host leading the current outline segment */
+  leadHostIndex?: number;
+  /** Chance of a back-channel before the next turn (0-1) */
+  backchannelChance?: number;
+  /** Injectable for deterministic tests */
+  random?: () => number;
+}
+
+export type TurnReason = 'opening' | 'addressed' | 'rebuttal' | 'moderator' | 'lead' | 'quiet' | 'rotation';
+
+export interface Backchannel {
+  hostIndex: number;
+  text: string;
+}
+
+export interface NextSpeaker {
+  hostIndex: number;
+  reason: TurnReason;
+  /** Note for the turn instructions on why this host is speaking */
+  note: string;
+  backchannel?: Backchannel;
+}
+
+const DEFAULT_BACKCHANNEL_CHANCE = 0.25;
+
+// How far back "recently spoke" looks
+const RECENCY_WINDOW = 4;
+
+const BACKCHANNELS: Record<string, string[]> = {
+  enthusiastic: ['Oh, totally!', 'Yes, exactly!', 'Love that.'],
+  skeptical: ['Hmm.', 'Maybe...', 'Okay, sure.'],
+  analytical: ['Right.', "That's fair.", 'Mm-hm.'],
+  supportive: ['Exactly.', 'Yeah, absolutely.', 'So true.'],
+  humorous: ['Ha, right.', 'Classic.', 'Oh, for sure.'],
+  serious: ['Right.', 'Indeed.', 'Mm-hm.'],
+  default: ['Right.', 'Exactly.', 'Mm-hm.', 'Yeah.'],
+};
+
+const HEATED_BACKCHANNELS = ['Well...', 'Hmm, not quite.', "I don't know about that."];
+
+function mentions(text: string, name: string): boolean {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}\\b`, 'i').test(text);
+}
+
+function isModerator(host: HostConfig): boolean {
+  return /moderator/i.test(host.role);
+}
+
+function isSkeptic(host: HostConfig): boolean {
+  return host.personality === 'skeptical' || /devil'?s advocate/i.test(host.role);
+}
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length) % items.length];
+}
+
+/**
+ * Chooses the next speaker (and an optional back-channel) given the
+ * turns spoken so far.
+ */
+export function chooseNextSpeaker(
+  hosts: HostConfig[],
+  history: SpokenTurn[],
+  options: TurnTakingOptions = {}
+): NextSpeaker {
+  const random = options.random || Math.random;
+  const hostTurns = history.filter(turn => turn.hostIndex >= 0 && turn.hostIndex < hosts.length);
+  const last = hostTurns[hostTurns.length - 1];
+
+  if (!last || hosts.length === 1) {
+    const hostIndex = options.leadHostIndex ?? 0;
+    return { hostIndex, reason: 'opening', note: '' };
+  }
+
+  const lastHost = hosts[last.hostIndex];
+  const isQuestion = /\?\s*$/.test(last.text.trim());
+  const previousSpeaker = [...hostTurns].reverse().find(turn => turn.hostIndex !== last.hostIndex)?.hostIndex;
+
+  const candidates = hosts
+    .map((host, hostIndex) => {
+      // Jitter keeps three-host conversations from settling into a fixed order
+      let score = random();
+      let reason: TurnReason = 'rotation';
+      let strongest = 0.9;
+      const bump = (amount: number, why: TurnReason) => {
+        score += amount;
+        // The biggest single factor explains the choice
+        if (amount > strongest) {
+          strongest = amount;
+          reason = why;
+        }
+      };
+
+      // Turns since this host last spoke (never spoken counts as the whole window)
+      const lastSpokeAt = hostTurns.map(turn => turn.hostIndex).lastIndexOf(hostIndex);
+      const turnsSince = lastSpokeAt < 0 ? RECENCY_WINDOW : Math.min(hostTurns.length - 1 - lastSpokeAt, RECENCY_WINDOW);
+      bump(turnsSince * 0.5, turnsSince >= 3 ? 'quiet' : 'rotation');
+
+      // Keep airtime roughly even
+      const share = hostTurns.filter(turn => turn.hostIndex === hostIndex).length / hostTurns.length;
+      score -= share * 2;
+
+      if (mentions(last.text, host.name)) bump(isQuestion ? 6 : 3, 'addressed');
+      if (options.leadHostIndex === hostIndex) bump(1, 'lead');
+      if (isModerator(host) && turnsSince >= 2) bump(1.5, 'moderator');
+
+      if (options.debateIntensity) {
+        if (hostIndex === previousSpeaker) bump(2, 'rebuttal');
+        if (isSkeptic(host) && !isSkeptic(lastHost)) bump(1.5, 'rebuttal');
+      }
+
+      return { hostIndex, score, reason };
+    })
+    .filter(candidate => candidate.hostIndex !== last.hostIndex)
+    .sort((a, b) => b.score - a.score);
+
+  const next = candidates[0];
+  const nextHost = hosts[next.hostIndex];
+
+  const notes: Record<TurnReason, string> = {
+    opening: '',
+    addressed: isQuestion
+      ? `${lastHost.name} just asked ${nextHost.name} a question - answer it directly.`
+      : `${lastHost.name} just spoke to ${nextHost.name} - respond to them.`,
+    rebuttal: `Push back on what ${lastHost.name} just said.`,
+    moderator: `${nextHost.name} is moderating - steer the discussion and bring in the others.`,
+    lead: `${nextHost.name} is leading this part of the conversation.`,
+    quiet: `${nextHost.name} hasn't spoken in a while - bring in their perspective.`,
+    rotation: `Respond to ${lastHost.name}.`,
+  };
+
+  // Back-channel from someone who is neither finishing nor taking the turn;
+  // questions get answered rather than acknowledged
+  let backchannel: Backchannel | undefined;
+  const listeners = hosts
+    .map((_, hostIndex) => hostIndex)
+    .filter(hostIndex => hostIndex !== last.hostIndex && hostIndex !== next.hostIndex);
+  const chance = options.backchannelChance ?? DEFAULT_BACKCHANNEL_CHANCE;
+
+  if (!isQuestion && listeners.length > 0 && random() < chance) {
+    const hostIndex = pick(listeners, random);
+    const listener = hosts[hostIndex];
+    const phrases = options.debateIntensity && isSkeptic(listener)
+      ? HEATED_BACKCHANNELS
+      : BACKCHANNELS[listener.personality || 'default'] || BACKCHANNELS.default;
+    backchannel = { hostIndex, text: pick(phrases, random) };
+  }
+
+  return { hostIndex: next.hostIndex, reason: next.reason, note: notes[next.reason], backchannel };
+}
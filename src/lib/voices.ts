@@ -0,0 +1,46 @@
+/**
+ * Voices
+ *
+ * The app's entry point to the shared voice registry, which lives with the
+ * edge functions so elevenlabs-tts resolves voices exactly as the client does.
+ */
+
+import type { HostConfig } from '@/types/podcast';
+import { DEFAULT_VOICE_ID, getVoice } from '../../supabase/functions/_shared/voices.ts';
+
+export {
+  VOICES,
+  DEFAULT_VOICE_ID,
+  getVoice,
+  resolveVoiceId,
+} from '../../supabase/functions/_shared/voices.ts';
+export type {
+  VoiceDefinition,
+  VoiceGender,
+  VoiceAccent,
+} from '../../supabase/functions/_shared/voices.ts';
+
+/** One-line summary for voice pickers, e.g. "British · Precise, authoritative broadcaster" */
+export function describeVoice(voiceId: string): string {
+  const voice = getVoice(voiceId);
+  if (!voice) return '';
+  const accent = voice.accent === 'british' ? 'British' : 'American';
+  return `${accent} · ${voice.description}`;
+}
+
+/** The voice a host speaks with: a library voice picked in the browser, else its preset */
+export function hostVoiceId(host: Pick<HostConfig, 'voiceId' | 'elevenlabs_voice_id'>): string {
+  return host.elevenlabs_voice_id || host.voiceId || DEFAULT_VOICE_ID;
+}
+
+/** The name of a host's voice: the registry's current label for a preset (saved hosts may hold an older one) */
+export function hostVoiceLabel(host: Pick<HostConfig, 'voiceId' | 'voiceLabel' | 'elevenlabs_voice_id'>): string {
+  if (host.elevenlabs_voice_id) return host.voiceLabel;
+  return getVoice(host.voiceId)?.label || host.voiceLabel;
+}
+
+/** The voice picker's summary line for a host */
+export function describeHostVoice(host: Pick<HostConfig, 'voiceId' | 'voiceLabel' | 'elevenlabs_voice_id'>): string {
+  if (host.elevenlabs_voice_id) return `Voice library · ${host.voiceLabel}`;
+  return describeVoice(host.voiceId);
+}
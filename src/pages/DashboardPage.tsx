@@ -14,7 +14,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Plus, LogOut, ChevronRight, Mic, Trash2 } from 'lucide-react';
+import { Plus, LogOut, ChevronRight, Mic, Trash2, Play } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import { Json } from '@/integrations/supabase/types';
@@ -178,6 +178,20 @@ export default function DashboardPage() {
                   </p>
                 </button>
                 <div className="flex items-center gap-2">
+                  {session.transcript.length > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        navigate(`/podcasts/${session.id}/play`);
+                      }}
+                      className="rounded-full"
+                    >
+                      <Play className="w-3 h-3 mr-1.5" />
+                      Continue
+                    </Button>
+                  )}
                   <Button
                     variant="ghost"
                     size="icon"
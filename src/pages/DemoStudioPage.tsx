@@ -5,6 +5,7 @@ import { Header } from '@/components/Header';
 import { StudioHostPanel } from '@/components/studio/StudioHostPanel';
 import { StudioTopicInput } from '@/components/studio/StudioTopicInput';
 import { StudioGenerateButton } from '@/components/studio/StudioGenerateButton';
+import { StudioSettingsPanel } from '@/components/studio/StudioSettingsPanel';
 import { PodcastSidebar, SidebarToggleButton } from '@/components/studio/PodcastSidebar';
 import { OutputCard } from '@/components/OutputCard';
 import { RealTimePlaybackView } from '@/components/RealTimePlaybackView';
@@ -46,6 +47,8 @@ export default function DemoStudioPage() {
     ragFiles,
     currentPodcast,
     generationStep,
+    ingestionStatus,
+    outline,
     prompt,
     isPlaybackMode,
     isViralClipsMode,
@@ -55,6 +58,9 @@ export default function DemoStudioPage() {
     addRagFile,
     removeRagFile,
     generate,
+    setOutline,
+    goLive,
+    resetGeneration,
     exitPlaybackMode,
     enterViralClipsMode,
     exitViralClipsMode,
@@ -70,8 +76,8 @@ export default function DemoStudioPage() {
       // Clear the URL param
       searchParams.delete('autostart');
       setSearchParams(searchParams, { replace: true });
-      // Trigger generation
-      generate();
+      // Trigger generation - the setup flow goes live without reviewing the outline
+      generate({ reviewOutline: false });
     }
   }, [searchParams, setSearchParams, prompt, generationStep, generate]);
 
@@ -162,8 +168,14 @@ export default function DemoStudioPage() {
       <RealTimePlaybackView
         hosts={hosts}
         topic={prompt}
-        podcastId="demo"
+        podcastId={currentPodcast.id}
         ragFiles={ragFiles}
+        outline={currentPodcast.outline}
+        length={settings.length}
+        debateIntensity={settings.tone === 'hardcore'}
+        dialogueProvider={settings.dialogueProvider}
+        ttsMode={settings.ttsMode}
+        autoCorrectContradictions={settings.autoCorrectContradictions}
         preGeneratedTranscript={preGeneratedTranscript}
         onClose={() => {
           exitPlaybackMode();
@@ -179,8 +191,10 @@ export default function DemoStudioPage() {
   // Show full-screen generating view when coming from setup flow
   if (isFromSetupFlow && isGenerating) {
     const stepMessages: Record<string, string> = {
-      ingesting: 'Analyzing your documents...',
-      extracting: 'Extracting key insights...',
+      ingesting: `Analyzing your documents (${ingestionStatus.filter(d => d.status !== 'pending' && d.status !== 'indexing').length}/${ingestionStatus.length})...`,
+      extracting: ingestionStatus.some(d => d.concepts.length > 0)
+        ? `Found ${ingestionStatus.reduce((sum, d) => sum + d.concepts.length, 0)} key concepts...`
+        : 'Extracting key insights...',
       outline: 'Building conversation outline...',
       assigning: 'Assigning host perspectives...',
       generating: rotatingMessages[currentMessageIndex],
@@ -363,12 +377,22 @@ export default function DemoStudioPage() {
                 />
               </section>
 
+              {/* Session settings */}
+              <section className="max-w-md mx-auto">
+                <StudioSettingsPanel
+                  settings={settings}
+                  onUpdateSettings={updateSettings}
+                  hasDocuments={ragFiles.length > 0}
+                  disabled={isGenerating}
+                />
+              </section>
+
               {/* Generate button */}
               <section className="max-w-md mx-auto space-y-4">
                 <StudioGenerateButton
                   generationStep={generationStep}
                   disabled={!prompt?.trim()}
-                  onGenerate={generate}
+                  onGenerate={() => generate()}
                 />
 
                 <div className="text-center">
@@ -386,7 +410,7 @@ export default function DemoStudioPage() {
               {/* AI Thinking animations */}
               {(generationStep === 'ingesting' || generationStep === 'extracting') && ragFiles.length > 0 && (
                 <DocumentIngestionPreview
-                  documents={ragFiles.map(f => ({ name: f.name, content: f.rawTextMock }))}
+                  documents={ingestionStatus}
                   isActive={generationStep === 'ingesting' || generationStep === 'extracting'}
                 />
               )}
@@ -395,7 +419,10 @@ export default function DemoStudioPage() {
                 <BuildingOutlineCard
                   hosts={hosts}
                   isActive={generationStep === 'assigning' || generationStep === 'outline'}
-                  topic={prompt}
+                  outline={outline}
+                  onChange={setOutline}
+                  onGoLive={goLive}
+                  onCancel={resetGeneration}
                 />
               )}
 
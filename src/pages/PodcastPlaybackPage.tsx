@@ -3,6 +3,7 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { RealTimePlaybackView } from '@/components/RealTimePlaybackView';
 import { useToast } from '@/hooks/use-toast';
+import { getSavedOutline, getSavedSeats, getSessionRagFiles } from '@/lib/podcastSessions';
 
 export default function PodcastPlaybackPage() {
     const { id } = useParams<{ id: string }>();
@@ -13,7 +14,7 @@ export default function PodcastPlaybackPage() {
 
     useEffect(() => {
         if (!id) {
-            navigate('/podcasts');
+            navigate('/dashboard');
             return;
         }
         loadPodcast();
@@ -43,7 +44,7 @@ export default function PodcastPlaybackPage() {
                     description: 'Podcast not found',
                     variant: 'destructive'
                 });
-                navigate('/podcasts');
+                navigate('/dashboard');
                 return;
             }
 
@@ -55,7 +56,7 @@ export default function PodcastPlaybackPage() {
                 description: 'Failed to load podcast',
                 variant: 'destructive'
             });
-            navigate('/podcasts');
+            navigate('/dashboard');
         } finally {
             setLoading(false);
         }
@@ -81,9 +82,16 @@ export default function PodcastPlaybackPage() {
             hosts={podcast.hosts || []}
             topic={podcast.prompt}
             podcastId={podcast.id}
-            savedTranscript={podcast.transcript}
-            ragFiles={podcast.documents || []}
-            onClose={() => navigate('/podcasts')}
+            savedTranscript={podcast.transcript || []}
+            savedSeats={getSavedSeats(podcast, podcast.hosts || [])}
+            outline={getSavedOutline(podcast)}
+            length={podcast.settings?.length}
+            debateIntensity={podcast.settings?.tone === 'hardcore'}
+            dialogueProvider={podcast.settings?.dialogueProvider}
+            ttsMode={podcast.settings?.ttsMode}
+            autoCorrectContradictions={podcast.settings?.autoCorrectContradictions}
+            ragFiles={getSessionRagFiles(podcast)}
+            onClose={() => navigate('/dashboard')}
         />
     );
 }
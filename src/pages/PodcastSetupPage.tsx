@@ -11,6 +11,8 @@ import { useAuthContext } from '@/contexts/AuthContext';
 import omnicastLogo from '@/assets/omnicast-icon.png';
 import { motion, AnimatePresence } from 'framer-motion';
 import { LottieAvatar } from '@/components/LottieAvatar';
+import { DOCUMENT_ACCEPT } from '@/lib/documentParser';
+import { hostVoiceLabel } from '@/lib/voices';
 type SetupStep = 'documents' | 'topic' | 'customize' | 'summary';
 const STEPS: {
   id: SetupStep;
@@ -37,7 +39,7 @@ const DEFAULT_HOSTS: HostConfig[] = [{
   id: 'host-1',
   name: 'Alex',
   voiceId: 'male-calm',
-  voiceLabel: 'Male - Calm',
+  voiceLabel: 'Male - Calm (British)',
   role: 'Curious Learner',
   avatarUrl: AVATAR_PRESETS_BY_CATEGORY.professional[0].url,
   personality: 'enthusiastic'
@@ -135,7 +137,7 @@ export default function PodcastSetupPage() {
         id: `host-${newIndex + 1}`,
         name: hostName,
         voiceId: newIndex % 2 === 0 ? 'male-calm' : 'female-warm',
-        voiceLabel: newIndex % 2 === 0 ? 'Male - Calm' : 'Female - Warm',
+        voiceLabel: newIndex % 2 === 0 ? 'Male - Calm (British)' : 'Female - Warm',
         role: 'Curious Learner',
         avatarUrl: AVATAR_PRESETS_BY_CATEGORY[avatarCategory][newIndex % 5].url,
         personality: 'enthusiastic'
@@ -241,7 +243,7 @@ export default function PodcastSetupPage() {
             e.currentTarget.style.borderColor = 'rgba(235, 118, 31, 0.5)';
             e.currentTarget.style.backgroundColor = 'rgba(235, 118, 31, 0.05)';
           }}>
-                  <input type="file" multiple accept=".pdf,.txt,.md,.docx" onChange={handleFileUpload} className="hidden" />
+                  <input type="file" multiple accept={DOCUMENT_ACCEPT} onChange={handleFileUpload} className="hidden" />
                   <div className="flex flex-col items-center gap-3">
                     <div className="w-12 h-12 rounded-full flex items-center justify-center" style={{
               backgroundColor: 'rgba(235, 118, 31, 0.1)'
@@ -252,7 +254,7 @@ export default function PodcastSetupPage() {
                     </div>
                     <div>
                       <p className="font-medium">Drop files here or click to upload</p>
-                      <p className="text-sm text-muted-foreground mt-1">PDF, TXT, MD, DOCX</p>
+                      <p className="text-sm text-muted-foreground mt-1">PDF, DOCX, PPTX, TXT, MD</p>
                     </div>
                   </div>
                 </label>
@@ -380,7 +382,8 @@ export default function PodcastSetupPage() {
                     const voice = VOICE_OPTIONS.find(v => v.id === value);
                     updateHostField(index, {
                       voiceId: value,
-                      voiceLabel: voice?.label || value
+                      voiceLabel: voice?.label || value,
+                      elevenlabs_voice_id: undefined
                     });
                   }}>
                               <SelectTrigger className="bg-muted/30 border-border/50 rounded-xl h-10">
@@ -437,7 +440,7 @@ export default function PodcastSetupPage() {
                             <div className="w-1.5 h-1.5 rounded-full" style={{
                     backgroundColor: 'rgba(235, 118, 31, 0.5)'
                   }} />
-                            <span className="text-xs text-muted-foreground/70">{host.voiceLabel}</span>
+                            <span className="text-xs text-muted-foreground/70">{hostVoiceLabel(host)}</span>
                             <span className="text-xs text-muted-foreground/50 mx-1">•</span>
                             <span className="text-xs text-muted-foreground/70 capitalize">{host.personality}</span>
                           </div>
@@ -1,3 +1,7 @@
+import type { DialogueProviderId } from '@/lib/dialogue/types';
+import type { TtsMode } from '@/lib/speechSocket';
+import { VOICES } from '@/lib/voices';
+
 export interface HostConfig {
   id: string;
   name: string;
@@ -26,6 +30,16 @@ export interface PodcastSettings {
   includeExamples: boolean;
   askQuestions: boolean;
   useRag: boolean;
+  dialogueProvider?: DialogueProviderId; // Backend writing the hosts' lines (see lib/dialogue)
+  ttsMode?: TtsMode; // Per-sentence TTS requests or the ElevenLabs websocket (see lib/speechSocket)
+  autoCorrectContradictions?: boolean; // Hosts correct lines that contradict the documents (live sessions)
+}
+
+// A located slice of an uploaded document (PDF page, PPTX slide, or whole body)
+export interface DocumentSection {
+  kind: 'page' | 'slide' | 'body';
+  index: number; // 1-based page/slide number
+  text: string;
 }
 
 export interface RagFile {
@@ -33,7 +47,8 @@ export interface RagFile {
   name: string;
   size: number;
   uploadedAt: Date;
-  rawTextMock: string;
+  text: string; // Full extracted text
+  sections: DocumentSection[];
 }
 
 export interface RagChunk {
@@ -41,7 +56,34 @@ export interface RagChunk {
   fileId: string;
   fileName: string;
   text: string;
-  relevanceScore: number;
+  relevanceScore: number; // 0-1
+  sectionKind?: DocumentSection['kind'];
+  page?: number; // PDF page or PPTX slide number
+}
+
+// Reference from spoken text back to the document chunk it came from
+export interface Citation {
+  chunkId: string;
+  fileId: string;
+  fileName: string;
+  sectionKind?: DocumentSection['kind'];
+  page?: number; // PDF page or PPTX slide number
+  excerpt: string; // Short preview of the cited chunk
+}
+
+// Result of checking one claim in a turn against the source documents
+export interface ClaimCheck {
+  claim: string;
+  status: 'supported' | 'unsupported' | 'contradicted';
+  confidence: number; // 0-1 term overlap with the best source sentence
+  reason?: string;
+  citation?: Citation; // Closest source, when one was found
+}
+
+export interface GroundingReport {
+  status: 'grounded' | 'partial' | 'ungrounded' | 'contradicted' | 'skipped';
+  claims: ClaimCheck[];
+  flagged: ClaimCheck[]; // Claims that are not supported
 }
 
 export interface TranscriptTurn {
@@ -50,6 +92,26 @@ export interface TranscriptTurn {
   speakerName: string;
   text: string;
   timestamp: number;
+  citations?: Citation[];
+  grounding?: GroundingReport;
+}
+
+// One block of the episode plan the live conversation follows
+export interface OutlineSegment {
+  id: string;
+  kind: 'intro' | 'topic' | 'recap' | 'outro';
+  title: string;
+  goal: string;
+  talkingPoints: string[];
+  leadHostId: string;
+  durationSeconds: number; // Time budget for the segment
+  turns: number; // Turn budget derived from durationSeconds
+}
+
+export interface EpisodeOutline {
+  topic: string;
+  length: PodcastSettings['length'];
+  segments: OutlineSegment[];
 }
 
 export interface GeneratedPodcast {
@@ -58,9 +120,20 @@ export interface GeneratedPodcast {
   prompt: string;
   transcript: TranscriptTurn[];
   ragChunks: RagChunk[];
+  outline?: EpisodeOutline;
   createdAt: Date;
 }
 
+// Per-document progress of the analysis that runs before going live
+export interface DocumentIngestionStatus {
+  fileId: string;
+  fileName: string;
+  status: 'pending' | 'indexing' | 'extracting' | 'done' | 'error';
+  chunks: number;
+  concepts: string[];
+  error?: string; // Why the document couldn't be indexed
+}
+
 export type GenerationStep = 'idle' | 'ingesting' | 'extracting' | 'assigning' | 'outline' | 'generating' | 'finalizing' | 'complete';
 
 // Connection state for real-time sessions (replaces GenerationStep for live podcasts)
@@ -79,16 +152,8 @@ export interface ViralClip {
   duration: number; // seconds
 }
 
-export const VOICE_OPTIONS = [
-  { id: 'male-deep', label: 'Male - Deep', gender: 'male' },
-  { id: 'male-calm', label: 'Male - Calm', gender: 'male' },
-  { id: 'male-energetic', label: 'Male - Energetic', gender: 'male' },
-  { id: 'female-warm', label: 'Female - Warm', gender: 'female' },
-  { id: 'female-energetic', label: 'Female - Energetic', gender: 'female' },
-  { id: 'female-professional', label: 'Female - Professional', gender: 'female' },
-  { id: 'british-crisp', label: 'British - Crisp', gender: 'neutral' },
-  { id: 'british-warm', label: 'British - Warm', gender: 'neutral' },
-] as const;
+// The voice pickers' options; the full catalogue is in lib/voices
+export const VOICE_OPTIONS = VOICES.map(({ id, label, gender }) => ({ id, label, gender }));
 
 export const ROLE_OPTIONS = [
   { value: 'Backend Developer', label: 'Backend Developer' },
@@ -120,9 +185,9 @@ export const PERSONALITY_OPTIONS = [
 ] as const;
 
 export const LENGTH_OPTIONS = [
-  { value: 'short', label: 'Short (2 min)', turns: 10 },
-  { value: 'medium', label: 'Medium (5 min)', turns: 20 },
-  { value: 'long', label: 'Long (10 min)', turns: 30 },
+  { value: 'short', label: 'Short (2 min)', turns: 10, seconds: 120 },
+  { value: 'medium', label: 'Medium (5 min)', turns: 20, seconds: 300 },
+  { value: 'long', label: 'Long (10 min)', turns: 30, seconds: 600 },
 ] as const;
 
 export const TONE_OPTIONS = [
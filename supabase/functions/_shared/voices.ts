@@ -0,0 +1,175 @@
+/**
+ * Voice Registry
+ *
+ * The podcast voices a host can pick and the ElevenLabs voice behind each one.
+ * Used by the app (through src/lib/voices.ts) and by the elevenlabs-tts
+ * function, so a host sounds the same in real-time and pre-generated playback.
+ * Hosts store these IDs, so an ID keeps its voice - new voices get new IDs,
+ * and an ID whose label no longer fits its voice is relabelled, not renamed.
+ * Has no imports so it loads under both Vite and Deno.
+ */
+
+export type VoiceGender = 'male' | 'female';
+export type VoiceAccent = 'american' | 'british';
+
+export interface VoiceDefinition {
+  /** Internal ID stored on hosts (HostConfig.voiceId) */
+  id: string;
+  label: string;
+  /** ElevenLabs voice this one speaks with */
+  elevenLabsId: string;
+  /** ElevenLabs' name for that voice */
+  elevenLabsName: string;
+  gender: VoiceGender;
+  accent: VoiceAccent;
+  style: string;
+  description: string;
+  /** Line spoken when previewing the voice */
+  previewText: string;
+}
+
+export const VOICES: VoiceDefinition[] = [
+  {
+    id: 'male-deep',
+    label: 'Male - Deep',
+    elevenLabsId: 'nPczCjzI2devNBz1zQrb',
+    elevenLabsName: 'Brian',
+    gender: 'male',
+    accent: 'american',
+    style: 'deep',
+    description: 'Deep, resonant and steady',
+    previewText: "Welcome back to the show. Today we're going deep on something that trips up a lot of people.",
+  },
+  {
+    id: 'male-calm',
+    label: 'Male - Calm (British)',
+    elevenLabsId: 'onwK4e9ZLuTAKqWW03F9',
+    elevenLabsName: 'Daniel',
+    gender: 'male',
+    accent: 'british',
+    style: 'calm',
+    description: 'Measured, authoritative newsreader',
+    previewText: "Let's slow down for a second and walk through this one step at a time.",
+  },
+  {
+    id: 'male-energetic',
+    label: 'Male - Energetic',
+    elevenLabsId: 'ErXwobaYiN019PkySvjV',
+    elevenLabsName: 'Antoni',
+    gender: 'male',
+    accent: 'american',
+    style: 'energetic',
+    description: 'Young, friendly and well-rounded',
+    previewText: "Okay, this is the part I've been waiting for all episode - let's get into it!",
+  },
+  {
+    id: 'male-smooth',
+    label: 'Male - Smooth',
+    elevenLabsId: 'cjVigY5qzO86Huf0OWal',
+    elevenLabsName: 'Eric',
+    gender: 'male',
+    accent: 'american',
+    style: 'calm',
+    description: 'Smooth, relaxed and reassuring',
+    previewText: "No rush here. Let's take the long way round and see where it leads.",
+  },
+  {
+    id: 'male-upbeat',
+    label: 'Male - Upbeat',
+    elevenLabsId: 'TX3LPaxmHKxFdv7VOQHJ',
+    elevenLabsName: 'Liam',
+    gender: 'male',
+    accent: 'american',
+    style: 'energetic',
+    description: 'Young, upbeat and quick',
+    previewText: "Quick one before we move on - you are going to love this.",
+  },
+  {
+    id: 'female-warm',
+    label: 'Female - Warm',
+    elevenLabsId: 'EXAVITQu4vr4xnSDxMaL',
+    elevenLabsName: 'Sarah',
+    gender: 'female',
+    accent: 'american',
+    style: 'warm',
+    description: 'Soft, warm and friendly',
+    previewText: "I love this question, because almost everyone gets stuck on it at some point.",
+  },
+  {
+    id: 'female-energetic',
+    label: 'Female - Energetic',
+    elevenLabsId: 'cgSgspJ2msm6clMCkdW9',
+    elevenLabsName: 'Jessica',
+    gender: 'female',
+    accent: 'american',
+    style: 'energetic',
+    description: 'Bright, expressive and playful',
+    previewText: "Wait, wait, wait - you're telling me it works like that? That's amazing!",
+  },
+  {
+    id: 'female-professional',
+    label: 'Female - Animated',
+    elevenLabsId: 'jBpfuIE2acCO8z3wKNLl',
+    elevenLabsName: 'Gigi',
+    gender: 'female',
+    accent: 'american',
+    style: 'animated',
+    description: 'Young, animated and lively',
+    previewText: "Here are the three things you need to know before your next exam.",
+  },
+  {
+    id: 'female-confident',
+    label: 'Female - Confident',
+    elevenLabsId: 'XrExE9yKIg1WjnnlVkGX',
+    elevenLabsName: 'Matilda',
+    gender: 'female',
+    accent: 'american',
+    style: 'professional',
+    description: 'Clear, confident and knowledgeable',
+    previewText: "Let me put this plainly: the data tells a very different story.",
+  },
+  {
+    id: 'british-crisp',
+    label: 'Male - Crisp (British)',
+    elevenLabsId: 'JBFqnCBsd6RMkjVDRZzb',
+    elevenLabsName: 'George',
+    gender: 'male',
+    accent: 'british',
+    style: 'crisp',
+    description: 'Warm, articulate storyteller',
+    previewText: "Good evening. Tonight, we examine an idea that quietly changed everything.",
+  },
+  {
+    id: 'british-warm',
+    label: 'Male - Soft',
+    elevenLabsId: 'g5CIjZEefAph4nQFvHAz',
+    elevenLabsName: 'Ethan',
+    gender: 'male',
+    accent: 'american',
+    style: 'soft',
+    description: 'Soft, hushed and close to the mic',
+    previewText: "Pull up a chair - this one is a bit of a story, and it's worth hearing properly.",
+  },
+];
+
+/** Used for hosts whose voice isn't in the registry */
+export const DEFAULT_VOICE_ID = 'male-calm';
+
+export function getVoice(voiceId: string): VoiceDefinition | undefined {
+  return VOICES.find(voice => voice.id === voiceId);
+}
+
+// ElevenLabs voice IDs are 20 alphanumeric characters; internal IDs have dashes
+const ELEVENLABS_ID_PATTERN = /^[A-Za-z0-9]{20,}$/;
+
+/**
+ * Resolves an internal voice ID to its ElevenLabs voice ID. ElevenLabs IDs
+ * (e.g. library voices) are used as they are; unknown IDs fall back to the
+ * default voice.
+ */
+export function resolveVoiceId(voiceId: string): string {
+  const voice = getVoice(voiceId);
+  if (voice) return voice.elevenLabsId;
+  if (ELEVENLABS_ID_PATTERN.test(voiceId)) return voiceId;
+  return getVoice(DEFAULT_VOICE_ID)!.elevenLabsId;
+}
@@ -1,11 +1,175 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+/**
+ * Forwards Backboard API calls with the server-side API key.
+ *
+ * Requests come either as JSON ({ endpoint, method, body }) or, for
+ * /messages, as multipart form data with `endpoint` and `method` fields next
+ * to the message fields. Streaming responses (text/event-stream) are passed
+ * through unbuffered so turns can be spoken sentence by sentence.
+ *
+ * Only signed-in users get through, and only to the calls Omnicast makes:
+ * creating assistants, creating threads on their own assistants and posting
+ * messages to their own threads. Ownership is recorded in backboard_resources
+ * as resources are created; thread IDs saved on podcast_sessions are written
+ * by the client and don't count. Usage is logged to backboard_usage and
+ * capped per user per minute (requests) and per day (tokens).
+ */
+
+// Comma-separated list of allowed origins; unset allows any origin (local development)
+const ALLOWED_ORIGINS = (Deno.env.get('ALLOWED_ORIGINS') || '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+const REQUESTS_PER_MINUTE = Number(Deno.env.get('BACKBOARD_REQUESTS_PER_MINUTE')) || 30;
+const TOKENS_PER_DAY = Number(Deno.env.get('BACKBOARD_TOKENS_PER_DAY')) || 200000;
+
+// Rough token estimate, good enough for quotas
+const CHARS_PER_TOKEN = 4;
+
+type RouteKind = 'create-assistant' | 'create-thread' | 'post-message';
+
+interface Route {
+  kind: RouteKind;
+  method: string;
+  pattern: RegExp;
+}
+
+// The Backboard calls Omnicast makes (see src/lib/backboard.ts)
+const ROUTES: Route[] = [
+  { kind: 'create-assistant', method: 'POST', pattern: /^\/assistants$/ },
+  { kind: 'create-thread', method: 'POST', pattern: /^\/assistants\/([\w-]+)\/threads$/ },
+  { kind: 'post-message', method: 'POST', pattern: /^\/threads\/([\w-]+)\/messages$/ },
+];
+
+function buildCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get('Origin') || '';
+  const allowOrigin = ALLOWED_ORIGINS.length === 0
+    ? '*'
+    : ALLOWED_ORIGINS.includes(origin) ? origin : ALLOWED_ORIGINS[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Vary': 'Origin',
+  };
+}
+
+function matchRoute(endpoint: string, method: string): { route: Route; resourceId?: string } | null {
+  for (const route of ROUTES) {
+    const match = endpoint.match(route.pattern);
+    if (match && route.method === method) {
+      return { route, resourceId: match[1] };
+    }
+  }
+  return null;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Text the model reads (message content) or writes (from an event stream or JSON reply)
+function extractStreamedText(raw: string): string {
+  let text = '';
+  for (const line of raw.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) continue;
+    try {
+      const data = JSON.parse(trimmed.slice(5).trim());
+      if (data.role === 'user' || data.type === 'user_message') continue;
+      text += data.delta?.content || data.content || data.text || '';
+    } catch {
+      // [DONE] and keep-alives
+    }
+  }
+  return text;
+}
+
+async function ownsResource(
+  admin: SupabaseClient,
+  userId: string,
+  id: string,
+  kind: 'assistant' | 'thread'
+): Promise<boolean> {
+  const { data: resource, error } = await admin
+    .from('backboard_resources')
+    .select('id')
+    .eq('id', id)
+    .eq('kind', kind)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return !!resource;
+}
+
+/** Seconds until the caller may retry, or null when within quota */
+async function checkQuota(admin: SupabaseClient, userId: string): Promise<{ retryAfter: number; reason: string } | null> {
+  const now = Date.now();
+  const minuteAgo = new Date(now - 60 * 1000).toISOString();
+  const dayAgo = new Date(now - 24 * 60 * 60 * 1000).toISOString();
+
+  const { count, error: countError } = await admin
+    .from('backboard_usage')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .gte('created_at', minuteAgo);
+  if (countError) throw countError;
+
+  if ((count || 0) >= REQUESTS_PER_MINUTE) {
+    return { retryAfter: 60, reason: `Rate limit exceeded (${REQUESTS_PER_MINUTE} requests per minute). Please try again in a moment.` };
+  }
+
+  const { data: usage, error: usageError } = await admin
+    .from('backboard_usage')
+    .select('tokens, created_at')
+    .eq('user_id', userId)
+    .gte('created_at', dayAgo)
+    .order('created_at', { ascending: true });
+  if (usageError) throw usageError;
+
+  const tokens = (usage || []).reduce((sum: number, row: { tokens: number }) => sum + row.tokens, 0);
+  if (tokens >= TOKENS_PER_DAY) {
+    // Frees up once the oldest usage in the window is a day old
+    const oldest = usage && usage.length > 0 ? new Date(usage[0].created_at).getTime() : now;
+    const retryAfter = Math.max(60, Math.ceil((oldest + 24 * 60 * 60 * 1000 - now) / 1000));
+    return { retryAfter, reason: 'Daily usage limit reached. Please try again later.' };
+  }
+
+  return null;
+}
+
+async function recordUsage(admin: SupabaseClient, userId: string, endpoint: string, tokens: number) {
+  const { error } = await admin
+    .from('backboard_usage')
+    .insert({ user_id: userId, endpoint, tokens });
+  if (error) console.error('[backboard-proxy] Failed to record usage:', error);
+}
+
+async function recordResource(
+  admin: SupabaseClient,
+  userId: string,
+  id: string | undefined,
+  kind: 'assistant' | 'thread',
+  assistantId?: string
+) {
+  if (!id) return;
+  const { error } = await admin
+    .from('backboard_resources')
+    .insert({ id, kind, user_id: userId, assistant_id: assistantId || null });
+  if (error) console.error(`[backboard-proxy] Failed to record ${kind}:`, error);
+}
 
 serve(async (req) => {
+  const corsHeaders = buildCorsHeaders(req);
+  const jsonResponse = (body: unknown, status = 200, extraHeaders: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', ...extraHeaders },
+    });
+
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -15,31 +179,93 @@ serve(async (req) => {
     const apiKey = Deno.env.get("BACKBOARD_API_KEY");
     if (!apiKey) {
       console.error('[backboard-proxy] Missing BACKBOARD_API_KEY secret');
-      return new Response(
-        JSON.stringify({ error: 'Missing API key configuration' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return jsonResponse({ error: 'Missing API key configuration' }, 500);
     }
 
-    const { endpoint, method = 'GET', body } = await req.json();
+    // 1. Caller must be signed in
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    // Ownership and usage tables are only writable with the service role
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    let endpoint: string | undefined;
+    let method = 'GET';
+    let body: unknown;
+    let formBody: FormData | undefined;
+
+    if ((req.headers.get('content-type') || '').includes('multipart/form-data')) {
+      formBody = await req.formData();
+      endpoint = formBody.get('endpoint')?.toString();
+      method = formBody.get('method')?.toString() || 'POST';
+      formBody.delete('endpoint');
+      formBody.delete('method');
+    } else {
+      ({ endpoint, method = 'GET', body } = await req.json());
+    }
 
     if (!endpoint) {
-      return new Response(
-        JSON.stringify({ error: 'Missing endpoint parameter' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      return jsonResponse({ error: 'Missing endpoint parameter' }, 400);
+    }
+
+    // 2. Only the calls Omnicast makes, on the caller's own resources
+    method = method.toUpperCase();
+    const matched = matchRoute(endpoint, method);
+    if (!matched) {
+      console.warn(`[backboard-proxy] Blocked ${method} ${endpoint}`, { userId: user.id });
+      return jsonResponse({ error: 'Endpoint not allowed' }, 403);
+    }
+
+    const { route, resourceId } = matched;
+    if (route.kind === 'create-thread' && !(await ownsResource(admin, user.id, resourceId!, 'assistant'))) {
+      return jsonResponse({ error: 'Assistant not found' }, 404);
+    }
+    if (route.kind === 'post-message' && !(await ownsResource(admin, user.id, resourceId!, 'thread'))) {
+      return jsonResponse({ error: 'Thread not found' }, 404);
+    }
+
+    // 3. Per-user quotas
+    const overQuota = await checkQuota(admin, user.id);
+    if (overQuota) {
+      console.warn('[backboard-proxy] Quota exceeded', { userId: user.id, reason: overQuota.reason });
+      return jsonResponse(
+        { error: overQuota.reason, retryAfter: overQuota.retryAfter },
+        429,
+        { 'Retry-After': String(overQuota.retryAfter) }
       );
     }
 
     const apiUrl = `https://app.backboard.io/api${endpoint}`;
-    console.log(`[backboard-proxy] ${method} ${endpoint}`);
+    console.log(`[backboard-proxy] ${method} ${endpoint}`, { userId: user.id });
 
     let upstreamBody: FormData | string | undefined;
+    let promptText = '';
     const upstreamHeaders: Record<string, string> = {
       "X-API-Key": apiKey,
     };
 
-    // SPECIAL HANDLING: /messages endpoint requires FormData
-    if (endpoint.includes("/messages") && method === "POST") {
+    if (formBody) {
+      // Multipart from the client is forwarded as-is
+      upstreamBody = formBody;
+      promptText = formBody.get('content')?.toString() || '';
+    } else if (route.kind === 'post-message') {
+      // SPECIAL HANDLING: /messages endpoint requires FormData
       const formData = new FormData();
       if (body && typeof body === 'object') {
         Object.entries(body).forEach(([key, value]) => {
@@ -50,6 +276,7 @@ serve(async (req) => {
         });
       }
       upstreamBody = formData;
+      promptText = formData.get('content')?.toString() || '';
       // Note: Do NOT set Content-Type header manually for FormData - fetch adds boundary automatically
     } else {
       // Default JSON handling for all other endpoints
@@ -63,30 +290,86 @@ serve(async (req) => {
       body: upstreamBody,
     });
 
+    // Streamed turns: hand the event stream straight to the client, counting
+    // the generated text as it passes through
+    const upstreamType = response.headers.get('content-type') || '';
+    if (upstreamType.includes('text/event-stream') && response.body) {
+      console.log(`[backboard-proxy] Streaming response ${response.status}`);
+
+      const upstream = response.body.getReader();
+      const decoder = new TextDecoder();
+      let streamed = '';
+      let recorded = false;
+
+      // Runs once however the stream ends - finished, failed or cancelled by
+      // the client - so partial turns still count towards the quota
+      const recordStreamUsage = async () => {
+        if (recorded) return;
+        recorded = true;
+        streamed += decoder.decode();
+        await recordUsage(admin, user.id, endpoint!, estimateTokens(promptText) + estimateTokens(extractStreamedText(streamed)));
+      };
+
+      const metered = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          try {
+            const { done, value } = await upstream.read();
+            if (done) {
+              await recordStreamUsage();
+              controller.close();
+              return;
+            }
+            streamed += decoder.decode(value, { stream: true });
+            controller.enqueue(value);
+          } catch (error) {
+            await recordStreamUsage();
+            controller.error(error);
+          }
+        },
+        async cancel(reason) {
+          // The client hung up (interrupt or navigation): stop the upstream turn too
+          await upstream.cancel(reason).catch(() => {});
+          await recordStreamUsage();
+        },
+      });
+
+      return new Response(metered, {
+        status: response.status,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+        },
+      });
+    }
+
     const responseText = await response.text();
     console.log(`[backboard-proxy] Response ${response.status}: ${responseText.substring(0, 200)}...`);
 
     // Try to parse as JSON, fallback to text
-    let responseBody: unknown;
+    let responseBody: Record<string, unknown>;
     try {
       responseBody = JSON.parse(responseText);
     } catch {
       responseBody = { raw: responseText };
     }
 
-    return new Response(
-      JSON.stringify(responseBody),
-      {
-        status: response.status,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    if (response.ok) {
+      if (route.kind === 'create-assistant') {
+        await recordResource(admin, user.id, responseBody.assistant_id as string | undefined, 'assistant');
+      } else if (route.kind === 'create-thread') {
+        await recordResource(admin, user.id, responseBody.thread_id as string | undefined, 'thread', resourceId);
       }
-    );
+    }
+
+    const completion = typeof responseBody.content === 'string' ? responseBody.content : '';
+    await recordUsage(admin, user.id, endpoint, estimateTokens(promptText) + estimateTokens(completion));
+
+    return jsonResponse(responseBody, response.status);
 
   } catch (error) {
     console.error('[backboard-proxy] Error:', error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
   }
 });
@@ -1,28 +1,125 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveVoiceId } from "../_shared/voices.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+/**
+ * Text-to-speech with the server-side ElevenLabs key.
+ *
+ * - Default: the whole clip as base64 MP3 in JSON (pre-generated playback).
+ * - `stream: true`: the ElevenLabs /stream response passed through unbuffered,
+ *   as MP3 or raw 24 kHz PCM (`format: 'pcm'`), for the real-time player.
+ * - `action: 'websocket-token'`: a single-use token for the stream-input
+ *   websocket, so the browser can open it without the key.
+ *
+ * Only signed-in users get through. Usage is logged to speech_usage and capped
+ * per user per minute (requests) and per day (characters). Text sent over a
+ * websocket goes straight to ElevenLabs, so each token is charged up front
+ * for the most text the client sends over one socket, and refused once the
+ * daily quota is used.
+ */
 
-// Map internal voice IDs to ElevenLabs voice IDs
-const VOICE_MAP: Record<string, string> = {
-  'male-deep': 'nPczCjzI2devNBz1zQrb', // Brian - deep male
-  'male-calm': 'onwK4e9ZLuTAKqWW03F9', // Daniel - calm male
-  'female-warm': 'EXAVITQu4vr4xnSDxMaL', // Sarah - warm female
-  'female-energetic': 'cgSgspJ2msm6clMCkdW9', // Jessica - energetic female
-  'british-crisp': 'JBFqnCBsd6RMkjVDRZzb', // George - British crisp
-};
+// Comma-separated list of allowed origins; unset allows any origin (local development)
+const ALLOWED_ORIGINS = (Deno.env.get('ALLOWED_ORIGINS') || '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+const REQUESTS_PER_MINUTE = Number(Deno.env.get('SPEECH_REQUESTS_PER_MINUTE')) || 120;
+const TTS_CHARACTERS_PER_DAY = Number(Deno.env.get('TTS_CHARACTERS_PER_DAY')) || 100000;
+// Characters charged per websocket token: the client's cap on one socket
+// (SOCKET_CHARACTER_LIMIT in src/lib/speechSocket.ts)
+const WEBSOCKET_CHARACTERS_PER_TOKEN = 1000;
+
+// Longest text synthesized in one request
+const MAX_TEXT_LENGTH = 5000;
+
+const PCM_SAMPLE_RATE = 24000;
 
 interface TTSRequest {
+  action?: 'speak' | 'websocket-token';
   text: string;
   voiceId: string;
   previousText?: string;
   nextText?: string;
+  /** Pass the audio through as it is generated instead of returning base64 JSON */
+  stream?: boolean;
+  /** Streamed audio format */
+  format?: 'mp3' | 'pcm';
+}
+
+function buildCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get('Origin') || '';
+  const allowOrigin = ALLOWED_ORIGINS.length === 0
+    ? '*'
+    : ALLOWED_ORIGINS.includes(origin) ? origin : ALLOWED_ORIGINS[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Expose-Headers': 'Retry-After',
+    'Vary': 'Origin',
+  };
+}
+
+/** Seconds until the caller may retry, or null when within quota */
+async function checkQuota(
+  admin: SupabaseClient,
+  userId: string,
+  characters: number
+): Promise<{ retryAfter: number; reason: string } | null> {
+  const now = Date.now();
+  const minuteAgo = new Date(now - 60 * 1000).toISOString();
+  const dayAgo = new Date(now - 24 * 60 * 60 * 1000).toISOString();
+
+  const { count, error: countError } = await admin
+    .from('speech_usage')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .gte('created_at', minuteAgo);
+  if (countError) throw countError;
+
+  if ((count || 0) >= REQUESTS_PER_MINUTE) {
+    return { retryAfter: 60, reason: `Rate limit exceeded (${REQUESTS_PER_MINUTE} speech requests per minute). Please try again in a moment.` };
+  }
+
+  if (characters === 0) return null;
+
+  const { data: usage, error: usageError } = await admin
+    .from('speech_usage')
+    .select('units, created_at')
+    .eq('user_id', userId)
+    .in('kind', ['tts', 'tts-websocket'])
+    .gte('created_at', dayAgo)
+    .order('created_at', { ascending: true });
+  if (usageError) throw usageError;
+
+  const used = (usage || []).reduce((sum: number, row: { units: number }) => sum + row.units, 0);
+  if (used + characters > TTS_CHARACTERS_PER_DAY) {
+    // Frees up once the oldest usage in the window is a day old
+    const oldest = usage && usage.length > 0 ? new Date(usage[0].created_at).getTime() : now;
+    const retryAfter = Math.max(60, Math.ceil((oldest + 24 * 60 * 60 * 1000 - now) / 1000));
+    return { retryAfter, reason: 'Daily speech limit reached. Please try again later.' };
+  }
+
+  return null;
+}
+
+async function recordUsage(admin: SupabaseClient, userId: string, kind: 'tts' | 'tts-websocket', units: number) {
+  const { error } = await admin
+    .from('speech_usage')
+    .insert({ user_id: userId, kind, units });
+  if (error) console.error('[ElevenLabs TTS] Failed to record usage:', error);
 }
 
 serve(async (req) => {
+  const corsHeaders = buildCorsHeaders(req);
+  const jsonResponse = (body: unknown, status = 200, extraHeaders: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', ...extraHeaders },
+    });
+
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -30,41 +127,91 @@ serve(async (req) => {
 
   try {
     const ELEVENLABS_API_KEY = Deno.env.get("ELEVENLABS_API_KEY");
-    
+
     if (!ELEVENLABS_API_KEY) {
       console.error("ELEVENLABS_API_KEY not configured");
-      return new Response(
-        JSON.stringify({ error: "ElevenLabs API key not configured" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonResponse({ error: "ElevenLabs API key not configured" }, 500);
+    }
+
+    // 1. Caller must be signed in
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
     }
 
-    const { text, voiceId, previousText, nextText }: TTSRequest = await req.json();
+    // The usage table is only writable with the service role
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const { action = 'speak', text, voiceId, previousText, nextText, stream, format = 'mp3' }: TTSRequest = await req.json();
 
-    if (!text || !voiceId) {
-      return new Response(
-        JSON.stringify({ error: "Missing text or voiceId" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    if (action !== 'websocket-token' && (!text || !voiceId)) {
+      return jsonResponse({ error: "Missing text or voiceId" }, 400);
+    }
+    if (text && text.length > MAX_TEXT_LENGTH) {
+      return jsonResponse({ error: `Text too long (max ${MAX_TEXT_LENGTH} characters)` }, 400);
+    }
+
+    // 2. Per-user quotas
+    const characters = action === 'websocket-token' ? WEBSOCKET_CHARACTERS_PER_TOKEN : text.length;
+    const overQuota = await checkQuota(admin, user.id, characters);
+    if (overQuota) {
+      console.warn('[ElevenLabs TTS] Quota exceeded', { userId: user.id, reason: overQuota.reason });
+      return jsonResponse(
+        { error: overQuota.reason, retryAfter: overQuota.retryAfter },
+        429,
+        { 'Retry-After': String(overQuota.retryAfter) }
       );
     }
 
-    // Map internal voice ID to ElevenLabs voice ID
-    const elevenLabsVoiceId = VOICE_MAP[voiceId] || VOICE_MAP['male-calm'];
+    // 3a. Single-use token for the stream-input websocket
+    if (action === 'websocket-token') {
+      const response = await fetch('https://api.elevenlabs.io/v1/single-use-token/tts_websocket', {
+        method: 'POST',
+        headers: { 'xi-api-key': ELEVENLABS_API_KEY },
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`[ElevenLabs TTS] Token error: ${response.status} - ${errorText}`);
+        return jsonResponse({ error: `ElevenLabs API error: ${response.status}` }, response.status);
+      }
+      const { token } = await response.json();
+      await recordUsage(admin, user.id, 'tts-websocket', WEBSOCKET_CHARACTERS_PER_TOKEN);
+      return jsonResponse({ token });
+    }
+
+    // Map internal voice ID to ElevenLabs voice ID (shared registry)
+    const elevenLabsVoiceId = resolveVoiceId(voiceId);
 
-    console.log(`[ElevenLabs TTS] Generating audio for voice: ${voiceId} -> ${elevenLabsVoiceId}`);
+    console.log(`[ElevenLabs TTS] Generating audio for voice: ${voiceId} -> ${elevenLabsVoiceId}`, { userId: user.id, stream: !!stream });
     console.log(`[ElevenLabs TTS] Text length: ${text.length} chars`);
 
     // Build request body with optional stitching context
     const requestBody: Record<string, unknown> = {
       text,
       model_id: "eleven_turbo_v2_5", // Fast, high quality
-      voice_settings: {
-        stability: 0.5,
-        similarity_boost: 0.75,
-        style: 0.4, // Slightly expressive for podcast
-        use_speaker_boost: true,
-        speed: 1.0,
-      },
+      voice_settings: stream
+        ? { stability: 0.5, similarity_boost: 0.75 }
+        : {
+          stability: 0.5,
+          similarity_boost: 0.75,
+          style: 0.4, // Slightly expressive for podcast
+          use_speaker_boost: true,
+          speed: 1.0,
+        },
     };
 
     // Add stitching context if provided (for natural transitions)
@@ -75,25 +222,37 @@ serve(async (req) => {
       requestBody.next_text = nextText;
     }
 
-    const response = await fetch(
-      `https://api.elevenlabs.io/v1/text-to-speech/${elevenLabsVoiceId}?output_format=mp3_44100_128`,
-      {
-        method: "POST",
-        headers: {
-          "xi-api-key": ELEVENLABS_API_KEY,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(requestBody),
-      }
-    );
+    const outputFormat = stream && format === 'pcm' ? `pcm_${PCM_SAMPLE_RATE}` : 'mp3_44100_128';
+    const url = stream
+      ? `https://api.elevenlabs.io/v1/text-to-speech/${elevenLabsVoiceId}/stream?optimize_streaming_latency=3&output_format=${outputFormat}`
+      : `https://api.elevenlabs.io/v1/text-to-speech/${elevenLabsVoiceId}?output_format=${outputFormat}`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "xi-api-key": ELEVENLABS_API_KEY,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(requestBody),
+    });
 
     if (!response.ok) {
       const errorText = await response.text();
       console.error(`[ElevenLabs TTS] API error: ${response.status} - ${errorText}`);
-      return new Response(
-        JSON.stringify({ error: `ElevenLabs API error: ${response.status}`, details: errorText }),
-        { status: response.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonResponse({ error: `ElevenLabs API error: ${response.status}`, details: errorText }, response.status);
+    }
+
+    await recordUsage(admin, user.id, 'tts', text.length);
+
+    // 3b. Streamed audio goes straight through
+    if (stream && response.body) {
+      return new Response(response.body, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': format === 'pcm' ? `audio/pcm;rate=${PCM_SAMPLE_RATE}` : 'audio/mpeg',
+          'Cache-Control': 'no-cache',
+        },
+      });
     }
 
     const audioBuffer = await response.arrayBuffer();
@@ -101,26 +260,15 @@ serve(async (req) => {
 
     console.log(`[ElevenLabs TTS] Generated audio: ${audioBuffer.byteLength} bytes`);
 
-    return new Response(
-      JSON.stringify({ 
-        audioContent: base64Audio,
-        voiceId: elevenLabsVoiceId,
-        textLength: text.length,
-      }),
-      { 
-        headers: { 
-          ...corsHeaders, 
-          "Content-Type": "application/json" 
-        } 
-      }
-    );
+    return jsonResponse({
+      audioContent: base64Audio,
+      voiceId: elevenLabsVoiceId,
+      textLength: text.length,
+    });
 
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error("[ElevenLabs TTS] Error:", errorMessage);
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({ error: errorMessage }, 500);
   }
 });
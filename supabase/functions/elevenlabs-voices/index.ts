@@ -0,0 +1,135 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Searches the ElevenLabs voice library with the server-side key, for the
+ * host editors' voice browser.
+ *
+ * Takes { search?, gender?, age?, accent?, page? } and returns
+ * { voices, hasMore }, each voice trimmed to what the browser shows (name,
+ * labels and the preview clip URL). Only signed-in users get through.
+ */
+
+// Comma-separated list of allowed origins; unset allows any origin (local development)
+const ALLOWED_ORIGINS = (Deno.env.get('ALLOWED_ORIGINS') || '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+const PAGE_SIZE = 30;
+const MAX_SEARCH_LENGTH = 100;
+
+const GENDERS = ['male', 'female', 'neutral'];
+const AGES = ['young', 'middle_aged', 'old'];
+
+interface VoicesRequest {
+  search?: string;
+  gender?: string;
+  age?: string;
+  accent?: string;
+  page?: number;
+}
+
+interface SharedVoice {
+  voice_id: string;
+  name: string;
+  gender?: string;
+  age?: string;
+  accent?: string;
+  descriptive?: string;
+  use_case?: string;
+  description?: string;
+  preview_url?: string;
+}
+
+function buildCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get('Origin') || '';
+  const allowOrigin = ALLOWED_ORIGINS.length === 0
+    ? '*'
+    : ALLOWED_ORIGINS.includes(origin) ? origin : ALLOWED_ORIGINS[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Vary': 'Origin',
+  };
+}
+
+serve(async (req) => {
+  const corsHeaders = buildCorsHeaders(req);
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const ELEVENLABS_API_KEY = Deno.env.get('ELEVENLABS_API_KEY');
+    if (!ELEVENLABS_API_KEY) {
+      console.error('[elevenlabs-voices] ELEVENLABS_API_KEY not configured');
+      return jsonResponse({ error: 'ElevenLabs API key not configured' }, 500);
+    }
+
+    // Caller must be signed in
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { search, gender, age, accent, page = 0 }: VoicesRequest = await req.json().catch(() => ({}));
+
+    const params = new URLSearchParams({
+      page_size: String(PAGE_SIZE),
+      page: String(Math.max(0, Math.floor(Number(page) || 0))),
+    });
+    if (search?.trim()) params.set('search', search.trim().slice(0, MAX_SEARCH_LENGTH));
+    if (gender && GENDERS.includes(gender)) params.set('gender', gender);
+    if (age && AGES.includes(age)) params.set('age', age);
+    if (accent?.trim()) params.set('accent', accent.trim().toLowerCase());
+
+    const response = await fetch(`https://api.elevenlabs.io/v1/shared-voices?${params}`, {
+      headers: { 'xi-api-key': ELEVENLABS_API_KEY },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[elevenlabs-voices] API error: ${response.status} - ${errorText}`);
+      return jsonResponse({ error: `ElevenLabs API error: ${response.status}` }, response.status);
+    }
+
+    const data = await response.json();
+    const voices = ((data.voices || []) as SharedVoice[]).map(voice => ({
+      voiceId: voice.voice_id,
+      name: voice.name,
+      gender: voice.gender || null,
+      age: voice.age || null,
+      accent: voice.accent || null,
+      style: voice.descriptive || null,
+      useCase: voice.use_case || null,
+      description: voice.description || null,
+      previewUrl: voice.preview_url || null,
+    }));
+
+    return jsonResponse({ voices, hasMore: !!data.has_more });
+
+  } catch (error) {
+    console.error('[elevenlabs-voices] Error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,200 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Drafts the topic segments of an episode outline.
+ *
+ * The client frames them with intro/recap/outro segments and assigns the
+ * time budgets (see src/lib/outlineGenerator.ts), so this only decides what
+ * each topic segment covers and which host leads it. Only signed-in users get
+ * through; the client plans the outline locally otherwise.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface HostConfig {
+  id: string;
+  name: string;
+  role: string;
+  personality?: string;
+}
+
+interface RagChunk {
+  fileName: string;
+  text: string;
+}
+
+interface DraftSegment {
+  title: string;
+  goal: string;
+  talkingPoints: string[];
+  leadHostId: string;
+}
+
+const MAX_REFERENCE_CHARS = 4000;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Caller must be signed in
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Missing authorization header" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: "Not authenticated" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body = await req.json();
+    const topic: string = body.topic || 'General Discussion';
+    const hosts: HostConfig[] = body.hosts || [];
+    const tone: string = body.tone || 'casual';
+    const segmentCount: number = Math.min(Math.max(Number(body.segmentCount) || 3, 1), 8);
+    const concepts: string[] = body.concepts || [];
+    const ragChunks: RagChunk[] = body.ragChunks || [];
+
+    if (hosts.length === 0) {
+      return new Response(JSON.stringify({ error: "At least one host is required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+    if (!LOVABLE_API_KEY) {
+      throw new Error("LOVABLE_API_KEY is not configured");
+    }
+
+    console.log('[generate-outline] Drafting outline', { userId: user.id, topic, segmentCount, concepts: concepts.length, chunks: ragChunks.length });
+
+    let reference = '';
+    for (const chunk of ragChunks) {
+      const entry = `- From "${chunk.fileName}": ${chunk.text}\n`;
+      if (reference.length + entry.length > MAX_REFERENCE_CHARS) break;
+      reference += entry;
+    }
+
+    const systemPrompt = `You plan podcast episodes. Split the episode into EXACTLY ${segmentCount} topic segments that build on each other, from foundations to deeper or more debatable ground.
+
+HOSTS:
+${hosts.map(h => `- id "${h.id}": ${h.name} (${h.role}${h.personality ? `, ${h.personality}` : ''})`).join('\n')}
+
+TONE: ${tone}
+${concepts.length > 0 ? `\nKEY CONCEPTS FROM THE UPLOADED DOCUMENTS (cover the important ones):\n${concepts.map(c => `- ${c}`).join('\n')}\n` : ''}${reference ? `\nREFERENCE MATERIAL:\n${reference}` : ''}
+For each segment give:
+- title: 2-6 words
+- goal: one sentence on what the listener should understand afterwards
+- talkingPoints: 2-4 short phrases
+- leadHostId: the id of the host best suited to lead it (spread segments across hosts)
+
+Return JSON: {"segments": [{"title": "...", "goal": "...", "talkingPoints": ["..."], "leadHostId": "..."}]}`;
+
+    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${LOVABLE_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: "google/gemini-3-flash-preview",
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: `Plan an episode about: ${topic}` }
+        ],
+        response_format: { type: "json_object" },
+      }),
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }), {
+          status: 429,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      if (response.status === 402) {
+        return new Response(JSON.stringify({ error: "Credits required. Please add funds to continue." }), {
+          status: 402,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      const errorText = await response.text();
+      console.error("AI gateway error:", response.status, errorText);
+      return new Response(JSON.stringify({ error: "Failed to generate outline" }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+      throw new Error("No content in response");
+    }
+
+    let parsedContent;
+    try {
+      parsedContent = JSON.parse(content);
+    } catch {
+      const jsonMatch = content.match(/\{[\s\S]*\}/);
+      if (jsonMatch) {
+        parsedContent = JSON.parse(jsonMatch[0]);
+      } else {
+        throw new Error("Could not parse outline from response");
+      }
+    }
+
+    const rawSegments = Array.isArray(parsedContent) ? parsedContent : parsedContent.segments;
+    if (!Array.isArray(rawSegments)) {
+      throw new Error("Invalid outline format");
+    }
+
+    const hostIds = new Set(hosts.map(h => h.id));
+    const segments: DraftSegment[] = (rawSegments as Partial<DraftSegment>[])
+      .filter(s => s && typeof s.title === 'string')
+      .map((s, index) => ({
+        title: s.title!.trim(),
+        goal: typeof s.goal === 'string' ? s.goal.trim() : '',
+        talkingPoints: Array.isArray(s.talkingPoints)
+          ? s.talkingPoints.filter((p: unknown) => typeof p === 'string').slice(0, 4)
+          : [],
+        leadHostId: hostIds.has(s.leadHostId) ? s.leadHostId : hosts[index % hosts.length].id,
+      }));
+
+    console.log('[generate-outline] Drafted segments:', segments.length);
+
+    return new Response(JSON.stringify({ segments }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error("Error generating outline:", error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : "Unknown error"
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
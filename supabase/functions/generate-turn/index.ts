@@ -36,7 +36,7 @@ ${recentHistory}
 
 The other host is ${otherHost.name}, a ${otherHost.role}.
 
-What do you say next in this podcast about "${topic}"?`
+What do you say next in this podcast about "${topic}"?${options.instructions ? `\n\n${options.instructions}` : ''}`
 
         const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
             method: 'POST',
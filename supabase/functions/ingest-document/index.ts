@@ -0,0 +1,190 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Document store for RAG (pgvector)
+ *
+ * Actions:
+ * - ingest: embeds the chunks of an uploaded document and stores them in
+ *   document_chunks, replacing any previous chunks for the same file in one
+ *   transaction (replace_document_chunks RPC)
+ * - search: embeds a query and runs the match_document_chunks RPC
+ * - delete: removes a file's chunks and its object in the classroom-documents bucket
+ *
+ * Text extraction and chunking happen in the browser (src/lib/documentParser.ts,
+ * src/lib/chunking.ts) so PDF/DOCX/PPTX parsing isn't duplicated here.
+ * All queries run with the caller's JWT, so RLS scopes everything to their own rows.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const EMBEDDING_MODEL = 'text-embedding-3-small';
+const EMBEDDING_BATCH_SIZE = 96;
+const STORAGE_BUCKET = 'classroom-documents';
+
+interface IncomingChunk {
+  text: string;
+  sectionKind?: string;
+  page?: number;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function embed(texts: string[], apiKey: string): Promise<number[][]> {
+  const embeddings: number[][] = [];
+
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const response = await fetch('https://api.openai.com/v1/embeddings', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: EMBEDDING_MODEL, input: batch }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embedding API error: ${response.status} ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    // Responses are not guaranteed to be in input order
+    const sorted = [...data.data].sort((a: { index: number }, b: { index: number }) => a.index - b.index);
+    embeddings.push(...sorted.map((item: { embedding: number[] }) => item.embedding));
+  }
+
+  return embeddings;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const apiKey = Deno.env.get("OPENAI_API_KEY");
+    if (!apiKey) {
+      console.error('[ingest-document] Missing OPENAI_API_KEY secret');
+      return jsonResponse({ error: 'Missing API key configuration' }, 500);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { action, ...params } = await req.json();
+    console.log(`[ingest-document] ${action}`, { userId: user.id, fileId: params.fileId });
+
+    switch (action) {
+      case 'ingest': {
+        const { fileId, fileName, storagePath, sessionId, chunks } = params as {
+          fileId: string;
+          fileName: string;
+          storagePath?: string;
+          sessionId?: string;
+          chunks: IncomingChunk[];
+        };
+
+        if (!fileId || !fileName || !Array.isArray(chunks) || chunks.length === 0) {
+          return jsonResponse({ error: 'fileId, fileName and chunks are required' }, 400);
+        }
+
+        const embeddings = await embed(chunks.map(c => c.text), apiKey);
+
+        const rows = chunks.map((chunk, index) => ({
+          session_id: sessionId || null,
+          file_name: fileName,
+          storage_path: storagePath || null,
+          chunk_index: index,
+          content: chunk.text,
+          section_kind: chunk.sectionKind || 'body',
+          page: chunk.page ?? null,
+          embedding: JSON.stringify(embeddings[index]),
+        }));
+
+        // Re-ingesting a file replaces its chunks; the old ones stay if this fails
+        const { data: chunksCreated, error: replaceError } = await supabase.rpc('replace_document_chunks', {
+          target_file_id: fileId,
+          chunks: rows,
+        });
+        if (replaceError) throw replaceError;
+
+        return jsonResponse({ success: true, chunksCreated: chunksCreated ?? rows.length });
+      }
+
+      case 'search': {
+        const { query, topK = 5, fileIds, sessionId } = params as {
+          query: string;
+          topK?: number;
+          fileIds?: string[];
+          sessionId?: string;
+        };
+
+        if (!query?.trim()) {
+          return jsonResponse({ error: 'query is required' }, 400);
+        }
+
+        const [queryEmbedding] = await embed([query], apiKey);
+        const { data, error } = await supabase.rpc('match_document_chunks', {
+          query_embedding: JSON.stringify(queryEmbedding),
+          match_count: topK,
+          filter_file_ids: fileIds && fileIds.length > 0 ? fileIds : null,
+          filter_session_id: sessionId || null,
+        });
+        if (error) throw error;
+
+        return jsonResponse({ chunks: data || [] });
+      }
+
+      case 'delete': {
+        const { fileId } = params as { fileId: string };
+        if (!fileId) {
+          return jsonResponse({ error: 'fileId is required' }, 400);
+        }
+
+        const { data: deleted, error } = await supabase
+          .from('document_chunks')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('file_id', fileId)
+          .select('storage_path');
+        if (error) throw error;
+
+        const paths = Array.from(new Set((deleted || []).map(row => row.storage_path).filter(Boolean)));
+        if (paths.length > 0) {
+          const { error: storageError } = await supabase.storage.from(STORAGE_BUCKET).remove(paths);
+          if (storageError) console.warn('[ingest-document] Failed to remove stored file:', storageError);
+        }
+
+        return jsonResponse({ success: true, chunksDeleted: deleted?.length || 0 });
+      }
+
+      default:
+        return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+    }
+  } catch (error) {
+    console.error('[ingest-document] Error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,177 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Transcribes a listener's recording with the server-side ElevenLabs key.
+ *
+ * Takes multipart form data with the recording as `file` and returns
+ * { text }. Only signed-in users get through; recordings are size-capped and
+ * transcriptions are logged to speech_usage and capped per user per minute
+ * and per day.
+ */
+
+// Comma-separated list of allowed origins; unset allows any origin (local development)
+const ALLOWED_ORIGINS = (Deno.env.get('ALLOWED_ORIGINS') || '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+const REQUESTS_PER_MINUTE = Number(Deno.env.get('SPEECH_REQUESTS_PER_MINUTE')) || 120;
+const STT_REQUESTS_PER_DAY = Number(Deno.env.get('STT_REQUESTS_PER_DAY')) || 200;
+
+// A question to the hosts, not a lecture
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+const STT_MODEL = 'scribe_v2';
+
+function buildCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get('Origin') || '';
+  const allowOrigin = ALLOWED_ORIGINS.length === 0
+    ? '*'
+    : ALLOWED_ORIGINS.includes(origin) ? origin : ALLOWED_ORIGINS[0];
+
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Expose-Headers': 'Retry-After',
+    'Vary': 'Origin',
+  };
+}
+
+/** Seconds until the caller may retry, or null when within quota */
+async function checkQuota(admin: SupabaseClient, userId: string): Promise<{ retryAfter: number; reason: string } | null> {
+  const now = Date.now();
+  const minuteAgo = new Date(now - 60 * 1000).toISOString();
+  const dayAgo = new Date(now - 24 * 60 * 60 * 1000).toISOString();
+
+  const { count, error: countError } = await admin
+    .from('speech_usage')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .gte('created_at', minuteAgo);
+  if (countError) throw countError;
+
+  if ((count || 0) >= REQUESTS_PER_MINUTE) {
+    return { retryAfter: 60, reason: `Rate limit exceeded (${REQUESTS_PER_MINUTE} speech requests per minute). Please try again in a moment.` };
+  }
+
+  const { data: usage, error: usageError } = await admin
+    .from('speech_usage')
+    .select('created_at')
+    .eq('user_id', userId)
+    .eq('kind', 'stt')
+    .gte('created_at', dayAgo)
+    .order('created_at', { ascending: true });
+  if (usageError) throw usageError;
+
+  if ((usage || []).length >= STT_REQUESTS_PER_DAY) {
+    // Frees up once the oldest transcription in the window is a day old
+    const oldest = new Date(usage![0].created_at).getTime();
+    const retryAfter = Math.max(60, Math.ceil((oldest + 24 * 60 * 60 * 1000 - now) / 1000));
+    return { retryAfter, reason: 'Daily transcription limit reached. Please type your question instead.' };
+  }
+
+  return null;
+}
+
+serve(async (req) => {
+  const corsHeaders = buildCorsHeaders(req);
+  const jsonResponse = (body: unknown, status = 200, extraHeaders: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', ...extraHeaders },
+    });
+
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const ELEVENLABS_API_KEY = Deno.env.get('ELEVENLABS_API_KEY');
+    if (!ELEVENLABS_API_KEY) {
+      console.error('[speech-to-text] ELEVENLABS_API_KEY not configured');
+      return jsonResponse({ error: 'ElevenLabs API key not configured' }, 500);
+    }
+
+    // 1. Caller must be signed in
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    // The usage table is only writable with the service role
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    if (!(req.headers.get('content-type') || '').includes('multipart/form-data')) {
+      return jsonResponse({ error: 'Expected multipart form data with a file field' }, 400);
+    }
+
+    const form = await req.formData();
+    const file = form.get('file');
+    if (!(file instanceof File) || file.size === 0) {
+      return jsonResponse({ error: 'Missing recording' }, 400);
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return jsonResponse({ error: 'Recording too long' }, 413);
+    }
+
+    // 2. Per-user quotas
+    const overQuota = await checkQuota(admin, user.id);
+    if (overQuota) {
+      console.warn('[speech-to-text] Quota exceeded', { userId: user.id, reason: overQuota.reason });
+      return jsonResponse(
+        { error: overQuota.reason, retryAfter: overQuota.retryAfter },
+        429,
+        { 'Retry-After': String(overQuota.retryAfter) }
+      );
+    }
+
+    console.log(`[speech-to-text] Transcribing ${file.size} bytes`, { userId: user.id });
+
+    const upstream = new FormData();
+    upstream.append('file', file, file.name || 'recording.webm');
+    upstream.append('model_id', STT_MODEL);
+
+    const response = await fetch('https://api.elevenlabs.io/v1/speech-to-text', {
+      method: 'POST',
+      headers: { 'xi-api-key': ELEVENLABS_API_KEY },
+      body: upstream,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[speech-to-text] API error: ${response.status} - ${errorText}`);
+      return jsonResponse({ error: `Transcription failed: ${response.status}` }, response.status);
+    }
+
+    const data = await response.json();
+
+    const { error: usageError } = await admin
+      .from('speech_usage')
+      .insert({ user_id: user.id, kind: 'stt', units: file.size });
+    if (usageError) console.error('[speech-to-text] Failed to record usage:', usageError);
+
+    // Handle different response formats
+    const text = typeof data.text === 'string' ? data.text : data.transcription || '';
+    return jsonResponse({ text: String(text).trim() });
+
+  } catch (error) {
+    console.error('[speech-to-text] Error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,111 @@
+-- Migration: pgvector-backed document store for RAG
+-- Uploaded documents are chunked and embedded by the ingest-document edge function.
+-- The classroom / enrollment tables were dropped in 20260115175459, so chunks are
+-- scoped by owner and (optionally) the podcast session they were uploaded for.
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE public.document_chunks (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    session_id uuid REFERENCES public.podcast_sessions(id) ON DELETE CASCADE,
+    file_id text NOT NULL,
+    file_name text NOT NULL,
+    storage_path text,
+    chunk_index integer NOT NULL,
+    content text NOT NULL,
+    section_kind text NOT NULL DEFAULT 'body',
+    page integer,
+    -- text-embedding-3-small
+    embedding extensions.vector(1536) NOT NULL,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+    UNIQUE (user_id, file_id, chunk_index)
+);
+
+CREATE INDEX idx_document_chunks_user_file ON public.document_chunks(user_id, file_id);
+CREATE INDEX idx_document_chunks_session ON public.document_chunks(session_id) WHERE session_id IS NOT NULL;
+CREATE INDEX idx_document_chunks_embedding ON public.document_chunks
+USING hnsw (embedding extensions.vector_cosine_ops);
+
+ALTER TABLE public.document_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document chunks"
+ON public.document_chunks FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own document chunks"
+ON public.document_chunks FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own document chunks"
+ON public.document_chunks FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Top-k cosine similarity search over the caller's chunks
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+    query_embedding extensions.vector(1536),
+    match_count integer DEFAULT 5,
+    filter_file_ids text[] DEFAULT NULL,
+    filter_session_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    id uuid,
+    file_id text,
+    file_name text,
+    chunk_index integer,
+    content text,
+    section_kind text,
+    page integer,
+    similarity double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+    SELECT
+        dc.id,
+        dc.file_id,
+        dc.file_name,
+        dc.chunk_index,
+        dc.content,
+        dc.section_kind,
+        dc.page,
+        1 - (dc.embedding <=> query_embedding) AS similarity
+    FROM public.document_chunks dc
+    WHERE dc.user_id = auth.uid()
+      AND (filter_file_ids IS NULL OR dc.file_id = ANY(filter_file_ids))
+      AND (filter_session_id IS NULL OR dc.session_id = filter_session_id)
+    ORDER BY dc.embedding <=> query_embedding
+    LIMIT match_count;
+$$;
+
+-- Storage: the classroom-based policies referenced dropped tables.
+-- Files now live under <user_id>/<file_id>/<file name>.
+DROP POLICY IF EXISTS "teacher_upload_files" ON storage.objects;
+DROP POLICY IF EXISTS "teacher_select_files" ON storage.objects;
+DROP POLICY IF EXISTS "teacher_delete_files" ON storage.objects;
+DROP POLICY IF EXISTS "student_select_files" ON storage.objects;
+
+UPDATE storage.buckets SET public = false WHERE id = 'classroom-documents';
+
+CREATE POLICY "owner_upload_documents"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (
+  bucket_id = 'classroom-documents'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "owner_select_documents"
+ON storage.objects FOR SELECT TO authenticated
+USING (
+  bucket_id = 'classroom-documents'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "owner_delete_documents"
+ON storage.objects FOR DELETE TO authenticated
+USING (
+  bucket_id = 'classroom-documents'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
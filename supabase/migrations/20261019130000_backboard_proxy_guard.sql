@@ -0,0 +1,38 @@
+-- Migration: ownership and quotas for the backboard-proxy edge function
+-- The proxy records every assistant and thread it creates so later calls can only
+-- touch the caller's own Backboard resources, and logs usage for per-user quotas.
+-- Both tables are written by the proxy with the service role only.
+
+CREATE TABLE public.backboard_resources (
+    id text PRIMARY KEY,
+    kind text NOT NULL CHECK (kind IN ('assistant', 'thread')),
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    -- For threads: the assistant they were created on
+    assistant_id text,
+    created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_backboard_resources_user ON public.backboard_resources(user_id);
+
+ALTER TABLE public.backboard_resources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own Backboard resources"
+ON public.backboard_resources FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TABLE public.backboard_usage (
+    id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    endpoint text NOT NULL,
+    -- Approximate (4 characters per token), prompt + completion
+    tokens integer NOT NULL DEFAULT 0,
+    created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_backboard_usage_user_time ON public.backboard_usage(user_id, created_at);
+
+ALTER TABLE public.backboard_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own Backboard usage"
+ON public.backboard_usage FOR SELECT
+USING (auth.uid() = user_id);
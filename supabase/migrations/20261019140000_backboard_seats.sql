@@ -0,0 +1,9 @@
+-- Migration: per-host Backboard seats for resuming a live conversation
+-- Every host has their own assistant and thread (src/lib/backboard.ts). The full
+-- set is stored here; backboard_assistant_id / backboard_thread_id keep the
+-- opening host's so existing lookups by thread still work.
+
+ALTER TABLE public.podcast_sessions
+ADD COLUMN IF NOT EXISTS backboard_seats jsonb;
+
+COMMENT ON COLUMN public.podcast_sessions.backboard_seats IS 'Backboard assistant and thread per host: [{ hostId, hostName, assistantId, threadId }]';
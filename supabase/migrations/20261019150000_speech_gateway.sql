@@ -0,0 +1,22 @@
+-- Migration: usage log for the speech gateway (elevenlabs-tts, speech-to-text)
+-- The ElevenLabs key lives in the edge functions only; every TTS / STT call is
+-- logged here so the functions can cap usage per user. Written by the functions
+-- with the service role only.
+
+CREATE TABLE public.speech_usage (
+    id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    kind text NOT NULL CHECK (kind IN ('tts', 'tts-websocket', 'stt')),
+    -- Characters synthesized for 'tts', the characters allowed per token for
+    -- 'tts-websocket', uploaded bytes for 'stt'
+    units integer NOT NULL DEFAULT 0,
+    created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_speech_usage_user_time ON public.speech_usage(user_id, created_at);
+
+ALTER TABLE public.speech_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own speech usage"
+ON public.speech_usage FOR SELECT
+USING (auth.uid() = user_id);
@@ -0,0 +1,43 @@
+-- Migration: replace a document's chunks atomically
+-- Re-ingesting used to delete a file's chunks and then insert the new ones as
+-- two requests, so a failed insert left the document with no chunks at all.
+-- Both now run in one function call, i.e. one transaction. Runs with the
+-- caller's rights, so the document_chunks RLS policies still apply.
+
+CREATE OR REPLACE FUNCTION public.replace_document_chunks(
+    target_file_id text,
+    chunks jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    inserted integer;
+BEGIN
+    DELETE FROM public.document_chunks
+    WHERE user_id = auth.uid()
+      AND file_id = target_file_id;
+
+    INSERT INTO public.document_chunks (
+        user_id, session_id, file_id, file_name, storage_path,
+        chunk_index, content, section_kind, page, embedding
+    )
+    SELECT
+        auth.uid(),
+        (chunk->>'session_id')::uuid,
+        target_file_id,
+        chunk->>'file_name',
+        chunk->>'storage_path',
+        (chunk->>'chunk_index')::integer,
+        chunk->>'content',
+        COALESCE(chunk->>'section_kind', 'body'),
+        (chunk->>'page')::integer,
+        (chunk->>'embedding')::extensions.vector(1536)
+    FROM jsonb_array_elements(chunks) AS chunk;
+
+    GET DIAGNOSTICS inserted = ROW_COUNT;
+    RETURN inserted;
+END;
+$$;
@@ -0,0 +1,9 @@
+-- Migration: store the episode outline on the session
+-- The live studio saves its session (prompt, hosts, settings, documents and
+-- outline) when an episode goes live, so a continued episode follows the same
+-- plan instead of a freshly built one.
+
+ALTER TABLE public.podcast_sessions
+ADD COLUMN IF NOT EXISTS outline jsonb;
+
+COMMENT ON COLUMN public.podcast_sessions.outline IS 'Episode outline the live conversation is paced through: { topic, length, segments }';